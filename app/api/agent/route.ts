@@ -1,20 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import parseLLMJson from '@/lib/jsonParser'
-
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
-
-// Types
-interface NormalizedAgentResponse {
-  status: 'success' | 'error'
-  result: Record<string, any>
-  message?: string
-  metadata?: {
-    agent_name?: string
-    timestamp?: string
-    [key: string]: any
-  }
-}
+import { normalizeResponse } from '@/lib/agentResponse'
+import { createUpstreamSignal, getTimeoutMessage, type UpstreamSignal } from '@/lib/upstreamTimeout'
+import { getAgentProvider, type AgentPayload } from '@/lib/agentProvider'
 
 function generateUUID(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
@@ -24,80 +12,9 @@ function generateUUID(): string {
   })
 }
 
-function normalizeResponse(parsed: any): NormalizedAgentResponse {
-  if (!parsed) {
-    return {
-      status: 'error',
-      result: {},
-      message: 'Empty response from agent',
-    }
-  }
-
-  if (typeof parsed === 'string') {
-    return {
-      status: 'success',
-      result: { text: parsed },
-      message: parsed,
-    }
-  }
-
-  if (typeof parsed !== 'object') {
-    return {
-      status: 'success',
-      result: { value: parsed },
-      message: String(parsed),
-    }
-  }
-
-  if ('status' in parsed && 'result' in parsed) {
-    return {
-      status: parsed.status === 'error' ? 'error' : 'success',
-      result: parsed.result || {},
-      message: parsed.message,
-      metadata: parsed.metadata,
-    }
-  }
-
-  if ('status' in parsed) {
-    const { status, message, metadata, ...rest } = parsed
-    return {
-      status: status === 'error' ? 'error' : 'success',
-      result: Object.keys(rest).length > 0 ? rest : {},
-      message,
-      metadata,
-    }
-  }
-
-  if ('result' in parsed) {
-    return {
-      status: 'success',
-      result: parsed.result,
-      message: parsed.message,
-      metadata: parsed.metadata,
-    }
-  }
-
-  if ('message' in parsed && typeof parsed.message === 'string') {
-    return {
-      status: 'success',
-      result: { text: parsed.message },
-      message: parsed.message,
-    }
-  }
-
-  if ('response' in parsed) {
-    return normalizeResponse(parsed.response)
-  }
-
-  return {
-    status: 'success',
-    result: parsed,
-    message: undefined,
-    metadata: undefined,
-  }
-}
-
 export async function POST(request: NextRequest) {
+  let upstream: UpstreamSignal | null = null
+  let attempts = 0
   try {
     const body = await request.json()
     const { message, agent_id, user_id, session_id, assets } = body
@@ -117,16 +34,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!LYZR_API_KEY) {
+    const provider = getAgentProvider()
+    const configError = provider.getConfigError()
+    if (configError) {
       return NextResponse.json(
         {
           success: false,
           response: {
             status: 'error',
             result: {},
-            message: 'LYZR_API_KEY not configured',
+            message: configError,
           },
-          error: 'LYZR_API_KEY not configured on server',
+          error: configError,
         },
         { status: 500 }
       )
@@ -135,7 +54,7 @@ export async function POST(request: NextRequest) {
     const finalUserId = user_id || `user-${generateUUID()}`
     const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
 
-    const payload: Record<string, any> = {
+    const payload: AgentPayload = {
       message,
       agent_id,
       user_id: finalUserId,
@@ -146,13 +65,10 @@ export async function POST(request: NextRequest) {
       payload.assets = assets
     }
 
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify(payload),
+    upstream = createUpstreamSignal('agent', request.signal)
+    const response = await provider.chat(payload, {
+      signal: upstream.signal,
+      onAttempt: (attempt) => (attempts = attempt),
     })
 
     const rawText = await response.text()
@@ -167,6 +83,7 @@ export async function POST(request: NextRequest) {
             status: 'error',
             result: {},
             message: parsed.error,
+            metadata: { attempts },
           },
           error: parsed.error,
           raw_response: rawText,
@@ -177,7 +94,7 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json({
         success: true,
-        response: normalized,
+        response: { ...normalized, metadata: { ...normalized.metadata, attempts } },
         agent_id,
         user_id: finalUserId,
         session_id: finalSessionId,
@@ -198,6 +115,7 @@ export async function POST(request: NextRequest) {
             status: 'error',
             result: {},
             message: errorMsg,
+            metadata: { attempts },
           },
           error: errorMsg,
           raw_response: rawText,
@@ -206,7 +124,8 @@ export async function POST(request: NextRequest) {
       )
     }
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    const timedOut = upstream?.timedOut() || false
+    const errorMsg = timedOut ? getTimeoutMessage('agent') : error instanceof Error ? error.message : 'Server error'
     return NextResponse.json(
       {
         success: false,
@@ -214,10 +133,13 @@ export async function POST(request: NextRequest) {
           status: 'error',
           result: {},
           message: errorMsg,
+          metadata: { attempts },
         },
         error: errorMsg,
       },
-      { status: 500 }
+      { status: timedOut ? 504 : 500 }
     )
+  } finally {
+    upstream?.clear()
   }
 }
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import parseLLMJson from '@/lib/jsonParser'
+import { normalizeResponse } from '@/lib/agentResponse'
+import { createSSEParser, formatSSE } from '@/lib/sse'
+import { generateUUID } from '@/lib/utils'
+import { createUpstreamSignal, getTimeoutMessage, type UpstreamSignal } from '@/lib/upstreamTimeout'
+import { getAgentProvider, type AgentPayload } from '@/lib/agentProvider'
+
+export const dynamic = 'force-dynamic'
+
+function errorJson(message: string, status: number, extra: Record<string, any> = {}, attempts = 0) {
+  return NextResponse.json(
+    {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message,
+        metadata: { attempts },
+      },
+      error: message,
+      ...extra,
+    },
+    { status }
+  )
+}
+
+// Upstream events carry either raw text or a JSON object with the text in one field
+function readChunk(data: string): string {
+  if (data === '[DONE]') return ''
+  // Raw text can itself look like JSON (`"on"`, `200`), so only objects are unwrapped
+  if (!data.startsWith('{')) return data
+  try {
+    const parsed = JSON.parse(data)
+    for (const key of ['content', 'text', 'delta', 'chunk', 'response']) {
+      if (typeof parsed?.[key] === 'string') return parsed[key]
+    }
+  } catch {}
+  return data
+}
+
+/**
+ * Streaming variant of `/api/agent`. Emits `chunk` events with `{ text }` as
+ * the agent writes, then one `done` event carrying the same body `/api/agent`
+ * returns, or an `error` event.
+ */
+export async function POST(request: NextRequest) {
+  let upstream: UpstreamSignal | null = null
+  let attempts = 0
+  try {
+    const body = await request.json()
+    const { message, agent_id, user_id, session_id, assets } = body
+
+    if (!message || !agent_id) {
+      return errorJson('message and agent_id are required', 400)
+    }
+
+    const provider = getAgentProvider()
+    const configError = provider.getConfigError()
+    if (configError) {
+      return errorJson(configError, 500)
+    }
+
+    const finalUserId = user_id || `user-${generateUUID()}`
+    const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+
+    const payload: AgentPayload = {
+      message,
+      agent_id,
+      user_id: finalUserId,
+      session_id: finalSessionId,
+    }
+
+    if (assets && assets.length > 0) {
+      payload.assets = assets
+    }
+
+    upstream = createUpstreamSignal('agent_stream', request.signal)
+    const upstreamSignal = upstream
+    const response = await provider.stream(payload, {
+      signal: upstream.signal,
+      onAttempt: (attempt) => (attempts = attempt),
+    })
+
+    if (!response.ok || !response.body) {
+      upstream.clear()
+      const rawText = await response.text()
+      let errorMsg = `API returned status ${response.status}`
+      try {
+        const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
+        errorMsg = errorData?.error || errorData?.message || errorMsg
+      } catch {}
+      return errorJson(errorMsg, response.ok ? 502 : response.status, { raw_response: rawText }, attempts)
+    }
+
+    const isEventStream = (response.headers.get('content-type') || '').includes('text/event-stream')
+    const reader = response.body.getReader()
+    const encoder = new TextEncoder()
+    // Set when the client goes away; nothing more can be sent
+    let cancelled = false
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!cancelled) controller.enqueue(encoder.encode(formatSSE(event, data)))
+        }
+        let text = ''
+        const emit = (chunk: string) => {
+          if (!chunk) return
+          text += chunk
+          send('chunk', { text: chunk })
+        }
+        const parser = createSSEParser((event) => emit(readChunk(event.data)))
+        const decoder = new TextDecoder()
+
+        try {
+          while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+            const decoded = decoder.decode(value, { stream: true })
+            // A plain body is forwarded as it arrives
+            if (isEventStream) parser.push(decoded)
+            else emit(decoded)
+          }
+          parser.flush()
+
+          // Plain-text answers are kept as text rather than treated as failed JSON
+          const parsed = parseLLMJson(text)
+          const normalized = normalizeResponse(parsed?.success === false ? text : parsed)
+
+          send('done', {
+            success: normalized.status === 'success',
+            response: { ...normalized, metadata: { ...normalized.metadata, attempts } },
+            agent_id,
+            user_id: finalUserId,
+            session_id: finalSessionId,
+            timestamp: new Date().toISOString(),
+            raw_response: text,
+          })
+        } catch (error) {
+          const errorMsg = upstreamSignal.timedOut()
+            ? getTimeoutMessage('agent_stream')
+            : error instanceof Error
+              ? error.message
+              : 'Stream interrupted'
+          send('error', {
+            success: false,
+            response: {
+              status: 'error',
+              result: {},
+              message: errorMsg,
+              metadata: { attempts },
+            },
+            error: errorMsg,
+            raw_response: text,
+          })
+        } finally {
+          upstreamSignal.clear()
+          if (!cancelled) controller.close()
+        }
+      },
+      cancel() {
+        cancelled = true
+        reader.cancel().catch(() => {})
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    // Only reached before the stream starts; the stream clears its own deadline
+    upstream?.clear()
+    if (upstream?.timedOut()) return errorJson(getTimeoutMessage('agent_stream'), 504, {}, attempts)
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return errorJson(errorMsg, 500, {}, attempts)
+  }
+}
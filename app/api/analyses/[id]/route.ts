@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EDIT_TOKEN_HEADER, isAnalysisId, readAnalysisInput } from '@/lib/analysisStore'
+import { getServerAnalysisStore } from '@/lib/fileAnalysisStore'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+const notFound = (id: string) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: `Analysis ${id} not found`,
+    },
+    { status: 404 }
+  )
+
+const forbidden = (id: string) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: `Only whoever shared analysis ${id} can change or delete it`,
+    },
+    { status: 403 }
+  )
+
+// GET - One shared analysis with its dashboard, transactions and chat
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isAnalysisId(params.id)) return notFound(params.id)
+
+    const analysis = await getServerAnalysisStore().get(params.id)
+    if (!analysis) return notFound(params.id)
+
+    return NextResponse.json({
+      success: true,
+      analysis,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Share an analysis again under the id it was first shared with; needs its edit token
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isAnalysisId(params.id)) return notFound(params.id)
+
+    const store = getServerAnalysisStore()
+    const existing = await store.get(params.id)
+    if (!existing) return notFound(params.id)
+    if (!(await store.checkEditToken(params.id, request.headers.get(EDIT_TOKEN_HEADER)))) return forbidden(params.id)
+
+    const { input, error, status } = await readAnalysisInput(request)
+    if (!input) {
+      return NextResponse.json(
+        {
+          success: false,
+          error,
+        },
+        { status }
+      )
+    }
+
+    const analysis = { ...input, id: existing.id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() }
+    await store.save(analysis)
+
+    return NextResponse.json({
+      success: true,
+      analysis,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove a shared analysis; needs its edit token
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isAnalysisId(params.id)) return notFound(params.id)
+
+    const store = getServerAnalysisStore()
+    if (!(await store.get(params.id))) return notFound(params.id)
+    if (!(await store.checkEditToken(params.id, request.headers.get(EDIT_TOKEN_HEADER)))) return forbidden(params.id)
+    await store.remove(params.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Analysis deleted',
+      id: params.id,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
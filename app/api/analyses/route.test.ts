@@ -0,0 +1,94 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/analyses/route'
+import { DELETE, GET, PUT } from '@/app/api/analyses/[id]/route'
+import { EDIT_TOKEN_HEADER, type AnalysisInput } from '@/lib/analysisStore'
+
+const input: AnalysisInput = {
+  file: { name: 'statement.csv', size: 1200, format: 'csv' },
+  rows: null,
+  dashboard: { transactions: [] } as never,
+  report: { agent: 'manager', valid: true, issues: [], missing: [] },
+  insights: [],
+  chat: [],
+  chatSessionId: 'manager-123456789012',
+}
+
+const call = (method: string, url: string, options: { body?: unknown; token?: string } = {}) =>
+  new NextRequest(`http://localhost${url}`, {
+    method,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    headers: options.token ? { [EDIT_TOKEN_HEADER]: options.token } : {},
+  })
+
+// Share an analysis and return its id and edit token
+async function share() {
+  const response = await POST(call('POST', '/api/analyses', { body: input }))
+  const body = await response.json()
+  return { id: body.analysis.id as string, editToken: body.editToken as string }
+}
+
+describe('/api/analyses', () => {
+  let directory: string
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'finos-routes-'))
+    process.env.ANALYSIS_STORE_DIR = directory
+    // Storage does not depend on the agent backend being configured
+    delete process.env.LYZR_API_KEY
+  })
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('returns an edit token when an analysis is shared', async () => {
+    const { id, editToken } = await share()
+
+    expect(editToken).toMatch(/^[0-9a-f]{64}$/)
+    expect((await GET(call('GET', `/api/analyses/${id}`), { params: { id } })).status).toBe(200)
+  })
+
+  it('rejects an update without the edit token', async () => {
+    const { id } = await share()
+    const changed = { ...input, insights: ['Overwritten'] }
+
+    const missing = await PUT(call('PUT', `/api/analyses/${id}`, { body: changed }), { params: { id } })
+    const wrong = await PUT(call('PUT', `/api/analyses/${id}`, { body: changed, token: 'f'.repeat(64) }), {
+      params: { id },
+    })
+
+    expect(missing.status).toBe(403)
+    expect(wrong.status).toBe(403)
+    const stored = await (await GET(call('GET', `/api/analyses/${id}`), { params: { id } })).json()
+    expect(stored.analysis.insights).toEqual([])
+  })
+
+  it("rejects a delete with another share's token", async () => {
+    const { id } = await share()
+    const other = await share()
+
+    const response = await DELETE(call('DELETE', `/api/analyses/${id}`, { token: other.editToken }), { params: { id } })
+
+    expect(response.status).toBe(403)
+    expect((await GET(call('GET', `/api/analyses/${id}`), { params: { id } })).status).toBe(200)
+  })
+
+  it('updates and deletes with the edit token', async () => {
+    const { id, editToken } = await share()
+    const changed = { ...input, insights: ['Updated'] }
+
+    const updated = await PUT(call('PUT', `/api/analyses/${id}`, { body: changed, token: editToken }), {
+      params: { id },
+    })
+    expect(updated.status).toBe(200)
+    expect((await updated.json()).analysis.insights).toEqual(['Updated'])
+
+    const deleted = await DELETE(call('DELETE', `/api/analyses/${id}`, { token: editToken }), { params: { id } })
+    expect(deleted.status).toBe(200)
+    expect((await GET(call('GET', `/api/analyses/${id}`), { params: { id } })).status).toBe(404)
+  })
+})
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAnalysisRecord, readAnalysisInput } from '@/lib/analysisStore'
+import { getServerAnalysisStore } from '@/lib/fileAnalysisStore'
+
+// GET - List shared analyses, most recently updated first
+export async function GET() {
+  try {
+    const analyses = await getServerAnalysisStore().list()
+
+    return NextResponse.json({
+      success: true,
+      analyses,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Share an analysis; the server assigns its id and the token needed to change it
+export async function POST(request: NextRequest) {
+  try {
+    const { input, error, status } = await readAnalysisInput(request)
+    if (!input) {
+      return NextResponse.json(
+        {
+          success: false,
+          error,
+        },
+        { status }
+      )
+    }
+
+    const analysis = createAnalysisRecord(input)
+    const store = getServerAnalysisStore()
+    // The token exists before the record is listed, so every listed record can be managed
+    const editToken = await store.createEditToken(analysis.id)
+    await store.save(analysis)
+
+    return NextResponse.json(
+      {
+        success: true,
+        analysis,
+        editToken,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createUpstreamSignal, getTimeoutMessage, type UpstreamSignal } from '@/lib/upstreamTimeout'
+import { getAgentProvider, type RagFileType } from '@/lib/agentProvider'
 
-const LYZR_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
-
-const FILE_TYPE_MAP: Record<string, 'pdf' | 'docx' | 'txt'> = {
+const FILE_TYPE_MAP: Record<string, RagFileType> = {
   'application/pdf': 'pdf',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
   'text/plain': 'txt',
@@ -11,6 +10,8 @@ const FILE_TYPE_MAP: Record<string, 'pdf' | 'docx' | 'txt'> = {
 
 // GET - List documents in a knowledge base
 export async function GET(request: NextRequest) {
+  let upstream: UpstreamSignal | null = null
+  let attempts = 0
   try {
     const { searchParams } = new URL(request.url)
     const ragId = searchParams.get('ragId')
@@ -25,22 +26,22 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    if (!LYZR_API_KEY) {
+    const provider = getAgentProvider()
+    const configError = provider.getConfigError()
+    if (configError) {
       return NextResponse.json(
         {
           success: false,
-          error: 'LYZR_API_KEY not configured on server',
+          error: configError,
         },
         { status: 500 }
       )
     }
 
-    const response = await fetch(`${LYZR_RAG_BASE_URL}/rag/documents/${encodeURIComponent(ragId)}/`, {
-      method: 'GET',
-      headers: {
-        'accept': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
+    upstream = createUpstreamSignal('rag', request.signal)
+    const response = await provider.listDocuments(ragId, {
+      signal: upstream.signal,
+      onAttempt: (attempt) => (attempts = attempt),
     })
 
     if (response.ok) {
@@ -64,6 +65,7 @@ export async function GET(request: NextRequest) {
         success: true,
         documents,
         ragId,
+        attempts,
         timestamp: new Date().toISOString(),
       })
     } else {
@@ -73,29 +75,38 @@ export async function GET(request: NextRequest) {
           success: false,
           error: `Failed to get documents: ${response.status}`,
           details: errorText,
+          attempts,
         },
         { status: response.status }
       )
     }
   } catch (error) {
+    const timedOut = upstream?.timedOut() || false
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Server error',
+        error: timedOut ? getTimeoutMessage('rag') : error instanceof Error ? error.message : 'Server error',
+        attempts,
       },
-      { status: 500 }
+      { status: timedOut ? 504 : 500 }
     )
+  } finally {
+    upstream?.clear()
   }
 }
 
 // POST - Upload and train a document
 export async function POST(request: NextRequest) {
+  let upstream: UpstreamSignal | null = null
+  let attempts = 0
   try {
-    if (!LYZR_API_KEY) {
+    const provider = getAgentProvider()
+    const configError = provider.getConfigError()
+    if (configError) {
       return NextResponse.json(
         {
           success: false,
-          error: 'LYZR_API_KEY not configured on server',
+          error: configError,
         },
         { status: 500 }
       )
@@ -126,25 +137,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Direct upload and train in one step
-    const trainFormData = new FormData()
-    trainFormData.append('file', file, file.name)
-    trainFormData.append('data_parser', 'llmsherpa')
-    trainFormData.append('chunk_size', '1000')
-    trainFormData.append('chunk_overlap', '100')
-    trainFormData.append('extra_info', '{}')
-
-    const trainResponse = await fetch(
-      `${LYZR_RAG_BASE_URL}/train/${fileType}/?rag_id=${encodeURIComponent(ragId)}`,
-      {
-        method: 'POST',
-        headers: {
-          'x-api-key': LYZR_API_KEY,
-          'accept': 'application/json',
-        },
-        body: trainFormData,
-      }
-    )
+    upstream = createUpstreamSignal('rag', request.signal)
+    const trainResponse = await provider.trainDocument(ragId, file, fileType, {
+      signal: upstream.signal,
+      onAttempt: (attempt) => (attempts = attempt),
+    })
 
     if (!trainResponse.ok) {
       const errorText = await trainResponse.text()
@@ -153,6 +150,7 @@ export async function POST(request: NextRequest) {
           success: false,
           error: `Failed to train document: ${trainResponse.status}`,
           details: errorText,
+          attempts,
         },
         { status: trainResponse.status }
       )
@@ -167,27 +165,36 @@ export async function POST(request: NextRequest) {
       fileType,
       documentCount: trainData.document_count || trainData.chunks || 1,
       ragId,
+      attempts,
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
+    const timedOut = upstream?.timedOut() || false
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Server error',
+        error: timedOut ? getTimeoutMessage('rag') : error instanceof Error ? error.message : 'Server error',
+        attempts,
       },
-      { status: 500 }
+      { status: timedOut ? 504 : 500 }
     )
+  } finally {
+    upstream?.clear()
   }
 }
 
 // DELETE - Remove documents from knowledge base
 export async function DELETE(request: NextRequest) {
+  let upstream: UpstreamSignal | null = null
+  let attempts = 0
   try {
-    if (!LYZR_API_KEY) {
+    const provider = getAgentProvider()
+    const configError = provider.getConfigError()
+    if (configError) {
       return NextResponse.json(
         {
           success: false,
-          error: 'LYZR_API_KEY not configured on server',
+          error: configError,
         },
         { status: 500 }
       )
@@ -206,14 +213,10 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    const response = await fetch(`${LYZR_RAG_BASE_URL}/rag/${encodeURIComponent(ragId)}/docs/`, {
-      method: 'DELETE',
-      headers: {
-        'accept': 'application/json',
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify(documentNames),
+    upstream = createUpstreamSignal('rag', request.signal)
+    const response = await provider.deleteDocuments(ragId, documentNames, {
+      signal: upstream.signal,
+      onAttempt: (attempt) => (attempts = attempt),
     })
 
     if (response.ok) {
@@ -222,6 +225,7 @@ export async function DELETE(request: NextRequest) {
         message: 'Documents deleted successfully',
         deletedCount: documentNames.length,
         ragId,
+        attempts,
         timestamp: new Date().toISOString(),
       })
     } else {
@@ -231,17 +235,22 @@ export async function DELETE(request: NextRequest) {
           success: false,
           error: `Failed to delete documents: ${response.status}`,
           details: errorText,
+          attempts,
         },
         { status: response.status }
       )
     }
   } catch (error) {
+    const timedOut = upstream?.timedOut() || false
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Server error',
+        error: timedOut ? getTimeoutMessage('rag') : error instanceof Error ? error.message : 'Server error',
+        attempts,
       },
-      { status: 500 }
+      { status: timedOut ? 504 : 500 }
     )
+  } finally {
+    upstream?.clear()
   }
 }
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+import { createUpstreamSignal, getTimeoutMessage, type UpstreamSignal } from '@/lib/upstreamTimeout'
+import { getAgentProvider } from '@/lib/agentProvider'
 
 export async function POST(request: NextRequest) {
+  let upstream: UpstreamSignal | null = null
+  let attempts = 0
   try {
-    if (!LYZR_API_KEY) {
+    const provider = getAgentProvider()
+    const configError = provider.getConfigError()
+    if (configError) {
       return NextResponse.json(
         {
           success: false,
@@ -14,9 +17,9 @@ export async function POST(request: NextRequest) {
           total_files: 0,
           successful_uploads: 0,
           failed_uploads: 0,
-          message: 'LYZR_API_KEY not configured',
+          message: 'Upload provider not configured',
           timestamp: new Date().toISOString(),
-          error: 'LYZR_API_KEY not configured on server',
+          error: configError,
         },
         { status: 500 }
       )
@@ -42,20 +45,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Forward the request to Lyzr API
-    const uploadFormData = new FormData()
-    for (const file of files) {
-      if (file instanceof File) {
-        uploadFormData.append('files', file, file.name)
-      }
-    }
+    // Forward the files to the provider
+    const uploadFiles = files.filter((file): file is File => file instanceof File)
 
-    const response = await fetch(LYZR_UPLOAD_URL, {
-      method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: uploadFormData,
+    upstream = createUpstreamSignal('upload', request.signal)
+    const response = await provider.upload(uploadFiles, {
+      signal: upstream.signal,
+      onAttempt: (attempt) => (attempts = attempt),
     })
 
     if (response.ok) {
@@ -80,6 +76,7 @@ export async function POST(request: NextRequest) {
         successful_uploads: data.successful_uploads || assetIds.length,
         failed_uploads: data.failed_uploads || 0,
         message: `Successfully uploaded ${assetIds.length} file(s)`,
+        attempts,
         timestamp: new Date().toISOString(),
       })
     } else {
@@ -95,6 +92,7 @@ export async function POST(request: NextRequest) {
           successful_uploads: 0,
           failed_uploads: files.length,
           message: `Upload failed with status ${response.status}`,
+          attempts,
           timestamp: new Date().toISOString(),
           error: errorText,
         },
@@ -103,6 +101,7 @@ export async function POST(request: NextRequest) {
     }
   } catch (error) {
     console.error('File upload error:', error)
+    const timedOut = upstream?.timedOut() || false
 
     return NextResponse.json(
       {
@@ -112,11 +111,14 @@ export async function POST(request: NextRequest) {
         total_files: 0,
         successful_uploads: 0,
         failed_uploads: 0,
-        message: 'Server error during upload',
+        message: timedOut ? 'Upload timed out' : 'Server error during upload',
+        attempts,
         timestamp: new Date().toISOString(),
-        error: error instanceof Error ? error.message : String(error),
+        error: timedOut ? getTimeoutMessage('upload') : error instanceof Error ? error.message : String(error),
       },
-      { status: 500 }
+      { status: timedOut ? 504 : 500 }
     )
+  } finally {
+    upstream?.clear()
   }
 }
@@ -1,130 +1,454 @@
 'use client'
 
-import { useState, useRef } from 'react'
+import { useState, useRef, useMemo, useEffect, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
-import { Loader2, Upload, Send, FileText } from 'lucide-react'
-import { callAIAgent } from '@/lib/aiAgent'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Loader2, Upload, Send, FileText, AlertTriangle, Tag, X, Calculator, History, Share2 } from 'lucide-react'
+import { callAIAgentStream } from '@/lib/aiAgent'
+import { readCSVRecords, toTable, type CSVParseError, type TabularData } from '@/lib/csvParser'
+import {
+  EMPTY_MAPPING,
+  applyColumnMapping,
+  guessColumnMapping,
+  isMappingComplete,
+  type AmountSign,
+  type ColumnMapping,
+} from '@/lib/columnMapping'
+import { detectBankPreset, mappingFromPreset, type BankPreset } from '@/lib/bankPresets'
+import { detectDateOrder, type DateOrder } from '@/lib/dateParsing'
+import {
+  normalizeTransactions,
+  type StatementImportResult,
+  type Transaction,
+} from '@/lib/transactions'
+import {
+  STATEMENT_FILE_ACCEPT,
+  STATEMENT_FORMAT_LABELS,
+  detectStatementFormat,
+  importStructuredStatement,
+  isBinaryStatementFile,
+  isSupportedStatementFile,
+  type StatementFormat,
+} from '@/lib/statementImport'
+import type { WorkbookSheet } from '@/lib/xlsxImporter'
+import { WorkbookOptions } from '@/components/WorkbookOptions'
+import { StatementPreview } from '@/components/StatementPreview'
+import { ImportReview } from '@/components/ImportReview'
+import { applyRowEdits, validateTransactions, type RowEdit } from '@/lib/importValidation'
+import { ColumnMappingPanel } from '@/components/ColumnMappingPanel'
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts'
+import {
+  BUDGET_TYPE_LABELS,
+  CUSTOM_TAXONOMY_ID,
+  findCategory,
+  getBuiltInTaxonomies,
+  getCategoryLabel,
+  getCategoryColor as getTaxonomyColor,
+  getTaxonomy,
+  loadTaxonomySettings,
+  saveTaxonomySettings,
+  type Taxonomy,
+  type TaxonomySettings,
+} from '@/lib/taxonomy'
+import {
+  getCategoryRules,
+  loadUserRules,
+  saveUserRules,
+  upsertMerchantRule,
+  type CategoryRule,
+} from '@/lib/categoryRules'
+import { CategoryRuleDialog } from '@/components/CategoryRuleDialog'
+import { CategoryIcon } from '@/components/CategoryIcon'
+import { TaxonomyEditor } from '@/components/TaxonomyEditor'
+import type { DashboardData } from '@/lib/dashboardTypes'
+import { isSectionAvailable, type AgentValidationReport } from '@/lib/agentSchemas'
+import { parseManagerResponse, previewManagerText } from '@/lib/dashboardAdapter'
+import { AgentValidationNotice } from '@/components/AgentValidationNotice'
+import {
+  reconcileAnalysis,
+  runManagerAnalysis,
+  runPipeline,
+  type PipelineResult,
+  type PipelineStage,
+} from '@/lib/orchestrator'
+import { ANALYSIS_STEP_LABELS, getFailedStep, type AnalysisStep } from '@/lib/analysisProgress'
+import { AnalysisProgress } from '@/components/AnalysisProgress'
+import { PipelineRunPanel } from '@/components/PipelineRunPanel'
+import { getAgentId } from '@/lib/workflow'
+import { buildChatMessage, createChatSessionId, type ChatMessage } from '@/lib/chatTranscript'
+import { buildChatContext } from '@/lib/chatContext'
+import { ChatContextSlices } from '@/components/ChatContextSlices'
+import { answerLocally } from '@/lib/chatQuery'
+import { CHAT_PAYLOAD_INSTRUCTIONS, parseChatPayload, payloadFromLocalAnswer } from '@/lib/chatPayload'
+import { ChatPayloadView } from '@/components/ChatPayloadView'
+import { CHAT_CITATION_INSTRUCTIONS } from '@/lib/chatMarkdown'
+import { ChatMarkdown } from '@/components/ChatMarkdown'
+import {
+  createAnalysisRecord,
+  getAnalysisStore,
+  parseAnalysisRecord,
+  type AnalysisAgentInfo,
+  type AnalysisRecord,
+  type AnalysisSummary,
+} from '@/lib/analysisStore'
+import { AnalysisHistory } from '@/components/AnalysisHistory'
+import {
+  ANALYSIS_QUERY_PARAM,
+  canEditSharedAnalysis,
+  deleteSharedAnalysis,
+  getAnalysisLink,
+  getSharedAnalysis,
+  listSharedAnalyses,
+  shareAnalysis,
+  updateSharedAnalysis,
+} from '@/lib/analysisApi'
+import { copyToClipboard } from '@/lib/clipboard'
 
-// TypeScript interfaces from test responses - UPGRADED
-interface CategorySummary {
-  total_amount: number
-  percentage: number
-  transaction_count: number
-}
-
-interface Transaction {
-  date: string
-  merchant: string
-  amount: number
-  category: string
-  subcategory: string
-}
-
-interface MerchantBreakdown {
-  merchant: string
-  category: string
-  total_amount: number
-  transaction_count: number
-  percentage_of_category: number
-  insights: string
-}
+const FINOS_MANAGER_AGENT_ID = getAgentId('orchestrator')
 
-interface CutBackOpportunity {
-  area: string
-  current_spend: number
-  recommended_spend: number
-  potential_savings: number
-  actionable_advice: string
-}
-
-interface HabitAudit {
-  impulsive_purchases: {
-    count: number
-    total_amount: number
-    description: string
-  }
-  high_cost_dining: {
-    count: number
-    total_amount: number
-    description: string
-  }
-  subscription_analysis: {
-    total_subscriptions: number
-    monthly_cost: number
-    redundant_subscriptions: string[]
+// Saving is best effort: failures are logged and the page keeps working
+async function loadAnalysisHistory(): Promise<AnalysisSummary[] | null> {
+  try {
+    return await getAnalysisStore().list()
+  } catch (error) {
+    console.error('Failed to load saved analyses:', error)
+    return null
   }
-  cut_back_opportunities: CutBackOpportunity[]
 }
 
-interface DashboardData {
-  financial_alignment_score: number
-  total_transactions: number
-  total_amount: number
-  category_summary: {
-    dining: CategorySummary
-    shopping: CategorySummary
-    bill_payments: CategorySummary
-    travel: CategorySummary
-    investments: CategorySummary
-    others: CategorySummary
+async function saveAnalysis(record: AnalysisRecord): Promise<AnalysisSummary[] | null> {
+  try {
+    await getAnalysisStore().save(record)
+  } catch (error) {
+    console.error('Failed to save analysis:', error)
+    return null
   }
-  merchant_breakdown: MerchantBreakdown[]
-  habit_audit: HabitAudit
-  transactions: Transaction[]
-  insights: string[]
-  recommendations: string[]
+  return loadAnalysisHistory()
 }
 
-interface ManagerAgentResponse {
-  workflow_status: string
-  dashboard_data: DashboardData
-  query_response?: string
-  insights: string[]
-}
-
-interface ChatMessage {
-  role: 'user' | 'assistant'
-  content: string
+// A shared analysis is copied into this browser, so its chat can carry on here
+async function copySharedAnalysis(id: string): Promise<{ record: AnalysisRecord | null; error: string | null }> {
+  const result = await getSharedAnalysis(id)
+  if (!result.success || !result.analysis) {
+    return { record: null, error: result.error || 'The shared analysis could not be loaded' }
+  }
+  // The server's copy is checked again, as the page renders whatever it holds
+  const { record: shared, error } = parseAnalysisRecord(result.analysis)
+  if (!shared) return { record: null, error: `The shared analysis is invalid (${error})` }
+  // Chat carried on here is a new conversation with the agent, not the sharer's
+  const record = { ...shared, chatSessionId: createChatSessionId(FINOS_MANAGER_AGENT_ID) }
+  await saveAnalysis(record)
+  return { record, error: null }
 }
 
-// Agent IDs
-const FINOS_MANAGER_AGENT_ID = '6985a70a301c62c7ca2c7e05'
-
 export default function Home() {
   const [file, setFile] = useState<File | null>(null)
-  const [csvData, setCsvData] = useState<string>('')
-  const [rowCount, setRowCount] = useState<number>(0)
+  const [statementTable, setStatementTable] = useState<TabularData | null>(null)
+  const [sourceRecords, setSourceRecords] = useState<string[][]>([])
+  const [sourceErrors, setSourceErrors] = useState<CSVParseError[]>([])
+  const [headerRow, setHeaderRow] = useState(0)
+  const [workbookSheets, setWorkbookSheets] = useState<WorkbookSheet[] | null>(null)
+  const [selectedSheet, setSelectedSheet] = useState('')
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(EMPTY_MAPPING)
+  const [dateOrder, setDateOrder] = useState<DateOrder>('DMY')
+  const [amountSign, setAmountSign] = useState<AmountSign>('negative_debit')
+  const [bankPreset, setBankPreset] = useState<BankPreset | null>(null)
+  const [showMapping, setShowMapping] = useState(false)
+  const [statementFormat, setStatementFormat] = useState<StatementFormat | null>(null)
+  const [structuredImport, setStructuredImport] = useState<StatementImportResult | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [rowEdits, setRowEdits] = useState<Record<number, RowEdit>>({})
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set())
+  const [reviewOpen, setReviewOpen] = useState(false)
+  const [analyzedSummary, setAnalyzedSummary] = useState<{ analyzed: number; total: number } | null>(null)
   const [analyzing, setAnalyzing] = useState(false)
-  const [analysisStage, setAnalysisStage] = useState('')
-  const [dashboardData, setDashboardData] = useState<DashboardData | null>(null)
+  const [analysisSteps, setAnalysisSteps] = useState<AnalysisStep[] | null>(null)
+  const [agentDashboard, setAgentDashboard] = useState<DashboardData | null>(null)
+  const [showDiscrepancies, setShowDiscrepancies] = useState(false)
+  const [agentValidation, setAgentValidation] = useState<AgentValidationReport | null>(null)
+  const [analysisError, setAnalysisError] = useState<string | null>(null)
+  const [runStepByStep, setRunStepByStep] = useState(false)
+  const [pipelineStages, setPipelineStages] = useState<PipelineStage[] | null>(null)
+  const [userRules, setUserRules] = useState<CategoryRule[]>([])
+  const [ruleTransaction, setRuleTransaction] = useState<Transaction | null>(null)
+  const [taxonomySettings, setTaxonomySettings] = useState<TaxonomySettings>({
+    selectedId: getBuiltInTaxonomies()[0].id,
+    custom: null,
+  })
+  const [taxonomyEditorOpen, setTaxonomyEditorOpen] = useState(false)
   const [insights, setInsights] = useState<string[]>([])
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const [chatInput, setChatInput] = useState('')
   const [chatLoading, setChatLoading] = useState(false)
+  // One agent session per analysis, so follow-up questions share its history
+  const [chatSessionId, setChatSessionId] = useState(() => createChatSessionId(FINOS_MANAGER_AGENT_ID))
+  // 1-based history row a chat citation points at, highlighted briefly
+  const [highlightedRow, setHighlightedRow] = useState<number | null>(null)
+  // The saved run on screen; its transcript is saved as the chat changes
+  const [currentAnalysis, setCurrentAnalysis] = useState<AnalysisRecord | null>(null)
+  const [analysisHistory, setAnalysisHistory] = useState<AnalysisSummary[]>([])
+  const [historyOpen, setHistoryOpen] = useState(false)
+  // Loaded each time the history opens; null while loading
+  const [sharedHistory, setSharedHistory] = useState<AnalysisSummary[] | null>(null)
+  const [sharedHistoryError, setSharedHistoryError] = useState<string | null>(null)
+  const [shareStatus, setShareStatus] = useState<{ sharing: boolean; message: string } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const analysisControllerRef = useRef<AbortController | null>(null)
+  const chatControllerRef = useRef<AbortController | null>(null)
+
+  // Normalized rows for the current mapping; rows without a readable date or amount are held back
+  const normalizedTransactions = useMemo(() => {
+    if (structuredImport) return structuredImport.transactions
+    if (!statementTable || !isMappingComplete(columnMapping)) return []
+    return normalizeTransactions(applyColumnMapping(statementTable.rows, columnMapping, { amountSign }), { dateOrder })
+  }, [structuredImport, statementTable, columnMapping, dateOrder, amountSign])
+  // Apply the user's fixes and exclusions; only rows without errors are analyzed
+  const validationReport = useMemo(
+    () =>
+      validateTransactions(applyRowEdits(normalizedTransactions, rowEdits, dateOrder), {
+        excluded: excludedRows,
+        edits: rowEdits,
+      }),
+    [normalizedTransactions, rowEdits, excludedRows, dateOrder]
+  )
+  const validTransactions = validationReport.analyzable
+  const mappingComplete = structuredImport !== null || isMappingComplete(columnMapping)
+  const importErrorCount = structuredImport ? structuredImport.errors.length : statementTable?.errors.length || 0
+
+  // Rules and the category taxonomy live in localStorage, so load them after mount
+  useEffect(() => {
+    setUserRules(loadUserRules())
+    setTaxonomySettings(loadTaxonomySettings())
+  }, [])
+
+  // Put a saved run back on screen with its dashboard and conversation
+  const showSavedAnalysis = useCallback((record: AnalysisRecord) => {
+    chatControllerRef.current?.abort()
+    setAgentDashboard(record.dashboard)
+    setAgentValidation(record.report)
+    setShowDiscrepancies(false)
+    setInsights(record.insights)
+    setAnalyzedSummary(record.rows)
+    setAnalysisError(null)
+    setAnalysisSteps(null)
+    setPipelineStages(null)
+    setChatMessages(record.chat)
+    setChatSessionId(record.chatSessionId)
+    setCurrentAnalysis(record)
+    setShareStatus(null)
+    setHistoryOpen(false)
+  }, [])
+
+  // Past runs are kept in IndexedDB, so list them after mount
+  useEffect(() => {
+    loadAnalysisHistory().then((history) => history && setAnalysisHistory(history))
+  }, [])
+
+  // Open the run a shared link points at; this browser's copy wins, as it has the latest chat
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get(ANALYSIS_QUERY_PARAM)
+    if (!id) return
+    const openLinkedAnalysis = async () => {
+      const local = await getAnalysisStore()
+        .get(id)
+        .catch(() => null)
+      const { record, error } = local ? { record: local, error: null } : await copySharedAnalysis(id)
+      if (!record) {
+        setAnalysisError(`Could not open the shared analysis: ${error}`)
+        return
+      }
+      showSavedAnalysis(record)
+      loadAnalysisHistory().then((history) => history && setAnalysisHistory(history))
+    }
+    openLinkedAnalysis()
+  }, [showSavedAnalysis])
+
+  // The team's shared runs are fetched each time the history opens
+  useEffect(() => {
+    if (!historyOpen) return
+    setSharedHistory(null)
+    setSharedHistoryError(null)
+    listSharedAnalyses().then((result) => {
+      if (result.success) setSharedHistory(result.analyses || [])
+      else setSharedHistoryError(result.error || 'Shared analyses could not be loaded')
+    })
+  }, [historyOpen])
+
+  // Save the transcript once no answer is still streaming
+  useEffect(() => {
+    if (!currentAnalysis || chatMessages === currentAnalysis.chat) return
+    if (chatMessages.some((msg) => msg.streaming)) return
+    const record = { ...currentAnalysis, chat: chatMessages, updatedAt: new Date().toISOString() }
+    setCurrentAnalysis(record)
+    saveAnalysis(record).then((history) => history && setAnalysisHistory(history))
+  }, [chatMessages, currentAnalysis])
+
+  useEffect(() => {
+    if (highlightedRow === null) return
+    const timer = setTimeout(() => setHighlightedRow(null), 2500)
+    return () => clearTimeout(timer)
+  }, [highlightedRow])
+
+  const taxonomy = useMemo(
+    () => getTaxonomy(taxonomySettings.selectedId, taxonomySettings.custom),
+    [taxonomySettings]
+  )
+  const categoryOptions = useMemo(() => taxonomy.categories.map((category) => category.label), [taxonomy])
+
+  // Merchant rules override the agent's categories; totals are then recomputed locally
+  const categoryRules = useMemo(() => getCategoryRules(userRules), [userRules])
+  const reconciled = useMemo(
+    () =>
+      agentDashboard
+        ? reconcileAnalysis(agentDashboard, { rules: categoryRules, taxonomy, report: agentValidation })
+        : null,
+    [agentDashboard, categoryRules, taxonomy, agentValidation]
+  )
+  const dashboardData = reconciled?.data || null
+  const discrepancies = reconciled?.discrepancies || []
+  const figuresVerified = reconciled?.verified || false
+  const scoreAvailable = isSectionAvailable(agentValidation, 'dashboard_data.financial_alignment_score')
+  const habitAuditAvailable = isSectionAvailable(agentValidation, 'dashboard_data.habit_audit')
+
+  // Detect the bank layout, or fall back to guessing the mapping from the header row
+  const loadRecords = (records: string[][], parseErrors: CSVParseError[], headerRowOverride?: number) => {
+    const preset =
+      headerRowOverride === undefined
+        ? detectBankPreset(records)
+        : detectBankPreset(records.slice(headerRowOverride), 1)
+    const row = headerRowOverride ?? preset?.headerRow ?? 0
+    const table = toTable(records, { headerRow: row })
+
+    setSourceRecords(records)
+    setSourceErrors(parseErrors)
+    setHeaderRow(row)
+    setStatementTable({ ...table, errors: [...parseErrors, ...table.errors] })
+    setBankPreset(preset?.preset || null)
+
+    if (preset) {
+      setColumnMapping(mappingFromPreset(preset.preset, table.headers))
+      setDateOrder(preset.preset.dateOrder)
+      setAmountSign(preset.preset.amountSign || 'negative_debit')
+      setShowMapping(false)
+    } else {
+      const mapping = guessColumnMapping(table.headers)
+      setColumnMapping(mapping)
+      setDateOrder(mapping.date === null ? 'DMY' : detectDateOrder(table.rows.map((r) => r[mapping.date!])))
+      setAmountSign('negative_debit')
+      setShowMapping(true)
+    }
+
+    setFileError(table.headers.length === 0 ? 'The file is empty' : null)
+  }
 
-  // Parse CSV file
-  const parseCSV = (text: string): number => {
-    const lines = text.trim().split('\n')
-    return lines.length - 1 // Subtract header row
+  const resetStatement = () => {
+    setRowEdits({})
+    setExcludedRows(new Set())
+    setStatementTable(null)
+    setSourceRecords([])
+    setStructuredImport(null)
+    setWorkbookSheets(null)
+    setSelectedSheet('')
+    setBankPreset(null)
+    setShowMapping(false)
+  }
+
+  // Pick a different sheet of the uploaded workbook
+  const handleSheetChange = (name: string) => {
+    const sheet = workbookSheets?.find((s) => s.name === name)
+    if (!sheet) return
+    setSelectedSheet(name)
+    loadRecords(sheet.records, [])
+  }
+
+  // Re-read the statement with a different row as header
+  const handleHeaderRowChange = (row: number) => {
+    loadRecords(sourceRecords, sourceErrors, row)
+  }
+
+  // Read a statement file and route it to the mapping step or a structured importer
+  const loadFile = (selectedFile: File) => {
+    if (!isSupportedStatementFile(selectedFile)) {
+      setFileError(`${selectedFile.name} is not a supported statement file`)
+      return
+    }
+
+    setFile(selectedFile)
+    setFileError(null)
+    resetStatement()
+    const reader = new FileReader()
+
+    if (isBinaryStatementFile(selectedFile.name)) {
+      setStatementFormat('xlsx')
+      reader.onload = async (event) => {
+        const data = event.target?.result as ArrayBuffer
+        try {
+          // The workbook parser is large, so it is only loaded once an Excel file is picked
+          const { readWorkbook } = await import('@/lib/xlsxImporter')
+          const sheets = readWorkbook(data)
+          const firstSheet = sheets.find((sheet) => sheet.records.length > 0) || sheets[0]
+          setWorkbookSheets(sheets)
+          if (!firstSheet) {
+            setFileError('The workbook has no sheets')
+            return
+          }
+          setSelectedSheet(firstSheet.name)
+          loadRecords(firstSheet.records, [])
+        } catch (error) {
+          console.error('Workbook read error:', error)
+          setFileError(`Could not read ${selectedFile.name} as an Excel workbook`)
+        }
+      }
+      reader.readAsArrayBuffer(selectedFile)
+      return
+    }
+
+    reader.onload = (event) => {
+      const text = event.target?.result as string
+      const format = detectStatementFormat(selectedFile.name, text)
+      setStatementFormat(format)
+
+      if (format === 'ofx' || format === 'mt940') {
+        const imported = importStructuredStatement(format, text)
+        setStructuredImport(imported)
+        if (imported.transactions.length === 0) {
+          setFileError(imported.errors[0] || 'No transactions found')
+        }
+      } else if (format === 'csv') {
+        const { records, errors } = readCSVRecords(text)
+        loadRecords(records, errors)
+      } else {
+        setFileError(`Could not recognise the format of ${selectedFile.name}`)
+      }
+    }
+    reader.readAsText(selectedFile)
+  }
+
+  // Record a fix typed into the review grid
+  const handleRowEdit = (sourceRow: number, field: keyof RowEdit, value: string) => {
+    setRowEdits((prev) => ({ ...prev, [sourceRow]: { ...prev[sourceRow], [field]: value } }))
+  }
+
+  const handleToggleExcluded = (sourceRow: number) => {
+    setExcludedRows((prev) => {
+      const next = new Set(prev)
+      if (next.has(sourceRow)) {
+        next.delete(sourceRow)
+      } else {
+        next.add(sourceRow)
+      }
+      return next
+    })
   }
 
   // Handle file upload
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
-    if (selectedFile && selectedFile.type === 'text/csv') {
-      setFile(selectedFile)
-      const reader = new FileReader()
-      reader.onload = (event) => {
-        const text = event.target?.result as string
-        setCsvData(text)
-        const rows = parseCSV(text)
-        setRowCount(rows)
-      }
-      reader.readAsText(selectedFile)
+    if (selectedFile) {
+      loadFile(selectedFile)
     }
   }
 
@@ -132,16 +456,8 @@ export default function Home() {
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
     const droppedFile = e.dataTransfer.files[0]
-    if (droppedFile && droppedFile.type === 'text/csv') {
-      setFile(droppedFile)
-      const reader = new FileReader()
-      reader.onload = (event) => {
-        const text = event.target?.result as string
-        setCsvData(text)
-        const rows = parseCSV(text)
-        setRowCount(rows)
-      }
-      reader.readAsText(droppedFile)
+    if (droppedFile) {
+      loadFile(droppedFile)
     }
   }
 
@@ -149,39 +465,214 @@ export default function Home() {
     e.preventDefault()
   }
 
-  // Analyze transactions
-  const analyzeTransactions = async () => {
-    if (!csvData) return
+  const refreshHistory = async () => {
+    const history = await loadAnalysisHistory()
+    if (history) setAnalysisHistory(history)
+  }
 
-    setAnalyzing(true)
-    setAnalysisStage('Cleaning data...')
+  const persistAnalysis = async (record: AnalysisRecord) => {
+    setCurrentAnalysis(record)
+    const history = await saveAnalysis(record)
+    if (history) setAnalysisHistory(history)
+  }
 
+  // Show a validated report; totals on the dashboard are recomputed locally, never taken from the agent
+  const showReport = (
+    dashboard: DashboardData,
+    report: AgentValidationReport,
+    reportInsights: string[],
+    agent: AnalysisAgentInfo
+  ) => {
+    const rows = { analyzed: validTransactions.length, total: validationReport.totalRows }
+    // A new analysis starts a new conversation
+    const sessionId = createChatSessionId(FINOS_MANAGER_AGENT_ID)
+    // Shared with the record, so the transcript effect sees nothing new to save
+    const chat: ChatMessage[] = []
+    setAgentDashboard(dashboard)
+    setAgentValidation(report)
+    setShowDiscrepancies(false)
+    setInsights(reportInsights)
+    setAnalyzedSummary(rows)
+    setChatMessages(chat)
+    setChatSessionId(sessionId)
+    setShareStatus(null)
+    persistAnalysis(
+      createAnalysisRecord({
+        file: file
+          ? {
+              name: file.name,
+              size: file.size,
+              format: statementFormat,
+              sheet: statementFormat === 'xlsx' ? selectedSheet : undefined,
+            }
+          : null,
+        rows,
+        transactions: validTransactions,
+        agent,
+        dashboard,
+        report,
+        insights: reportInsights,
+        chat,
+        chatSessionId: sessionId,
+      })
+    )
+  }
+
+  // Reopen a saved run with its dashboard and conversation
+  const openAnalysis = async (id: string) => {
+    let record: AnalysisRecord | null = null
     try {
-      // Send CSV data to Manager Agent
-      const message = `Analyze these transaction data:\n\n${csvData}`
+      record = await getAnalysisStore().get(id)
+    } catch (error) {
+      console.error('Failed to open analysis:', error)
+    }
+    if (record) {
+      showSavedAnalysis(record)
+    } else {
+      refreshHistory()
+    }
+  }
 
-      // Simulate analysis stages
-      setTimeout(() => setAnalysisStage('Categorizing transactions...'), 1000)
-      setTimeout(() => setAnalysisStage('Calculating financial score...'), 2000)
+  const openSharedAnalysis = async (id: string) => {
+    const { record, error } = await copySharedAnalysis(id)
+    if (!record) {
+      setSharedHistoryError(error)
+      return
+    }
+    showSavedAnalysis(record)
+    refreshHistory()
+  }
 
-      const result = await callAIAgent(message, FINOS_MANAGER_AGENT_ID)
+  // Deleting a run this browser shared removes it for the whole team
+  const removeSharedAnalysis = async (id: string) => {
+    const name = sharedHistory?.find((analysis) => analysis.id === id)?.file?.name || 'an untitled statement'
+    if (!confirm(`Delete the shared analysis of ${name} for everyone on the team?`)) return
+    const result = await deleteSharedAnalysis(id)
+    if (!result.success) {
+      setSharedHistoryError(result.error || 'The shared analysis could not be deleted')
+      return
+    }
+    setSharedHistory((prev) => prev?.filter((analysis) => analysis.id !== id) || null)
+  }
 
-      if (result.success && result.response.status === 'success') {
-        const managerResponse = result.response.result as ManagerAgentResponse
+  // Share the run on screen with the team and copy its link
+  const handleShareAnalysis = async () => {
+    if (!currentAnalysis) return
+    setShareStatus({ sharing: true, message: 'Sharing…' })
+    const { sharedId } = currentAnalysis
+    // Sharing again updates the team's copy, unless it has since been deleted or its token is gone
+    let result = sharedId && canEditSharedAnalysis(sharedId) ? await updateSharedAnalysis(sharedId, currentAnalysis) : null
+    if (!result || result.status === 404) result = await shareAnalysis(currentAnalysis)
+    if (!result.success || !result.analysis) {
+      setShareStatus({ sharing: false, message: `Could not share: ${result.error || 'unknown error'}` })
+      return
+    }
+    if (result.analysis.id !== sharedId) persistAnalysis({ ...currentAnalysis, sharedId: result.analysis.id })
+    const link = getAnalysisLink(result.analysis.id)
+    const copied = await copyToClipboard(link)
+    setShareStatus({ sharing: false, message: copied ? 'Link copied' : link })
+  }
 
-        if (managerResponse.dashboard_data) {
-          setDashboardData(managerResponse.dashboard_data)
-          setInsights(managerResponse.insights || [])
-        }
+  const deleteAnalysis = async (id: string) => {
+    // The dashboard stays on screen, but further chat is no longer saved
+    if (currentAnalysis?.id === id) setCurrentAnalysis(null)
+    try {
+      await getAnalysisStore().remove(id)
+    } catch (error) {
+      console.error('Failed to delete analysis:', error)
+    }
+    refreshHistory()
+  }
+
+  // Analyze transactions, either through the manager or step by step through its sub-agents
+  const analyzeTransactions = async () => {
+    if (validTransactions.length === 0) return
+
+    const controller = new AbortController()
+    analysisControllerRef.current = controller
+    setAnalyzing(true)
+    setAnalysisError(null)
+    setAnalysisSteps(null)
+    setPipelineStages(null)
+
+    try {
+      const options = {
+        taxonomy,
+        rules: categoryRules,
+        signal: controller.signal,
+        onProgress: setAnalysisSteps,
+      }
+      const result = runStepByStep
+        ? await runPipeline(validTransactions, { ...options, onStageChange: setPipelineStages })
+        : await runManagerAnalysis(validTransactions, options)
+
+      if (result.dashboard && result.report) {
+        showReport(result.dashboard, result.report, result.insights, {
+          mode: runStepByStep ? 'pipeline' : 'manager',
+          agentIds: runStepByStep
+            ? (result as PipelineResult).stages.map((stage) => stage.agentId)
+            : [FINOS_MANAGER_AGENT_ID],
+          steps: result.steps,
+        })
+      } else if (!result.cancelled) {
+        const failed = getFailedStep(result.steps)
+        setAnalysisError(
+          failed ? `${ANALYSIS_STEP_LABELS[failed.id]} failed: ${failed.error}` : 'Analysis failed. Please try again.'
+        )
       }
     } catch (error) {
       console.error('Analysis error:', error)
+      setAnalysisError('Analysis failed. Please try again.')
     } finally {
+      analysisControllerRef.current = null
       setAnalyzing(false)
-      setAnalysisStage('')
     }
   }
 
+  const cancelAnalysis = () => analysisControllerRef.current?.abort()
+
+  // Switch category scheme; picking "Custom" before one exists opens the editor
+  const updateTaxonomySettings = (next: TaxonomySettings) => {
+    setTaxonomySettings(next)
+    saveTaxonomySettings(next)
+  }
+
+  const handleTaxonomyChange = (id: string) => {
+    if (id === CUSTOM_TAXONOMY_ID && !taxonomySettings.custom) {
+      setTaxonomyEditorOpen(true)
+      return
+    }
+    updateTaxonomySettings({ ...taxonomySettings, selectedId: id })
+  }
+
+  const handleSaveCustomTaxonomy = (custom: Taxonomy) => {
+    updateTaxonomySettings({ selectedId: CUSTOM_TAXONOMY_ID, custom })
+  }
+
+  // Persist user rules; the dashboard re-applies them and recomputes every figure
+  const updateUserRules = (next: CategoryRule[]) => {
+    setUserRules(next)
+    saveUserRules(next)
+  }
+
+  const handleAddRule = (rule: CategoryRule) => updateUserRules([rule, ...userRules])
+
+  // An inline category change becomes a rule for that merchant
+  const handleCategoryOverride = (txn: Transaction, category: string, subcategory: string) => {
+    if (category === txn.category && subcategory === txn.subcategory) return
+    updateUserRules(upsertMerchantRule(userRules, txn.merchant, category, subcategory))
+  }
+
+  // The subcategory belonged to the old category, so a new category clears it
+  const handleCategoryChange = (txn: Transaction, category: string) =>
+    handleCategoryOverride(txn, category, category === txn.category ? txn.subcategory : '')
+
+  // A citation in a chat answer jumps to its row in the transaction history
+  const handleCitationClick = (row: number) => {
+    document.getElementById(`transaction-row-${row}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setHighlightedRow(row)
+  }
+
   // Handle chat
   const handleSendMessage = async () => {
     if (!chatInput.trim() || !dashboardData) return
@@ -189,34 +680,77 @@ export default function Home() {
     const userMessage: ChatMessage = { role: 'user', content: chatInput }
     setChatMessages((prev) => [...prev, userMessage])
     setChatInput('')
+
+    // Questions with an exact answer in the transactions never reach the agent
+    const localAnswer = answerLocally(chatInput, dashboardData.transactions, { taxonomy })
+    if (localAnswer) {
+      const payload = payloadFromLocalAnswer(localAnswer)
+      // A table or chart replaces the list of figures in the text
+      const listed = payload && payload.type !== 'kpi'
+      setChatMessages((prev) => [
+        ...prev,
+        { role: 'assistant', content: listed ? localAnswer.summary : localAnswer.text, computedLocally: true, payload },
+      ])
+      return
+    }
+
     setChatLoading(true)
+    const controller = new AbortController()
+    chatControllerRef.current = controller
 
     try {
-      // Include dashboard context in the query
-      const contextMessage = `Based on the analyzed transaction data, answer this query: ${chatInput}`
+      // Send the relevant figures and the recent turns along with the question
+      const context = buildChatContext(dashboardData, chatInput)
+      const contextMessage = buildChatMessage(chatInput, chatMessages, {
+        context: context.text,
+        instructions: [CHAT_PAYLOAD_INSTRUCTIONS, CHAT_CITATION_INSTRUCTIONS].join('\n'),
+      })
+      const contextSlices = context.slices
 
-      const result = await callAIAgent(contextMessage, FINOS_MANAGER_AGENT_ID)
+      // The answer is shown as it streams in, then replaced by the parsed reply
+      const showAnswer = (answer: ChatMessage) =>
+        setChatMessages((prev) =>
+          prev[prev.length - 1]?.streaming ? [...prev.slice(0, -1), answer] : [...prev, answer]
+        )
 
-      if (result.success && result.response.status === 'success') {
-        const managerResponse = result.response.result as ManagerAgentResponse
-        const responseText = managerResponse.query_response || 'Analysis complete.'
+      let preview = ''
+      const result = await callAIAgentStream(contextMessage, FINOS_MANAGER_AGENT_ID, {
+        session_id: chatSessionId,
+        signal: controller.signal,
+        onChunk: (_chunk, text) => {
+          preview = previewManagerText(text)
+          if (preview) showAnswer({ role: 'assistant', content: preview, streaming: true, contextSlices })
+        },
+      })
 
-        const assistantMessage: ChatMessage = { role: 'assistant', content: responseText }
-        setChatMessages((prev) => [...prev, assistantMessage])
+      // Keep whatever arrived before the user cancelled
+      if (controller.signal.aborted) {
+        showAnswer({ role: 'assistant', content: preview, cancelled: true, contextSlices })
+      } else if (result.success && result.response.status === 'success') {
+        const { data: managerResponse } = parseManagerResponse(result.response.result)
+        showAnswer({
+          role: 'assistant',
+          content: managerResponse.query_response || managerResponse.response || 'Analysis complete.',
+          contextSlices,
+          payload: parseChatPayload(managerResponse.visualization),
+        })
       } else {
-        const errorMessage: ChatMessage = {
+        showAnswer({
           role: 'assistant',
-          content: 'Sorry, I encountered an error processing your query.'
-        }
-        setChatMessages((prev) => [...prev, errorMessage])
+          content: 'Sorry, I encountered an error processing your query.',
+          failed: true,
+        })
       }
     } catch (error) {
       console.error('Chat error:', error)
     } finally {
+      chatControllerRef.current = null
       setChatLoading(false)
     }
   }
 
+  const cancelChat = () => chatControllerRef.current?.abort()
+
   // Get score color
   const getScoreColor = (score: number): string => {
     if (score >= 75) return '#00bfa5'
@@ -224,39 +758,56 @@ export default function Home() {
     return '#ff5252'
   }
 
-  // Chart data for donut - UPGRADED with granular categories
+  // Category color and label from the active taxonomy
+  const getCategoryColor = (category: string): string => getTaxonomyColor(taxonomy, category)
+
+  // Chart data for donut, from the locally computed category summary
   const getChartData = () => {
     if (!dashboardData) return []
-    return [
-      { name: 'Dining', value: dashboardData.category_summary.dining.percentage, color: '#ff6b6b' },
-      { name: 'Shopping', value: dashboardData.category_summary.shopping.percentage, color: '#4ecdc4' },
-      { name: 'Bill Payments', value: dashboardData.category_summary.bill_payments.percentage, color: '#45b7d1' },
-      { name: 'Travel', value: dashboardData.category_summary.travel.percentage, color: '#96ceb4' },
-      { name: 'Investments', value: dashboardData.category_summary.investments.percentage, color: '#1a237e' },
-      { name: 'Others', value: dashboardData.category_summary.others.percentage, color: '#95a5a6' },
-    ]
-  }
-
-  // Get category color
-  const getCategoryColor = (category: string): string => {
-    const colors: { [key: string]: string } = {
-      dining: '#ff6b6b',
-      shopping: '#4ecdc4',
-      bill_payments: '#45b7d1',
-      travel: '#96ceb4',
-      investments: '#1a237e',
-      others: '#95a5a6'
-    }
-    return colors[category.toLowerCase().replace(' ', '_')] || '#95a5a6'
+    return Object.entries(dashboardData.category_summary).map(([key, data]) => ({
+      name: getCategoryLabel(taxonomy, key),
+      value: data.percentage,
+      color: getCategoryColor(key),
+    }))
   }
 
   return (
     <div className="min-h-screen bg-white">
       {/* Header */}
       <header className="bg-[#1a237e] text-white py-6 px-8 shadow-lg">
-        <div className="max-w-7xl mx-auto">
-          <h1 className="text-3xl font-bold">FinOS</h1>
-          <p className="text-sm opacity-90 mt-1">Financial Intelligence Dashboard</p>
+        <div className="max-w-7xl mx-auto flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">FinOS</h1>
+            <p className="text-sm opacity-90 mt-1">Financial Intelligence Dashboard</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {shareStatus && <span className="max-w-xs truncate text-xs opacity-90">{shareStatus.message}</span>}
+            {currentAnalysis && (
+              <Button
+                variant="ghost"
+                onClick={handleShareAnalysis}
+                disabled={shareStatus?.sharing}
+                className="text-white hover:bg-white/10 hover:text-white"
+                title={
+                  currentAnalysis.sharedId
+                    ? "Update the team's copy of this analysis and copy its link"
+                    : 'Save this analysis for the team and copy its link'
+                }
+              >
+                <Share2 className="w-4 h-4 mr-2" />
+                Share
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              onClick={() => setHistoryOpen(true)}
+              className="text-white hover:bg-white/10 hover:text-white"
+            >
+              <History className="w-4 h-4 mr-2" />
+              History
+              {analysisHistory.length > 0 && <span className="ml-1 opacity-75">({analysisHistory.length})</span>}
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -278,45 +829,196 @@ export default function Home() {
                   onClick={() => fileInputRef.current?.click()}
                 >
                   <Upload className="w-12 h-12 mx-auto mb-4 text-gray-400" />
-                  <p className="text-sm font-medium text-gray-700">Upload Transaction CSV</p>
+                  <p className="text-sm font-medium text-gray-700">Upload Transaction Statement</p>
                   <p className="text-xs text-gray-500 mt-2">
-                    Drag and drop or click to browse
+                    CSV, Excel, OFX/QFX or MT940 • Drag and drop or click to browse
                   </p>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".csv"
+                    accept={STATEMENT_FILE_ACCEPT}
                     onChange={handleFileChange}
                     className="hidden"
                   />
                 </div>
 
-                {file && (
+                {fileError && (
+                  <p className="text-xs text-red-600">{fileError}</p>
+                )}
+
+                {file && (statementTable || structuredImport) && (
                   <div className="bg-gray-50 p-3 rounded-lg">
                     <div className="flex items-center gap-2">
                       <FileText className="w-4 h-4 text-[#1a237e]" />
                       <div className="flex-1">
                         <p className="text-sm font-medium text-gray-900">{file.name}</p>
-                        <p className="text-xs text-gray-600">{rowCount} transactions</p>
+                        <p className="text-xs text-gray-600">
+                          {statementFormat && `${STATEMENT_FORMAT_LABELS[statementFormat]} • `}
+                          {structuredImport ? structuredImport.transactions.length : statementTable?.rows.length} transactions
+                        </p>
                       </div>
                     </div>
+                    {importErrorCount > 0 && (
+                      <p className="text-xs text-orange-600 mt-2">
+                        {importErrorCount} malformed row{importErrorCount > 1 ? 's' : ''} detected
+                      </p>
+                    )}
+                    {validationReport.totalRows > 0 && (
+                      <div className="flex items-center justify-between mt-2 text-xs">
+                        <span className="text-gray-600">
+                          <span className="font-semibold text-[#00bfa5]">{validTransactions.length} ready</span>
+                          {validationReport.errorRows > 0 && (
+                            <span className="text-red-600"> • {validationReport.errorRows} with errors</span>
+                          )}
+                          {validationReport.duplicateRows > 0 && (
+                            <span className="text-yellow-700"> • {validationReport.duplicateRows} duplicate</span>
+                          )}
+                          {validationReport.excludedRows > 0 && (
+                            <span> • {validationReport.excludedRows} excluded</span>
+                          )}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setReviewOpen(true)}
+                          className="text-[#00bfa5] font-medium hover:underline"
+                        >
+                          Review rows
+                        </button>
+                      </div>
+                    )}
                   </div>
                 )}
 
-                <Button
-                  onClick={analyzeTransactions}
-                  disabled={!file || analyzing}
-                  className="w-full bg-[#00bfa5] hover:bg-[#00a896] text-white"
-                >
-                  {analyzing ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      {analysisStage}
-                    </>
-                  ) : (
-                    'Analyze Transactions'
+                <ImportReview
+                  open={reviewOpen}
+                  onOpenChange={setReviewOpen}
+                  report={validationReport}
+                  edits={rowEdits}
+                  onEdit={handleRowEdit}
+                  onToggleExcluded={handleToggleExcluded}
+                />
+
+                {sourceRecords.length > 0 && statementFormat === 'xlsx' && workbookSheets && (
+                  <WorkbookOptions
+                    sheets={workbookSheets}
+                    selectedSheet={selectedSheet}
+                    onSheetChange={handleSheetChange}
+                    records={sourceRecords}
+                    headerRow={headerRow}
+                    onHeaderRowChange={handleHeaderRowChange}
+                  />
+                )}
+
+                {statementTable && statementTable.headers.length > 0 && (
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-gray-600">
+                      {bankPreset ? (
+                        <>Detected format: <span className="font-semibold text-[#1a237e]">{bankPreset.name}</span></>
+                      ) : (
+                        'Unknown format - map the columns below'
+                      )}
+                    </span>
+                    {bankPreset && (
+                      <button
+                        type="button"
+                        onClick={() => setShowMapping((prev) => !prev)}
+                        className="text-[#00bfa5] font-medium hover:underline"
+                      >
+                        {showMapping ? 'Hide mapping' : 'Adjust mapping'}
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {statementTable && statementTable.headers.length > 0 && showMapping && (
+                  <ColumnMappingPanel
+                    headers={statementTable.headers}
+                    mapping={columnMapping}
+                    onChange={setColumnMapping}
+                    sampleRow={statementTable.rows[0]}
+                    dateOrder={dateOrder}
+                    onDateOrderChange={setDateOrder}
+                    amountSign={amountSign}
+                    onAmountSignChange={setAmountSign}
+                  />
+                )}
+
+                {validTransactions.length > 0 && (
+                  <StatementPreview transactions={validTransactions} />
+                )}
+
+                <div className="flex items-center gap-2">
+                  <p className="text-xs font-medium text-gray-700 flex-shrink-0">Categories</p>
+                  <Select value={taxonomy.id} onValueChange={handleTaxonomyChange}>
+                    <SelectTrigger className="h-8 text-xs flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getBuiltInTaxonomies().map((option) => (
+                        <SelectItem key={option.id} value={option.id} className="text-xs">
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={CUSTOM_TAXONOMY_ID} className="text-xs">
+                        {taxonomySettings.custom ? taxonomySettings.custom.name : 'Custom...'}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTaxonomyEditorOpen(true)}
+                    className="h-8 text-xs flex-shrink-0"
+                  >
+                    Edit
+                  </Button>
+                </div>
+
+                <TaxonomyEditor
+                  open={taxonomyEditorOpen}
+                  onOpenChange={setTaxonomyEditorOpen}
+                  initial={taxonomy}
+                  onSave={handleSaveCustomTaxonomy}
+                />
+
+                <label className="flex items-center gap-2 text-xs text-gray-700">
+                  <Checkbox
+                    checked={runStepByStep}
+                    onCheckedChange={(checked) => setRunStepByStep(checked === true)}
+                    disabled={analyzing}
+                  />
+                  Run Data Surgeon and Strategist step by step
+                </label>
+
+                <div className="flex gap-2">
+                  <Button
+                    onClick={analyzeTransactions}
+                    disabled={!file || !mappingComplete || validTransactions.length === 0 || analyzing}
+                    className="flex-1 bg-[#00bfa5] hover:bg-[#00a896] text-white"
+                  >
+                    {analyzing ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Analyzing...
+                      </>
+                    ) : (
+                      'Analyze Transactions'
+                    )}
+                  </Button>
+                  {analyzing && (
+                    <Button variant="outline" onClick={cancelAnalysis}>
+                      Cancel
+                    </Button>
                   )}
-                </Button>
+                </div>
+
+                {analysisSteps && <AnalysisProgress steps={analysisSteps} />}
+
+                {analysisError && (
+                  <p className="text-xs text-red-600">{analysisError}</p>
+                )}
+
+                {pipelineStages && <PipelineRunPanel stages={pipelineStages} />}
               </CardContent>
             </Card>
 
@@ -345,11 +1047,29 @@ export default function Home() {
                               : 'bg-gray-100 text-gray-900 mr-8'
                           }`}
                         >
-                          <p className="text-sm">{msg.content}</p>
+                          {msg.role === 'user' ? (
+                            <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                          ) : (
+                            <ChatMarkdown
+                              content={msg.content}
+                              transactions={dashboardData?.transactions}
+                              onCitationClick={handleCitationClick}
+                            />
+                          )}
+                          {msg.streaming && <span className="text-sm animate-pulse">▍</span>}
+                          {msg.payload && <ChatPayloadView payload={msg.payload} />}
+                          {msg.cancelled && <p className="text-xs italic text-gray-500 mt-1">Cancelled</p>}
+                          {msg.contextSlices && <ChatContextSlices slices={msg.contextSlices} />}
+                          {msg.computedLocally && (
+                            <p className="mt-2 pt-2 border-t border-gray-200 flex items-center gap-1.5 text-[11px] text-gray-500">
+                              <Calculator className="w-3 h-3" aria-hidden />
+                              Computed from your transactions, not by the AI agent
+                            </p>
+                          )}
                         </div>
                       ))
                     )}
-                    {chatLoading && (
+                    {chatLoading && !chatMessages[chatMessages.length - 1]?.streaming && (
                       <div className="bg-gray-100 p-3 rounded-lg mr-8">
                         <Loader2 className="w-4 h-4 animate-spin text-gray-600" />
                       </div>
@@ -366,13 +1086,19 @@ export default function Home() {
                       disabled={!dashboardData || chatLoading}
                       className="flex-1"
                     />
-                    <Button
-                      onClick={handleSendMessage}
-                      disabled={!dashboardData || !chatInput.trim() || chatLoading}
-                      className="bg-[#00bfa5] hover:bg-[#00a896] text-white"
-                    >
-                      <Send className="w-4 h-4" />
-                    </Button>
+                    {chatLoading ? (
+                      <Button variant="outline" onClick={cancelChat} aria-label="Cancel">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={handleSendMessage}
+                        disabled={!dashboardData || !chatInput.trim()}
+                        className="bg-[#00bfa5] hover:bg-[#00a896] text-white"
+                      >
+                        <Send className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -407,13 +1133,81 @@ export default function Home() {
                         </div>
                         <div className="bg-white bg-opacity-20 backdrop-blur-sm rounded-lg p-4">
                           <p className="text-xs uppercase tracking-wider opacity-90 mb-1">Financial Score</p>
-                          <p className="text-2xl font-bold">{dashboardData.financial_alignment_score}/100</p>
+                          <p className="text-2xl font-bold">
+                            {scoreAvailable ? `${dashboardData.financial_alignment_score}/100` : '—'}
+                          </p>
                         </div>
                       </div>
+                      {analyzedSummary && (
+                        <p className="text-xs opacity-90">
+                          Analyzed {analyzedSummary.analyzed} of {analyzedSummary.total} imported rows
+                          {analyzedSummary.total > analyzedSummary.analyzed &&
+                            ` • ${analyzedSummary.total - analyzedSummary.analyzed} excluded or invalid`}
+                        </p>
+                      )}
+                      {figuresVerified && (
+                        <p className="text-xs opacity-90 mt-1">
+                          Totals computed from {dashboardData.transactions.length} categorized transactions
+                        </p>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
 
+                {/* Agent figures that disagree with the local computation */}
+                {discrepancies.length > 0 && (
+                  <Card className="border-2 border-yellow-400 bg-yellow-50">
+                    <CardContent className="pt-4 pb-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex items-start gap-2">
+                          <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                          <div>
+                            <p className="text-sm font-semibold text-gray-900">
+                              The agent&apos;s figures disagree with the transactions in {discrepancies.length}{' '}
+                              place{discrepancies.length > 1 ? 's' : ''}
+                            </p>
+                            <p className="text-xs text-gray-600 mt-1">
+                              The dashboard shows totals computed from the categorized transactions.
+                            </p>
+                          </div>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setShowDiscrepancies((prev) => !prev)}
+                          className="flex-shrink-0"
+                        >
+                          {showDiscrepancies ? 'Hide' : 'Details'}
+                        </Button>
+                      </div>
+                      {showDiscrepancies && (
+                        <table className="w-full text-xs mt-3">
+                          <thead>
+                            <tr className="border-b border-yellow-300">
+                              <th className="py-1 text-left font-semibold text-gray-700">Figure</th>
+                              <th className="py-1 text-right font-semibold text-gray-700">Agent</th>
+                              <th className="py-1 text-right font-semibold text-gray-700">Computed</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {discrepancies.map((item) => (
+                              <tr key={item.field} className="border-b border-yellow-200">
+                                <td className="py-1 text-gray-800">{item.label}</td>
+                                <td className="py-1 text-right text-gray-600">{item.agentValue.toLocaleString('en-IN')}</td>
+                                <td className="py-1 text-right font-semibold text-gray-900">
+                                  {item.computedValue.toLocaleString('en-IN')}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {agentValidation && <AgentValidationNotice report={agentValidation} />}
+
                 {/* Score Visualization & Quick Stats */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   {/* Financial Alignment Score Gauge */}
@@ -450,9 +1244,11 @@ export default function Home() {
                             <div>
                               <div
                                 className="text-5xl font-bold"
-                                style={{ color: getScoreColor(dashboardData.financial_alignment_score) }}
+                                style={{
+                                  color: scoreAvailable ? getScoreColor(dashboardData.financial_alignment_score) : '#9ca3af',
+                                }}
                               >
-                                {dashboardData.financial_alignment_score}
+                                {scoreAvailable ? dashboardData.financial_alignment_score : '—'}
                               </div>
                               <div className="text-sm text-gray-600">out of 100</div>
                             </div>
@@ -493,8 +1289,13 @@ export default function Home() {
                                   {idx + 1}
                                 </div>
                                 <div>
-                                  <p className="font-semibold text-gray-900 capitalize text-sm">
-                                    {key.replace('_', ' ')}
+                                  <p className="font-semibold text-gray-900 text-sm flex items-center gap-1.5">
+                                    <CategoryIcon
+                                      icon={findCategory(taxonomy, key)?.icon}
+                                      className="w-3.5 h-3.5"
+                                      style={{ color: getCategoryColor(key) }}
+                                    />
+                                    {getCategoryLabel(taxonomy, key)}
                                   </p>
                                   <p className="text-xs text-gray-600">{data.transaction_count} transactions</p>
                                 </div>
@@ -549,30 +1350,41 @@ export default function Home() {
                         <div className="space-y-2 max-h-[280px] overflow-y-auto pr-2">
                           {Object.entries(dashboardData.category_summary)
                             .sort((a, b) => b[1].total_amount - a[1].total_amount)
-                            .map(([key, data]) => (
-                              <div
-                                key={key}
-                                className="bg-gradient-to-r from-gray-50 to-white p-3 rounded-lg border-l-4 shadow-sm hover:shadow-md transition-shadow"
-                                style={{ borderLeftColor: getCategoryColor(key) }}
-                              >
-                                <div className="flex justify-between items-start">
-                                  <div className="flex-1">
-                                    <h4 className="font-bold text-gray-900 capitalize text-sm">
-                                      {key.replace('_', ' ')}
-                                    </h4>
-                                    <p className="text-xs text-gray-600 mt-1">{data.transaction_count} transactions</p>
-                                  </div>
-                                  <div className="text-right ml-4">
-                                    <p className="font-bold text-[#1a237e] text-sm">
-                                      ₹{data.total_amount.toLocaleString('en-IN')}
-                                    </p>
-                                    <p className="text-xs font-semibold text-[#00bfa5]">
-                                      {data.percentage.toFixed(1)}%
-                                    </p>
+                            .map(([key, data]) => {
+                              const category = findCategory(taxonomy, key)
+                              return (
+                                <div
+                                  key={key}
+                                  className="bg-gradient-to-r from-gray-50 to-white p-3 rounded-lg border-l-4 shadow-sm hover:shadow-md transition-shadow"
+                                  style={{ borderLeftColor: getCategoryColor(key) }}
+                                >
+                                  <div className="flex justify-between items-start">
+                                    <div className="flex-1">
+                                      <h4 className="font-bold text-gray-900 text-sm flex items-center gap-1.5">
+                                        <CategoryIcon
+                                          icon={category?.icon}
+                                          className="w-3.5 h-3.5"
+                                          style={{ color: getCategoryColor(key) }}
+                                        />
+                                        {getCategoryLabel(taxonomy, key)}
+                                      </h4>
+                                      <p className="text-xs text-gray-600 mt-1">
+                                        {data.transaction_count} transactions
+                                        {category && ` • ${BUDGET_TYPE_LABELS[category.budgetType]}`}
+                                      </p>
+                                    </div>
+                                    <div className="text-right ml-4">
+                                      <p className="font-bold text-[#1a237e] text-sm">
+                                        ₹{data.total_amount.toLocaleString('en-IN')}
+                                      </p>
+                                      <p className="text-xs font-semibold text-[#00bfa5]">
+                                        {data.percentage.toFixed(1)}%
+                                      </p>
+                                    </div>
                                   </div>
                                 </div>
-                              </div>
-                            ))}
+                              )
+                            })}
                         </div>
                       </div>
                     </div>
@@ -620,11 +1432,13 @@ export default function Home() {
                               </p>
                             </div>
                           </div>
-                          <div className="ml-8 mt-2 bg-white p-3 rounded-lg border-l-2 border-[#00bfa5]">
-                            <p className="text-sm text-gray-700 italic leading-relaxed">
-                              <span className="font-semibold text-[#1a237e]">Insight:</span> {merchant.insights}
-                            </p>
-                          </div>
+                          {merchant.insights && (
+                            <div className="ml-8 mt-2 bg-white p-3 rounded-lg border-l-2 border-[#00bfa5]">
+                              <p className="text-sm text-gray-700 italic leading-relaxed">
+                                <span className="font-semibold text-[#1a237e]">Insight:</span> {merchant.insights}
+                              </p>
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -632,161 +1446,169 @@ export default function Home() {
                 </Card>
 
                 {/* Spending Habit Audit */}
-                <Card className="border-2 border-orange-400 shadow-md">
-                  <CardHeader className="bg-gradient-to-r from-orange-400 to-red-400">
-                    <CardTitle className="text-white">Spending Habit Audit</CardTitle>
-                  </CardHeader>
-                  <CardContent className="pt-6">
-                    <div className="mb-4 text-sm text-gray-600">
-                      Behavioral analysis and opportunities to optimize your spending habits
-                    </div>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-                      {/* Impulsive Purchases */}
-                      <div className="bg-gradient-to-br from-orange-50 to-orange-100 p-5 rounded-xl border-2 border-orange-300 shadow-sm">
-                        <div className="flex items-start justify-between mb-3">
-                          <div className="flex items-center gap-2">
-                            <div className="w-10 h-10 rounded-full bg-orange-400 flex items-center justify-center">
-                              <span className="text-white font-bold text-lg">!</span>
+                {habitAuditAvailable ? (
+                  <Card className="border-2 border-orange-400 shadow-md">
+                    <CardHeader className="bg-gradient-to-r from-orange-400 to-red-400">
+                      <CardTitle className="text-white">Spending Habit Audit</CardTitle>
+                    </CardHeader>
+                    <CardContent className="pt-6">
+                      <div className="mb-4 text-sm text-gray-600">
+                        Behavioral analysis and opportunities to optimize your spending habits
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                        {/* Impulsive Purchases */}
+                        <div className="bg-gradient-to-br from-orange-50 to-orange-100 p-5 rounded-xl border-2 border-orange-300 shadow-sm">
+                          <div className="flex items-start justify-between mb-3">
+                            <div className="flex items-center gap-2">
+                              <div className="w-10 h-10 rounded-full bg-orange-400 flex items-center justify-center">
+                                <span className="text-white font-bold text-lg">!</span>
+                              </div>
+                              <h4 className="font-bold text-orange-700 text-base">Impulsive Purchases</h4>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-bold text-orange-700 text-lg">
+                                ₹{dashboardData.habit_audit.impulsive_purchases.total_amount.toLocaleString('en-IN')}
+                              </p>
+                              <p className="text-xs text-orange-600 font-medium">
+                                {dashboardData.habit_audit.impulsive_purchases.count} purchases
+                              </p>
                             </div>
-                            <h4 className="font-bold text-orange-700 text-base">Impulsive Purchases</h4>
-                          </div>
-                          <div className="text-right">
-                            <p className="font-bold text-orange-700 text-lg">
-                              ₹{dashboardData.habit_audit.impulsive_purchases.total_amount.toLocaleString('en-IN')}
-                            </p>
-                            <p className="text-xs text-orange-600 font-medium">
-                              {dashboardData.habit_audit.impulsive_purchases.count} purchases
-                            </p>
                           </div>
+                          <p className="text-sm text-gray-700 leading-relaxed">
+                            {dashboardData.habit_audit.impulsive_purchases.description}
+                          </p>
                         </div>
-                        <p className="text-sm text-gray-700 leading-relaxed">
-                          {dashboardData.habit_audit.impulsive_purchases.description}
-                        </p>
-                      </div>
 
-                      {/* High Cost Dining */}
-                      <div className="bg-gradient-to-br from-red-50 to-red-100 p-5 rounded-xl border-2 border-red-300 shadow-sm">
-                        <div className="flex items-start justify-between mb-3">
-                          <div className="flex items-center gap-2">
-                            <div className="w-10 h-10 rounded-full bg-red-400 flex items-center justify-center">
-                              <span className="text-white font-bold text-lg">$</span>
+                        {/* High Cost Dining */}
+                        <div className="bg-gradient-to-br from-red-50 to-red-100 p-5 rounded-xl border-2 border-red-300 shadow-sm">
+                          <div className="flex items-start justify-between mb-3">
+                            <div className="flex items-center gap-2">
+                              <div className="w-10 h-10 rounded-full bg-red-400 flex items-center justify-center">
+                                <span className="text-white font-bold text-lg">$</span>
+                              </div>
+                              <h4 className="font-bold text-red-700 text-base">High-Cost Dining</h4>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-bold text-red-700 text-lg">
+                                ₹{dashboardData.habit_audit.high_cost_dining.total_amount.toLocaleString('en-IN')}
+                              </p>
+                              <p className="text-xs text-red-600 font-medium">
+                                {dashboardData.habit_audit.high_cost_dining.count} instances
+                              </p>
                             </div>
-                            <h4 className="font-bold text-red-700 text-base">High-Cost Dining</h4>
-                          </div>
-                          <div className="text-right">
-                            <p className="font-bold text-red-700 text-lg">
-                              ₹{dashboardData.habit_audit.high_cost_dining.total_amount.toLocaleString('en-IN')}
-                            </p>
-                            <p className="text-xs text-red-600 font-medium">
-                              {dashboardData.habit_audit.high_cost_dining.count} instances
-                            </p>
                           </div>
+                          <p className="text-sm text-gray-700 leading-relaxed">
+                            {dashboardData.habit_audit.high_cost_dining.description}
+                          </p>
                         </div>
-                        <p className="text-sm text-gray-700 leading-relaxed">
-                          {dashboardData.habit_audit.high_cost_dining.description}
-                        </p>
-                      </div>
 
-                      {/* Subscription Analysis */}
-                      <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-5 rounded-xl border-2 border-blue-300 shadow-sm">
-                        <div className="flex items-start justify-between mb-3">
-                          <div className="flex items-center gap-2">
-                            <div className="w-10 h-10 rounded-full bg-blue-400 flex items-center justify-center">
-                              <span className="text-white font-bold text-lg">∞</span>
+                        {/* Subscription Analysis */}
+                        <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-5 rounded-xl border-2 border-blue-300 shadow-sm">
+                          <div className="flex items-start justify-between mb-3">
+                            <div className="flex items-center gap-2">
+                              <div className="w-10 h-10 rounded-full bg-blue-400 flex items-center justify-center">
+                                <span className="text-white font-bold text-lg">∞</span>
+                              </div>
+                              <h4 className="font-bold text-blue-700 text-base">Subscriptions</h4>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-bold text-blue-700 text-lg">
+                                ₹{dashboardData.habit_audit.subscription_analysis.monthly_cost.toLocaleString('en-IN')}/mo
+                              </p>
+                              <p className="text-xs text-blue-600 font-medium">
+                                {dashboardData.habit_audit.subscription_analysis.total_subscriptions} active
+                              </p>
                             </div>
-                            <h4 className="font-bold text-blue-700 text-base">Subscriptions</h4>
                           </div>
-                          <div className="text-right">
-                            <p className="font-bold text-blue-700 text-lg">
-                              ₹{dashboardData.habit_audit.subscription_analysis.monthly_cost.toLocaleString('en-IN')}/mo
-                            </p>
-                            <p className="text-xs text-blue-600 font-medium">
-                              {dashboardData.habit_audit.subscription_analysis.total_subscriptions} active
+                          {dashboardData.habit_audit.subscription_analysis.redundant_subscriptions.length > 0 ? (
+                            <div className="mt-2">
+                              <p className="text-sm font-semibold text-red-600 mb-1">Redundant subscriptions:</p>
+                              <ul className="text-sm text-gray-700 ml-4 space-y-1">
+                                {dashboardData.habit_audit.subscription_analysis.redundant_subscriptions.map((sub, idx) => (
+                                  <li key={idx} className="flex items-center gap-1">
+                                    <span className="text-red-500">•</span> {sub}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          ) : (
+                            <p className="text-sm text-gray-700 leading-relaxed">
+                              All subscriptions are essential. No redundancies detected.
                             </p>
-                          </div>
+                          )}
                         </div>
-                        {dashboardData.habit_audit.subscription_analysis.redundant_subscriptions.length > 0 ? (
-                          <div className="mt-2">
-                            <p className="text-sm font-semibold text-red-600 mb-1">Redundant subscriptions:</p>
-                            <ul className="text-sm text-gray-700 ml-4 space-y-1">
-                              {dashboardData.habit_audit.subscription_analysis.redundant_subscriptions.map((sub, idx) => (
-                                <li key={idx} className="flex items-center gap-1">
-                                  <span className="text-red-500">•</span> {sub}
-                                </li>
-                              ))}
-                            </ul>
-                          </div>
-                        ) : (
-                          <p className="text-sm text-gray-700 leading-relaxed">
-                            All subscriptions are essential. No redundancies detected.
-                          </p>
-                        )}
-                      </div>
 
-                      {/* Total Potential Savings */}
-                      <div className="bg-gradient-to-br from-green-50 to-green-100 p-5 rounded-xl border-2 border-green-300 shadow-sm">
-                        <div className="flex items-start justify-between mb-3">
-                          <div className="flex items-center gap-2">
-                            <div className="w-10 h-10 rounded-full bg-green-400 flex items-center justify-center">
-                              <span className="text-white font-bold text-lg">💰</span>
+                        {/* Total Potential Savings */}
+                        <div className="bg-gradient-to-br from-green-50 to-green-100 p-5 rounded-xl border-2 border-green-300 shadow-sm">
+                          <div className="flex items-start justify-between mb-3">
+                            <div className="flex items-center gap-2">
+                              <div className="w-10 h-10 rounded-full bg-green-400 flex items-center justify-center">
+                                <span className="text-white font-bold text-lg">💰</span>
+                              </div>
+                              <h4 className="font-bold text-green-700 text-base">Total Savings</h4>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-bold text-green-700 text-lg">
+                                ₹{dashboardData.habit_audit.cut_back_opportunities.reduce((sum, opp) => sum + opp.potential_savings, 0).toLocaleString('en-IN')}
+                              </p>
+                              <p className="text-xs text-green-600 font-medium">
+                                Potential monthly savings
+                              </p>
                             </div>
-                            <h4 className="font-bold text-green-700 text-base">Total Savings</h4>
-                          </div>
-                          <div className="text-right">
-                            <p className="font-bold text-green-700 text-lg">
-                              ₹{dashboardData.habit_audit.cut_back_opportunities.reduce((sum, opp) => sum + opp.potential_savings, 0).toLocaleString('en-IN')}
-                            </p>
-                            <p className="text-xs text-green-600 font-medium">
-                              Potential monthly savings
-                            </p>
                           </div>
+                          <p className="text-sm text-gray-700 leading-relaxed">
+                            By implementing the recommendations below, you can save this amount monthly.
+                          </p>
                         </div>
-                        <p className="text-sm text-gray-700 leading-relaxed">
-                          By implementing the recommendations below, you can save this amount monthly.
-                        </p>
                       </div>
-                    </div>
 
-                    {/* Cut-Back Opportunities */}
-                    <div className="bg-gradient-to-br from-green-50 to-emerald-50 p-5 rounded-xl border-2 border-green-300">
-                      <h4 className="font-bold text-green-700 mb-4 text-lg flex items-center gap-2">
-                        <span className="text-2xl">💡</span> Cut-Back Opportunities
-                      </h4>
-                      <div className="space-y-3">
-                        {dashboardData.habit_audit.cut_back_opportunities.map((opp, idx) => (
-                          <div key={idx} className="bg-white p-4 rounded-lg border-2 border-green-300 shadow-sm hover:shadow-md transition-shadow">
-                            <div className="flex justify-between items-start mb-3">
-                              <div className="flex items-center gap-3 flex-1">
-                                <span className="flex items-center justify-center w-7 h-7 rounded-full bg-green-600 text-white font-bold text-sm">
-                                  {idx + 1}
-                                </span>
-                                <div>
-                                  <p className="font-bold text-gray-900 text-base">{opp.area}</p>
-                                  <p className="text-xs text-gray-600 mt-1">
-                                    <span className="font-medium">Current:</span> ₹{opp.current_spend.toLocaleString('en-IN')}
-                                    <span className="mx-2">→</span>
-                                    <span className="font-medium">Target:</span> ₹{opp.recommended_spend.toLocaleString('en-IN')}
+                      {/* Cut-Back Opportunities */}
+                      <div className="bg-gradient-to-br from-green-50 to-emerald-50 p-5 rounded-xl border-2 border-green-300">
+                        <h4 className="font-bold text-green-700 mb-4 text-lg flex items-center gap-2">
+                          <span className="text-2xl">💡</span> Cut-Back Opportunities
+                        </h4>
+                        <div className="space-y-3">
+                          {dashboardData.habit_audit.cut_back_opportunities.map((opp, idx) => (
+                            <div key={idx} className="bg-white p-4 rounded-lg border-2 border-green-300 shadow-sm hover:shadow-md transition-shadow">
+                              <div className="flex justify-between items-start mb-3">
+                                <div className="flex items-center gap-3 flex-1">
+                                  <span className="flex items-center justify-center w-7 h-7 rounded-full bg-green-600 text-white font-bold text-sm">
+                                    {idx + 1}
+                                  </span>
+                                  <div>
+                                    <p className="font-bold text-gray-900 text-base">{opp.area}</p>
+                                    <p className="text-xs text-gray-600 mt-1">
+                                      <span className="font-medium">Current:</span> ₹{opp.current_spend.toLocaleString('en-IN')}
+                                      <span className="mx-2">→</span>
+                                      <span className="font-medium">Target:</span> ₹{opp.recommended_spend.toLocaleString('en-IN')}
+                                    </p>
+                                  </div>
+                                </div>
+                                <div className="text-right ml-4">
+                                  <p className="text-xs text-gray-600 mb-1">Save</p>
+                                  <p className="font-bold text-green-600 text-xl">
+                                    ₹{opp.potential_savings.toLocaleString('en-IN')}
                                   </p>
                                 </div>
                               </div>
-                              <div className="text-right ml-4">
-                                <p className="text-xs text-gray-600 mb-1">Save</p>
-                                <p className="font-bold text-green-600 text-xl">
-                                  ₹{opp.potential_savings.toLocaleString('en-IN')}
+                              <div className="bg-gradient-to-r from-green-50 to-emerald-50 p-3 rounded-lg border-l-4 border-green-500 ml-10">
+                                <p className="text-sm text-gray-800 leading-relaxed">
+                                  <span className="font-semibold text-green-700">Action:</span> {opp.actionable_advice}
                                 </p>
                               </div>
                             </div>
-                            <div className="bg-gradient-to-r from-green-50 to-emerald-50 p-3 rounded-lg border-l-4 border-green-500 ml-10">
-                              <p className="text-sm text-gray-800 leading-relaxed">
-                                <span className="font-semibold text-green-700">Action:</span> {opp.actionable_advice}
-                              </p>
-                            </div>
-                          </div>
-                        ))}
+                          ))}
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <Card className="border-2 border-dashed border-orange-300">
+                    <CardContent className="py-6 text-center text-sm text-gray-500">
+                      Spending habit audit unavailable: the agent&apos;s response did not include it.
+                    </CardContent>
+                  </Card>
+                )}
 
                 {/* Complete Transaction History */}
                 <Card className="border-2 border-[#1a237e]">
@@ -795,7 +1617,9 @@ export default function Home() {
                   </CardHeader>
                   <CardContent className="pt-6">
                     <div className="mb-4 text-sm text-gray-600">
-                      All {dashboardData.transactions.length} categorized transactions with detailed breakdowns
+                      All {dashboardData.transactions.length} categorized transactions with detailed breakdowns. Change
+                      a category or subcategory to fix it for every transaction from that merchant, now and in future
+                      uploads.
                     </div>
                     <div className="overflow-x-auto rounded-lg border border-gray-200">
                       <table className="w-full text-sm">
@@ -816,26 +1640,73 @@ export default function Home() {
                             <th className="text-left py-4 px-4 font-bold text-gray-800">
                               Subcategory
                             </th>
+                            <th className="py-4 px-2">
+                              <span className="sr-only">Actions</span>
+                            </th>
                           </tr>
                         </thead>
                         <tbody>
                           {dashboardData.transactions.map((txn, idx) => (
-                            <tr key={idx} className="border-b border-gray-200 hover:bg-blue-50 transition-colors">
+                            <tr
+                              key={idx}
+                              id={`transaction-row-${idx + 1}`}
+                              className={`border-b border-gray-200 hover:bg-blue-50 transition-colors ${
+                                highlightedRow === idx + 1 ? 'bg-yellow-100' : ''
+                              }`}
+                            >
                               <td className="py-4 px-4 text-gray-900 font-medium">{txn.date}</td>
                               <td className="py-4 px-4 text-gray-900 font-semibold">{txn.merchant}</td>
                               <td className="py-4 px-4 text-right font-bold text-[#1a237e] text-base">
                                 ₹{txn.amount.toLocaleString('en-IN')}
                               </td>
                               <td className="py-4 px-4">
-                                <span
-                                  className="px-3 py-1.5 text-white text-xs font-semibold rounded-full shadow-sm"
-                                  style={{ backgroundColor: getCategoryColor(txn.category.toLowerCase().replace(' ', '_')) }}
+                                <Select
+                                  value={txn.category}
+                                  onValueChange={(category) => handleCategoryChange(txn, category)}
                                 >
-                                  {txn.category}
-                                </span>
+                                  <SelectTrigger
+                                    className="h-7 w-auto gap-1 border-0 px-3 text-white text-xs font-semibold rounded-full shadow-sm"
+                                    style={{ backgroundColor: getCategoryColor(txn.category) }}
+                                    aria-label={`Category for ${txn.merchant}`}
+                                  >
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {(categoryOptions.includes(txn.category)
+                                      ? categoryOptions
+                                      : [txn.category, ...categoryOptions]
+                                    ).map((name) => (
+                                      <SelectItem key={name} value={name} className="text-xs">
+                                        {name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </td>
+                              <td className="py-4 px-4">
+                                <Input
+                                  key={`${txn.merchant}-${txn.subcategory}`}
+                                  defaultValue={txn.subcategory}
+                                  onBlur={(e) => {
+                                    const subcategory = e.target.value.trim()
+                                    if (subcategory !== txn.subcategory) handleCategoryOverride(txn, txn.category, subcategory)
+                                  }}
+                                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                  className="h-7 text-xs font-medium text-gray-700 border-transparent hover:border-gray-300 focus:border-gray-300"
+                                  aria-label={`Subcategory for ${txn.merchant}`}
+                                />
                               </td>
-                              <td className="py-4 px-4 text-gray-700 text-xs font-medium">
-                                {txn.subcategory}
+                              <td className="py-4 px-2 text-right">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setRuleTransaction(txn)}
+                                  className="h-7 px-2 text-xs text-gray-500 hover:text-[#1a237e]"
+                                  title={`Add a category rule for ${txn.merchant}`}
+                                >
+                                  <Tag className="w-3 h-3 mr-1" />
+                                  Rule
+                                </Button>
                               </td>
                             </tr>
                           ))}
@@ -845,6 +1716,15 @@ export default function Home() {
                   </CardContent>
                 </Card>
 
+                <CategoryRuleDialog
+                  open={ruleTransaction !== null}
+                  onOpenChange={(open) => !open && setRuleTransaction(null)}
+                  transaction={ruleTransaction}
+                  categories={categoryOptions}
+                  transactions={dashboardData.transactions}
+                  onSave={handleAddRule}
+                />
+
                 {/* AI-Powered Insights & Recommendations */}
                 {(dashboardData.insights.length > 0 || dashboardData.recommendations.length > 0) && (
                   <Card className="border-2 border-[#00bfa5] shadow-lg">
@@ -916,7 +1796,7 @@ export default function Home() {
                           <div className="bg-gradient-to-r from-[#1a237e] to-[#00bfa5] p-4 rounded-lg text-center">
                             <p className="text-white text-sm font-medium">
                               Financial Health Report Generated • {dashboardData.total_transactions} Transactions Analyzed •
-                              {' '}Score: {dashboardData.financial_alignment_score}/100
+                              {' '}Score: {scoreAvailable ? `${dashboardData.financial_alignment_score}/100` : 'unavailable'}
                             </p>
                           </div>
                         </div>
@@ -929,6 +1809,20 @@ export default function Home() {
           </div>
         </div>
       </div>
+
+      <AnalysisHistory
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        analyses={analysisHistory}
+        sharedAnalyses={sharedHistory}
+        sharedError={sharedHistoryError}
+        currentId={currentAnalysis?.id}
+        onSelect={openAnalysis}
+        onDelete={deleteAnalysis}
+        onSelectShared={openSharedAnalysis}
+        onDeleteShared={removeSharedAnalysis}
+        canDeleteShared={canEditSharedAnalysis}
+      />
     </div>
   )
 }
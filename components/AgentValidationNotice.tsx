@@ -0,0 +1,51 @@
+'use client'
+
+import * as React from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { FileWarning } from 'lucide-react'
+import { AGENT_LABELS, type AgentValidationReport } from '@/lib/agentSchemas'
+
+interface AgentValidationNoticeProps {
+  report: AgentValidationReport
+}
+
+export function AgentValidationNotice({ report }: AgentValidationNoticeProps) {
+  const [expanded, setExpanded] = React.useState(false)
+
+  if (report.valid) return null
+
+  return (
+    <Card className="border-2 border-orange-300 bg-orange-50">
+      <CardContent className="pt-4 pb-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-2">
+            <FileWarning className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-sm font-semibold text-gray-900">
+                The {AGENT_LABELS[report.agent]} response didn&apos;t match the expected format
+              </p>
+              <p className="text-xs text-gray-600 mt-1">
+                {report.issues.length} field{report.issues.length > 1 ? 's were' : ' was'} missing or malformed.
+                Sections without data are marked unavailable.
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setExpanded((prev) => !prev)} className="flex-shrink-0">
+            {expanded ? 'Hide' : 'Details'}
+          </Button>
+        </div>
+        {expanded && (
+          <ul className="mt-3 space-y-1 text-xs max-h-48 overflow-y-auto">
+            {report.issues.map((issue) => (
+              <li key={issue.path} className="flex justify-between gap-4 border-b border-orange-200 py-1">
+                <code className="text-gray-800 break-all">{issue.path}</code>
+                <span className="text-gray-600 flex-shrink-0">{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import * as React from 'react'
+import { FileText, Loader2, Trash2 } from 'lucide-react'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { Button } from '@/components/ui/button'
+import { STATEMENT_FORMAT_LABELS } from '@/lib/statementImport'
+import type { AnalysisSummary } from '@/lib/analysisStore'
+
+interface AnalysisHistoryProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Runs saved in this browser */
+  analyses: AnalysisSummary[]
+  /** Runs shared with the team through the server; null while loading */
+  sharedAnalyses?: AnalysisSummary[] | null
+  /** Why the shared list could not be loaded */
+  sharedError?: string | null
+  /** Id of the run on screen, marked in the list */
+  currentId?: string | null
+  onSelect: (id: string) => void
+  onDelete: (id: string) => void
+  onSelectShared?: (id: string) => void
+  onDeleteShared?: (id: string) => void
+  /** Whether this browser may delete a shared run, i.e. it shared it */
+  canDeleteShared?: (id: string) => boolean
+}
+
+interface HistoryListProps {
+  analyses: AnalysisSummary[]
+  currentId?: string | null
+  onSelect: (id: string) => void
+  onDelete: (id: string) => void
+  /** Runs without a delete button when this says no */
+  canDelete?: (id: string) => boolean
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+function HistoryList({ analyses, currentId, onSelect, onDelete, canDelete }: HistoryListProps) {
+  return (
+    <ul className="-mx-2 space-y-1">
+      {analyses.map((analysis) => {
+        const current = analysis.id === currentId
+        return (
+          <li
+            key={analysis.id}
+            className={`group flex items-start gap-2 rounded-lg px-2 py-2 ${
+              current ? 'bg-[#00bfa5]/10' : 'hover:bg-gray-100'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(analysis.id)}
+              className="flex min-w-0 flex-1 items-start gap-2 text-left"
+              aria-current={current ? 'true' : undefined}
+            >
+              <FileText className="mt-0.5 h-4 w-4 shrink-0 text-[#1a237e]" aria-hidden />
+              <span className="min-w-0">
+                <span className="block truncate text-sm font-medium text-gray-900">
+                  {analysis.file?.name || 'Untitled statement'}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {formatDate(analysis.createdAt)}
+                  {analysis.file?.format && ` · ${STATEMENT_FORMAT_LABELS[analysis.file.format]}`}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {plural(analysis.transactionCount, 'transaction')} · ₹
+                  {analysis.totalAmount.toLocaleString('en-IN')}
+                  {analysis.questionCount > 0 && ` · ${plural(analysis.questionCount, 'question')}`}
+                </span>
+              </span>
+            </button>
+            {(!canDelete || canDelete(analysis.id)) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(analysis.id)}
+                className="h-7 w-7 shrink-0 p-0 text-gray-400 hover:text-red-600"
+                aria-label={`Delete analysis of ${analysis.file?.name || 'untitled statement'}`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export function AnalysisHistory({
+  open,
+  onOpenChange,
+  analyses,
+  sharedAnalyses,
+  sharedError,
+  currentId,
+  onSelect,
+  onDelete,
+  onSelectShared,
+  onDeleteShared,
+  canDeleteShared,
+}: AnalysisHistoryProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="left" className="flex w-full flex-col gap-4 overflow-y-auto sm:max-w-sm">
+        <SheetHeader>
+          <SheetTitle>Past analyses</SheetTitle>
+          <SheetDescription>Reopen one to see its dashboard and chat.</SheetDescription>
+        </SheetHeader>
+
+        <section className="space-y-1">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">This browser</h3>
+          {analyses.length === 0 ? (
+            <p className="py-4 text-center text-sm text-gray-400">No saved analyses yet</p>
+          ) : (
+            <HistoryList analyses={analyses} currentId={currentId} onSelect={onSelect} onDelete={onDelete} />
+          )}
+        </section>
+
+        {onSelectShared && onDeleteShared && (
+          <section className="space-y-1">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Shared with the team</h3>
+            {sharedError ? (
+              <p className="py-4 text-center text-sm text-red-600">{sharedError}</p>
+            ) : sharedAnalyses === null ? (
+              <p className="flex items-center justify-center gap-2 py-4 text-sm text-gray-400">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading
+              </p>
+            ) : !sharedAnalyses || sharedAnalyses.length === 0 ? (
+              <p className="py-4 text-center text-sm text-gray-400">Nothing shared yet</p>
+            ) : (
+              <HistoryList
+                analyses={sharedAnalyses}
+                currentId={currentId}
+                onSelect={onSelectShared}
+                onDelete={onDeleteShared}
+                canDelete={canDeleteShared}
+              />
+            )}
+          </section>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
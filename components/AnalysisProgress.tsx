@@ -0,0 +1,60 @@
+'use client'
+
+import * as React from 'react'
+import { CheckCircle2, Circle, Loader2, MinusCircle, XCircle } from 'lucide-react'
+import {
+  ANALYSIS_STEP_LABELS,
+  getStepElapsed,
+  type AnalysisStep,
+  type AnalysisStepStatus,
+} from '@/lib/analysisProgress'
+
+interface AnalysisProgressProps {
+  steps: AnalysisStep[]
+}
+
+const STATUS_ICONS: Record<AnalysisStepStatus, React.ReactNode> = {
+  pending: <Circle className="w-4 h-4 text-gray-300" />,
+  running: <Loader2 className="w-4 h-4 text-[#00bfa5] animate-spin" />,
+  done: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  failed: <XCircle className="w-4 h-4 text-red-600" />,
+  cancelled: <MinusCircle className="w-4 h-4 text-orange-500" />,
+  skipped: <MinusCircle className="w-4 h-4 text-gray-300" />,
+}
+
+const formatElapsed = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`)
+
+export function AnalysisProgress({ steps }: AnalysisProgressProps) {
+  const running = steps.some((step) => step.status === 'running')
+  const [now, setNow] = React.useState(Date.now())
+
+  // Tick while a step runs so its elapsed time stays current
+  React.useEffect(() => {
+    if (!running) return
+    const timer = setInterval(() => setNow(Date.now()), 200)
+    return () => clearInterval(timer)
+  }, [running])
+
+  return (
+    <ol className="space-y-1.5">
+      {steps.map((step) => (
+        <li key={step.id} className="text-xs">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              {STATUS_ICONS[step.status]}
+              <span className={step.status === 'pending' || step.status === 'skipped' ? 'text-gray-400' : 'text-gray-800'}>
+                {ANALYSIS_STEP_LABELS[step.id]}
+              </span>
+            </div>
+            {step.startedAt && (
+              <span className="text-gray-500 tabular-nums">{formatElapsed(getStepElapsed(step, now))}</span>
+            )}
+          </div>
+          {step.detail && <p className="ml-6 text-gray-500">{step.detail}</p>}
+          {step.error && <p className="ml-6 text-red-600">{step.error}</p>}
+          {step.status === 'cancelled' && <p className="ml-6 text-orange-600">Cancelled</p>}
+        </li>
+      ))}
+    </ol>
+  )
+}
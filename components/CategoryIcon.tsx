@@ -0,0 +1,42 @@
+'use client'
+
+import {
+  Car,
+  Heart,
+  Home,
+  PiggyBank,
+  Plane,
+  Receipt,
+  ShoppingBag,
+  Sparkles,
+  Tag,
+  TrendingUp,
+  Utensils,
+  type LucideIcon,
+} from 'lucide-react'
+import type { CategoryIconName } from '@/lib/taxonomy'
+
+const ICONS: Record<CategoryIconName, LucideIcon> = {
+  utensils: Utensils,
+  'shopping-bag': ShoppingBag,
+  receipt: Receipt,
+  plane: Plane,
+  'trending-up': TrendingUp,
+  home: Home,
+  sparkles: Sparkles,
+  'piggy-bank': PiggyBank,
+  heart: Heart,
+  car: Car,
+  tag: Tag,
+}
+
+interface CategoryIconProps {
+  icon?: CategoryIconName
+  className?: string
+  style?: React.CSSProperties
+}
+
+export function CategoryIcon({ icon = 'tag', className, style }: CategoryIconProps) {
+  const Icon = ICONS[icon] || Tag
+  return <Icon className={className} style={style} />
+}
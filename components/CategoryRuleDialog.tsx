@@ -0,0 +1,159 @@
+'use client'
+
+import * as React from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  RULE_MATCH_TYPES,
+  createUserRule,
+  getRuleError,
+  ruleMatches,
+  type CategoryRule,
+  type RuleMatchType,
+} from '@/lib/categoryRules'
+import type { Transaction } from '@/lib/transactions'
+
+interface CategoryRuleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Row the rule is being created from; pre-fills the form */
+  transaction: Transaction | null
+  /** Category names to choose from */
+  categories: string[]
+  /** Rows in the current report, used to preview what the rule matches */
+  transactions?: Transaction[]
+  onSave: (rule: CategoryRule) => void
+}
+
+export function CategoryRuleDialog({
+  open,
+  onOpenChange,
+  transaction,
+  categories,
+  transactions = [],
+  onSave,
+}: CategoryRuleDialogProps) {
+  const [type, setType] = React.useState<RuleMatchType>('exact')
+  const [pattern, setPattern] = React.useState('')
+  const [category, setCategory] = React.useState('')
+  const [subcategory, setSubcategory] = React.useState('')
+
+  // Start from the selected row each time the dialog opens
+  React.useEffect(() => {
+    if (!open || !transaction) return
+    setType('exact')
+    setPattern(transaction.merchant)
+    setCategory(categories.includes(transaction.category) ? transaction.category : '')
+    setSubcategory(transaction.subcategory || '')
+  }, [open, transaction, categories])
+
+  const error = getRuleError(type, pattern, category)
+  const matchCount = React.useMemo(() => {
+    if (getRuleError(type, pattern, 'preview')) return 0
+    const rule = createUserRule(type, pattern, category, subcategory)
+    return transactions.filter((txn) => ruleMatches(rule, txn.merchant)).length
+  }, [type, pattern, category, subcategory, transactions])
+
+  const handleSave = () => {
+    if (error) return
+    onSave(createUserRule(type, pattern, category, subcategory))
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-[#1a237e]">Add Category Rule</DialogTitle>
+          <DialogDescription>
+            Matching merchants are categorized locally on every upload and never sent to the agent for
+            categorization.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div>
+            <p className="text-xs font-medium text-gray-800 mb-1">Match</p>
+            <Select value={type} onValueChange={(value) => setType(value as RuleMatchType)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RULE_MATCH_TYPES.map((option) => (
+                  <SelectItem key={option.value} value={option.value} className="text-xs">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-[11px] text-gray-500 mt-1">
+              {RULE_MATCH_TYPES.find((option) => option.value === type)?.description}
+            </p>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-800 mb-1">
+              {type === 'regex' ? 'Pattern' : type === 'keyword' ? 'Keywords' : 'Merchant'}
+            </p>
+            <Input value={pattern} onChange={(e) => setPattern(e.target.value)} className="h-8 text-xs" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <p className="text-xs font-medium text-gray-800 mb-1">Category</p>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Choose..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((name) => (
+                    <SelectItem key={name} value={name} className="text-xs">
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-gray-800 mb-1">Subcategory</p>
+              <Input
+                value={subcategory}
+                onChange={(e) => setSubcategory(e.target.value)}
+                placeholder="Optional"
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+
+          <p className={error ? 'text-xs text-red-600' : 'text-xs text-gray-600'}>
+            {error || `Matches ${matchCount} transaction${matchCount === 1 ? '' : 's'} in this report`}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error} className="bg-[#1a237e] hover:bg-[#1a237e]/90">
+            Save Rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,25 @@
+'use client'
+
+import * as React from 'react'
+import { Database } from 'lucide-react'
+import type { ContextSlice } from '@/lib/chatContext'
+
+interface ChatContextSlicesProps {
+  slices: ContextSlice[]
+}
+
+export function ChatContextSlices({ slices }: ChatContextSlicesProps) {
+  if (slices.length === 0) return null
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-200 flex flex-wrap items-center gap-1.5 text-[11px] text-gray-500">
+      <Database className="w-3 h-3" aria-hidden />
+      <span>Based on:</span>
+      {slices.map((slice) => (
+        <span key={slice.id} className="rounded-full border border-gray-300 bg-white px-2 py-0.5" title={slice.detail}>
+          {slice.label} <span className="text-gray-400">· {slice.detail}</span>
+        </span>
+      ))}
+    </div>
+  )
+}
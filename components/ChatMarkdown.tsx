@@ -0,0 +1,181 @@
+'use client'
+
+import * as React from 'react'
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/chatMarkdown'
+import type { Transaction } from '@/lib/transactions'
+
+interface ChatMarkdownProps {
+  content: string
+  /** Rows the citations refer to; without them citations render as text */
+  transactions?: Transaction[]
+  /** Called with the 1-based row of a clicked citation */
+  onCitationClick?: (row: number) => void
+}
+
+interface CitationProps {
+  row: number
+  transactions?: Transaction[]
+  onCitationClick?: (row: number) => void
+}
+
+function Citation({ row, transactions, onCitationClick }: CitationProps) {
+  const txn = transactions?.[row - 1]
+  if (!txn || !onCitationClick) {
+    return <span className="text-gray-400">T{row}</span>
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => onCitationClick(row)}
+      className="rounded bg-[#00bfa5]/15 px-1 text-[11px] font-semibold text-[#00796b] hover:bg-[#00bfa5]/30"
+      title={`${txn.date} · ${txn.merchant} · ₹${txn.amount.toLocaleString('en-IN')}`}
+      aria-label={`Show transaction ${row}: ${txn.merchant} on ${txn.date}`}
+    >
+      T{row}
+    </button>
+  )
+}
+
+function Inline({ nodes, ...citation }: { nodes: MarkdownInline[] } & Omit<CitationProps, 'row'>) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'strong':
+            return (
+              <strong key={index} className="font-semibold">
+                <Inline nodes={node.children} {...citation} />
+              </strong>
+            )
+          case 'em':
+            return (
+              <em key={index}>
+                <Inline nodes={node.children} {...citation} />
+              </em>
+            )
+          case 'code':
+            return (
+              <code key={index} className="rounded bg-gray-200 px-1 font-mono text-[0.85em]">
+                {node.text}
+              </code>
+            )
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="text-[#1a237e] underline underline-offset-2"
+              >
+                <Inline nodes={node.children} {...citation} />
+              </a>
+            )
+          case 'citation':
+            return (
+              <span key={index} className="inline-flex gap-0.5 align-baseline">
+                {node.rows.map((row) => (
+                  <Citation key={row} row={row} {...citation} />
+                ))}
+              </span>
+            )
+          default:
+            return <React.Fragment key={index}>{node.text}</React.Fragment>
+        }
+      })}
+    </>
+  )
+}
+
+function Block({ block, ...citation }: { block: MarkdownBlock } & Omit<CitationProps, 'row'>) {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <p className={`font-bold ${block.level <= 2 ? 'text-base' : 'text-sm'}`}>
+          <Inline nodes={block.children} {...citation} />
+        </p>
+      )
+    case 'list': {
+      const items = block.items.map((item, index) => (
+        <li key={index}>
+          <Inline nodes={item} {...citation} />
+        </li>
+      ))
+      return block.ordered ? (
+        <ol start={block.start} className="list-decimal space-y-0.5 pl-5">
+          {items}
+        </ol>
+      ) : (
+        <ul className="list-disc space-y-0.5 pl-5">{items}</ul>
+      )
+    }
+    case 'quote':
+      return (
+        <blockquote className="whitespace-pre-wrap border-l-2 border-gray-300 pl-3 text-gray-600">
+          <Inline nodes={block.children} {...citation} />
+        </blockquote>
+      )
+    case 'code':
+      return (
+        <pre className="overflow-x-auto rounded bg-gray-200 p-2 font-mono text-xs">
+          <code>{block.text}</code>
+        </pre>
+      )
+    case 'table':
+      return (
+        <div className="overflow-x-auto rounded border border-gray-200 bg-white">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th
+                    key={column}
+                    className="border-b border-gray-200 px-2 py-1 font-semibold"
+                    style={{ textAlign: block.align[column] || 'left' }}
+                  >
+                    <Inline nodes={cell} {...citation} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, index) => (
+                <tr key={index} className="border-b border-gray-100 last:border-0">
+                  {row.map((cell, column) => (
+                    <td key={column} className="px-2 py-1" style={{ textAlign: block.align[column] || 'left' }}>
+                      <Inline nodes={cell} {...citation} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )
+    case 'rule':
+      return <hr className="border-gray-300" />
+    default:
+      return (
+        <p className="whitespace-pre-wrap">
+          <Inline nodes={block.children} {...citation} />
+        </p>
+      )
+  }
+}
+
+/**
+ * An agent reply rendered as markdown. Nothing in the content becomes HTML:
+ * tags show as text and links are limited to http(s) and mailto.
+ */
+export function ChatMarkdown({ content, transactions, onCitationClick }: ChatMarkdownProps) {
+  const blocks = React.useMemo(() => parseMarkdown(content), [content])
+
+  return (
+    <div className="space-y-2 text-sm">
+      {blocks.map((block, index) => (
+        <Block key={index} block={block} transactions={transactions} onCitationClick={onCitationClick} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import * as React from 'react'
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { formatPayloadValue, type ChartPayload, type ChatPayload, type TablePayload } from '@/lib/chatPayload'
+
+interface ChatPayloadViewProps {
+  payload: ChatPayload
+}
+
+const SERIES_COLORS = ['#00bfa5', '#1a237e', '#ffd700', '#ff5252']
+
+// Axis ticks stay short: 12K, 1.2L
+const compactNumber = new Intl.NumberFormat('en-IN', { notation: 'compact', maximumFractionDigits: 1 })
+
+function PayloadChart({ payload }: { payload: ChartPayload }) {
+  const config: ChartConfig = Object.fromEntries(
+    payload.series.map((series, index) => [
+      series.key,
+      { label: series.label, color: SERIES_COLORS[index % SERIES_COLORS.length] },
+    ])
+  )
+  const axis = [
+    <CartesianGrid key="grid" vertical={false} />,
+    <XAxis key="x" dataKey={payload.xKey} tickLine={false} axisLine={false} tickMargin={6} minTickGap={12} />,
+    <YAxis
+      key="y"
+      tickLine={false}
+      axisLine={false}
+      width={48}
+      tickFormatter={(value: number) => compactNumber.format(value)}
+    />,
+    <ChartTooltip
+      key="tooltip"
+      content={
+        <ChartTooltipContent
+          formatter={(value, name) => {
+            const series = payload.series.find((candidate) => candidate.key === name)
+            return `${series?.label || name}: ${formatPayloadValue(value as number, series?.format)}`
+          }}
+        />
+      }
+    />,
+  ]
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-44 w-full">
+      {payload.chart === 'line' ? (
+        <LineChart data={payload.data} margin={{ left: 0, right: 8, top: 8 }}>
+          {axis}
+          {payload.series.map((series) => (
+            <Line
+              key={series.key}
+              dataKey={series.key}
+              type="monotone"
+              stroke={`var(--color-${series.key})`}
+              strokeWidth={2}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      ) : (
+        <BarChart data={payload.data} margin={{ left: 0, right: 8, top: 8 }}>
+          {axis}
+          {payload.series.map((series) => (
+            <Bar key={series.key} dataKey={series.key} fill={`var(--color-${series.key})`} radius={3} />
+          ))}
+        </BarChart>
+      )}
+    </ChartContainer>
+  )
+}
+
+function PayloadTable({ payload }: { payload: TablePayload }) {
+  const numeric = (format?: string) => format === 'currency' || format === 'number' || format === 'percent'
+
+  return (
+    <div className="max-h-56 overflow-y-auto rounded border border-gray-200 bg-white">
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            {payload.columns.map((column) => (
+              <TableHead key={column.key} className={`h-8 px-2 ${numeric(column.format) ? 'text-right' : ''}`}>
+                {column.label}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {payload.rows.map((row, index) => (
+            <TableRow key={index}>
+              {payload.columns.map((column) => (
+                <TableCell key={column.key} className={`px-2 py-1.5 ${numeric(column.format) ? 'text-right tabular-nums' : ''}`}>
+                  {formatPayloadValue(row[column.key], column.format)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+export function ChatPayloadView({ payload }: ChatPayloadViewProps) {
+  if (payload.type === 'kpi') {
+    return (
+      <div className="mt-2 rounded border border-gray-200 bg-white px-3 py-2">
+        <p className="text-[11px] uppercase tracking-wide text-gray-500">{payload.label}</p>
+        <p className="text-xl font-bold text-gray-900 tabular-nums">{formatPayloadValue(payload.value, payload.format)}</p>
+        {payload.caption && <p className="text-xs text-gray-500">{payload.caption}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-2 space-y-1">
+      {payload.title && <p className="text-xs font-semibold text-gray-700">{payload.title}</p>}
+      {payload.type === 'table' ? <PayloadTable payload={payload} /> : <PayloadChart payload={payload} />}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import * as React from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AMOUNT_SIGNS,
+  MAPPABLE_FIELDS,
+  getMappingErrors,
+  type AmountSign,
+  type ColumnMapping,
+  type MappableField,
+} from '@/lib/columnMapping'
+import { DATE_ORDERS, type DateOrder } from '@/lib/dateParsing'
+import { cn } from '@/lib/utils'
+
+const UNMAPPED = '__none__'
+
+interface ColumnMappingPanelProps {
+  headers: string[]
+  mapping: ColumnMapping
+  onChange: (mapping: ColumnMapping) => void
+  sampleRow?: string[]
+  dateOrder?: DateOrder
+  onDateOrderChange?: (order: DateOrder) => void
+  /** How a single amount column marks money out; asked only when there is no Dr/Cr column */
+  amountSign?: AmountSign
+  onAmountSignChange?: (sign: AmountSign) => void
+  className?: string
+}
+
+export function ColumnMappingPanel({
+  headers,
+  mapping,
+  onChange,
+  sampleRow,
+  dateOrder,
+  onDateOrderChange,
+  amountSign,
+  onAmountSignChange,
+  className,
+}: ColumnMappingPanelProps) {
+  const errors = getMappingErrors(mapping)
+
+  const handleFieldChange = (field: MappableField, value: string) => {
+    onChange({ ...mapping, [field]: value === UNMAPPED ? null : Number(value) })
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div>
+        <p className="text-sm font-semibold text-gray-900">Column Mapping</p>
+        <p className="text-xs text-gray-500">Tell us which column holds each field</p>
+      </div>
+
+      <div className="space-y-2">
+        {MAPPABLE_FIELDS.map(({ field, label, description }) => {
+          const selected = mapping[field]
+          return (
+            <div key={field} className="grid grid-cols-5 items-center gap-2">
+              <div className="col-span-2">
+                <p className="text-xs font-medium text-gray-800">{label}</p>
+                <p className="text-[10px] text-gray-500 leading-tight">{description}</p>
+              </div>
+              <div className="col-span-3">
+                <Select
+                  value={selected === null ? UNMAPPED : String(selected)}
+                  onValueChange={(value) => handleFieldChange(field, value)}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue placeholder="Not mapped" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED} className="text-xs">
+                      Not mapped
+                    </SelectItem>
+                    {headers.map((header, idx) => (
+                      <SelectItem key={idx} value={String(idx)} className="text-xs">
+                        {header || `Column ${idx + 1}`}
+                        {sampleRow?.[idx] ? (
+                          <span className="ml-1 text-gray-400">({sampleRow[idx]})</span>
+                        ) : null}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {dateOrder && onDateOrderChange && (
+        <div className="grid grid-cols-5 items-center gap-2">
+          <div className="col-span-2">
+            <p className="text-xs font-medium text-gray-800">Date format</p>
+            <p className="text-[10px] text-gray-500 leading-tight">How dates are printed</p>
+          </div>
+          <div className="col-span-3">
+            <Select value={dateOrder} onValueChange={(value) => onDateOrderChange(value as DateOrder)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATE_ORDERS.map((order) => (
+                  <SelectItem key={order.value} value={order.value} className="text-xs">
+                    {order.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {amountSign && onAmountSignChange && mapping.amount !== null && mapping.type === null && (
+        <div className="grid grid-cols-5 items-center gap-2">
+          <div className="col-span-2">
+            <p className="text-xs font-medium text-gray-800">Amount sign</p>
+            <p className="text-[10px] text-gray-500 leading-tight">Which amounts are spending</p>
+          </div>
+          <div className="col-span-3">
+            <Select value={amountSign} onValueChange={(value) => onAmountSignChange(value as AmountSign)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AMOUNT_SIGNS.map((sign) => (
+                  <SelectItem key={sign.value} value={sign.value} className="text-xs">
+                    {sign.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-1">
+          {errors.map((error) => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import * as React from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { TransactionDirection } from '@/lib/columnMapping'
+import {
+  ISSUE_LABELS,
+  type RowEdit,
+  type RowIssueCode,
+  type ValidatedRow,
+  type ValidationReport,
+} from '@/lib/importValidation'
+import { cn } from '@/lib/utils'
+
+// Rendering thousands of editable rows in a dialog gets sluggish
+const MAX_VISIBLE_ROWS = 500
+
+type RowFilter = 'all' | 'issues' | 'excluded'
+
+interface ImportReviewProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  report: ValidationReport
+  edits: Record<number, RowEdit>
+  onEdit: (sourceRow: number, field: keyof RowEdit, value: string) => void
+  onToggleExcluded: (sourceRow: number) => void
+}
+
+export function ImportReview({
+  open,
+  onOpenChange,
+  report,
+  edits,
+  onEdit,
+  onToggleExcluded,
+}: ImportReviewProps) {
+  const hasIssues = report.errorRows + report.warningRows > 0
+  const [filter, setFilter] = React.useState<RowFilter>('all')
+
+  // Jump straight to the problem rows each time the dialog opens
+  React.useEffect(() => {
+    if (open) setFilter(hasIssues ? 'issues' : 'all')
+  }, [open, hasIssues])
+
+  const filteredRows = report.rows.filter((row) => {
+    if (filter === 'issues') return row.issues.length > 0
+    if (filter === 'excluded') return row.excluded
+    return true
+  })
+  const visibleRows = filteredRows.slice(0, MAX_VISIBLE_ROWS)
+
+  const fieldValue = (row: ValidatedRow, field: Exclude<keyof RowEdit, 'direction'>): string => {
+    const edit = edits[row.transaction.sourceRow]
+    if (edit?.[field] !== undefined) return edit[field] as string
+    if (field === 'date') return row.transaction.rawDate
+    if (field === 'amount') return Number.isFinite(row.transaction.amount) ? String(row.transaction.amount) : ''
+    return row.transaction.merchant
+  }
+
+  const hasIssue = (row: ValidatedRow, code: RowIssueCode) => row.issues.some((issue) => issue.code === code)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-[#1a237e]">Review Imported Rows</DialogTitle>
+          <DialogDescription>
+            {report.analyzable.length} of {report.totalRows} rows will be analyzed. Fix rows with errors or
+            exclude them; excluded and invalid rows are never sent for analysis.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {(['issues', 'all', 'excluded'] as RowFilter[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setFilter(option)}
+              className={cn(
+                'px-3 py-1 rounded-full border capitalize',
+                filter === option
+                  ? 'bg-[#1a237e] text-white border-[#1a237e]'
+                  : 'bg-white text-gray-700 border-gray-300 hover:border-[#1a237e]'
+              )}
+            >
+              {option === 'issues' ? 'With issues' : option}
+            </button>
+          ))}
+          <span className="ml-auto text-gray-600">
+            {(Object.keys(ISSUE_LABELS) as RowIssueCode[])
+              .filter((code) => report.issueCounts[code] > 0)
+              .map((code) => `${report.issueCounts[code]} ${ISSUE_LABELS[code].toLowerCase()}`)
+              .join(' • ') || 'No issues found'}
+          </span>
+        </div>
+
+        <div className="flex-1 overflow-auto rounded-md border border-gray-200">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 sticky top-0 z-10">
+              <tr>
+                <th className="py-2 px-2 text-left font-semibold text-gray-700 w-12">Use</th>
+                <th className="py-2 px-2 text-left font-semibold text-gray-700 w-12">Row</th>
+                <th className="py-2 px-2 text-left font-semibold text-gray-700">Date</th>
+                <th className="py-2 px-2 text-left font-semibold text-gray-700">Merchant</th>
+                <th className="py-2 px-2 text-right font-semibold text-gray-700">Amount</th>
+                <th className="py-2 px-2 text-left font-semibold text-gray-700">Dr/Cr</th>
+                <th className="py-2 px-2 text-left font-semibold text-gray-700">Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row) => {
+                const { sourceRow } = row.transaction
+                const isError = row.issues.some((issue) => issue.severity === 'error')
+                return (
+                  <tr
+                    key={sourceRow}
+                    className={cn(
+                      'border-t border-gray-100',
+                      row.excluded && 'opacity-50',
+                      !row.excluded && isError && 'bg-red-50',
+                      !row.excluded && !isError && row.issues.length > 0 && 'bg-yellow-50'
+                    )}
+                  >
+                    <td className="py-1 px-2">
+                      <Checkbox
+                        checked={!row.excluded}
+                        onCheckedChange={() => onToggleExcluded(sourceRow)}
+                        aria-label={`Include row ${sourceRow}`}
+                      />
+                    </td>
+                    <td className="py-1 px-2 text-gray-500">{sourceRow}</td>
+                    <td className="py-1 px-2">
+                      <Input
+                        value={fieldValue(row, 'date')}
+                        onChange={(e) => onEdit(sourceRow, 'date', e.target.value)}
+                        className={cn('h-7 text-xs w-28', hasIssue(row, 'invalid_date') && 'border-red-400')}
+                      />
+                    </td>
+                    <td className="py-1 px-2">
+                      <Input
+                        value={fieldValue(row, 'merchant')}
+                        onChange={(e) => onEdit(sourceRow, 'merchant', e.target.value)}
+                        className={cn('h-7 text-xs min-w-[160px]', hasIssue(row, 'blank_merchant') && 'border-red-400')}
+                      />
+                    </td>
+                    <td className="py-1 px-2">
+                      <Input
+                        value={fieldValue(row, 'amount')}
+                        onChange={(e) => onEdit(sourceRow, 'amount', e.target.value)}
+                        className={cn(
+                          'h-7 text-xs w-24 text-right ml-auto',
+                          hasIssue(row, 'invalid_amount') && 'border-red-400',
+                          hasIssue(row, 'zero_amount') && 'border-yellow-400'
+                        )}
+                      />
+                    </td>
+                    <td className="py-1 px-2">
+                      <Select
+                        value={row.transaction.direction}
+                        onValueChange={(value) => onEdit(sourceRow, 'direction', value as TransactionDirection)}
+                      >
+                        <SelectTrigger className="h-7 w-16 text-xs" aria-label={`Direction of row ${sourceRow}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="debit" className="text-xs">
+                            Dr
+                          </SelectItem>
+                          <SelectItem value="credit" className="text-xs">
+                            Cr
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="py-1 px-2">
+                      {row.issues.map((issue) => (
+                        <p
+                          key={issue.code}
+                          className={issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}
+                        >
+                          {issue.message}
+                        </p>
+                      ))}
+                      {row.edited && row.issues.length === 0 && <p className="text-green-600">Fixed</p>}
+                    </td>
+                  </tr>
+                )
+              })}
+              {visibleRows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-6 text-center text-gray-400">
+                    No rows to show
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {filteredRows.length > MAX_VISIBLE_ROWS && (
+          <p className="text-xs text-gray-500">
+            Showing the first {MAX_VISIBLE_ROWS} of {filteredRows.length} rows
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
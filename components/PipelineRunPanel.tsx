@@ -0,0 +1,94 @@
+'use client'
+
+import * as React from 'react'
+import { Button } from '@/components/ui/button'
+import { CheckCircle2, Circle, Loader2, MinusCircle, XCircle } from 'lucide-react'
+import { PIPELINE_STAGE_LABELS, type PipelineStage, type PipelineStageStatus } from '@/lib/orchestrator'
+
+interface PipelineRunPanelProps {
+  stages: PipelineStage[]
+}
+
+const STATUS_ICONS: Record<PipelineStageStatus, React.ReactNode> = {
+  pending: <Circle className="w-4 h-4 text-gray-400" />,
+  running: <Loader2 className="w-4 h-4 text-[#00bfa5] animate-spin" />,
+  success: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  error: <XCircle className="w-4 h-4 text-red-600" />,
+  cancelled: <MinusCircle className="w-4 h-4 text-orange-500" />,
+  skipped: <MinusCircle className="w-4 h-4 text-gray-400" />,
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`)
+
+function StageRow({ stage }: { stage: PipelineStage }) {
+  const [view, setView] = React.useState<'input' | 'output' | null>(null)
+  const issueCount = stage.report?.issues.length || 0
+  const shown = view === 'input' ? stage.input : view === 'output' ? JSON.stringify(stage.output, null, 2) : null
+
+  return (
+    <li className="py-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {STATUS_ICONS[stage.status]}
+          <span className="text-sm font-medium text-gray-900">{PIPELINE_STAGE_LABELS[stage.id]}</span>
+          {stage.durationMs !== undefined && (
+            <span className="text-xs text-gray-500">{formatDuration(stage.durationMs)}</span>
+          )}
+        </div>
+        <div className="flex gap-1 flex-shrink-0">
+          {stage.input !== undefined && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setView(view === 'input' ? null : 'input')}
+              className="h-6 px-2 text-xs"
+            >
+              Input
+            </Button>
+          )}
+          {stage.output !== undefined && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setView(view === 'output' ? null : 'output')}
+              className="h-6 px-2 text-xs"
+            >
+              Output
+            </Button>
+          )}
+        </div>
+      </div>
+      {stage.summary && <p className="text-xs text-gray-600 ml-6">{stage.summary}</p>}
+      {stage.error && <p className="text-xs text-red-600 ml-6">{stage.error}</p>}
+      {issueCount > 0 && (
+        <p className="text-xs text-orange-600 ml-6">
+          {issueCount} field{issueCount > 1 ? 's' : ''} missing or malformed:{' '}
+          {stage.report!.issues.map((issue) => issue.path).join(', ')}
+        </p>
+      )}
+      {shown && (
+        <pre className="mt-2 ml-6 max-h-48 overflow-auto rounded bg-gray-900 p-2 text-[11px] text-gray-100 whitespace-pre-wrap break-all">
+          {shown}
+        </pre>
+      )}
+    </li>
+  )
+}
+
+export function PipelineRunPanel({ stages }: PipelineRunPanelProps) {
+  const total = stages.reduce((sum, stage) => sum + (stage.durationMs || 0), 0)
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold text-gray-700 uppercase tracking-wider">Agent Pipeline</p>
+        {total > 0 && <p className="text-xs text-gray-500">{formatDuration(total)} total</p>}
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {stages.map((stage) => (
+          <StageRow key={stage.id} stage={stage} />
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+
+import * as React from 'react'
+import type { NormalizedTransaction } from '@/lib/transactions'
+import { cn } from '@/lib/utils'
+
+const PREVIEW_ROWS = 5
+
+interface StatementPreviewProps {
+  transactions: NormalizedTransaction[]
+  className?: string
+}
+
+export function StatementPreview({ transactions, className }: StatementPreviewProps) {
+  const rows = transactions.slice(0, PREVIEW_ROWS)
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <p className="text-xs font-semibold text-gray-800">
+        Preview <span className="font-normal text-gray-500">(first {rows.length} of {transactions.length})</span>
+      </p>
+      <div className="overflow-x-auto rounded-md border border-gray-200">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="text-left py-1.5 px-2 font-semibold text-gray-700">Date</th>
+              <th className="text-left py-1.5 px-2 font-semibold text-gray-700">Merchant</th>
+              <th className="text-right py-1.5 px-2 font-semibold text-gray-700">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((txn) => (
+              <tr key={txn.sourceRow} className="border-t border-gray-100">
+                <td className="py-1.5 px-2 text-gray-700 whitespace-nowrap">{txn.date}</td>
+                <td className="py-1.5 px-2 text-gray-900 max-w-[120px] truncate" title={txn.merchant}>
+                  {txn.merchant}
+                </td>
+                <td
+                  className={cn(
+                    'py-1.5 px-2 text-right font-medium whitespace-nowrap',
+                    txn.direction === 'credit' ? 'text-green-600' : 'text-[#1a237e]'
+                  )}
+                >
+                  {txn.direction === 'credit' ? '+' : ''}
+                  {txn.amount.toLocaleString('en-IN')} {txn.currency !== 'INR' ? txn.currency : ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import * as React from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2 } from 'lucide-react'
+import { CategoryIcon } from '@/components/CategoryIcon'
+import {
+  BUDGET_TYPE_LABELS,
+  CATEGORY_ICONS,
+  createCustomTaxonomy,
+  getTaxonomyError,
+  type BudgetType,
+  type CategoryIconName,
+  type Taxonomy,
+} from '@/lib/taxonomy'
+
+interface DraftCategory {
+  label: string
+  color: string
+  icon: CategoryIconName
+  budgetType: BudgetType
+  /** Comma-separated while editing */
+  subcategories: string
+}
+
+interface TaxonomyEditorProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Taxonomy to start from, usually the active one */
+  initial: Taxonomy
+  onSave: (taxonomy: Taxonomy) => void
+}
+
+const toDraft = (taxonomy: Taxonomy): DraftCategory[] =>
+  taxonomy.categories.map((category) => ({
+    label: category.label,
+    color: category.color,
+    icon: category.icon,
+    budgetType: category.budgetType,
+    subcategories: category.subcategories.join(', '),
+  }))
+
+export function TaxonomyEditor({ open, onOpenChange, initial, onSave }: TaxonomyEditorProps) {
+  const [draft, setDraft] = React.useState<DraftCategory[]>([])
+
+  React.useEffect(() => {
+    if (open) setDraft(toDraft(initial))
+  }, [open, initial])
+
+  const error = getTaxonomyError(draft)
+
+  const updateCategory = (index: number, changes: Partial<DraftCategory>) => {
+    setDraft((prev) => prev.map((category, i) => (i === index ? { ...category, ...changes } : category)))
+  }
+
+  const addCategory = () => {
+    setDraft((prev) => [
+      ...prev,
+      { label: '', color: '#95a5a6', icon: 'tag', budgetType: 'want', subcategories: '' },
+    ])
+  }
+
+  const handleSave = () => {
+    if (error) return
+    onSave(
+      createCustomTaxonomy(
+        draft.map((category) => ({ ...category, subcategories: category.subcategories.split(',') }))
+      )
+    )
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-[#1a237e]">Custom Categories</DialogTitle>
+          <DialogDescription>
+            Define the categories your spending is sorted into. Transactions that fit none of them go to
+            &quot;Others&quot; if you have it, otherwise to the last category.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto space-y-2">
+          {draft.map((category, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="color"
+                value={category.color}
+                onChange={(e) => updateCategory(index, { color: e.target.value })}
+                className="col-span-1 h-8 w-full rounded border border-gray-300 cursor-pointer"
+                aria-label="Color"
+              />
+              <Input
+                value={category.label}
+                onChange={(e) => updateCategory(index, { label: e.target.value })}
+                placeholder="Category"
+                className="col-span-3 h-8 text-xs"
+              />
+              <Select
+                value={category.icon}
+                onValueChange={(icon) => updateCategory(index, { icon: icon as CategoryIconName })}
+              >
+                <SelectTrigger className="col-span-1 h-8 px-2" aria-label="Icon">
+                  <CategoryIcon icon={category.icon} className="w-4 h-4" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORY_ICONS.map((icon) => (
+                    <SelectItem key={icon} value={icon}>
+                      <CategoryIcon icon={icon} className="w-4 h-4" />
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={category.budgetType}
+                onValueChange={(budgetType) => updateCategory(index, { budgetType: budgetType as BudgetType })}
+              >
+                <SelectTrigger className="col-span-2 h-8 text-xs" aria-label="Budget type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BUDGET_TYPE_LABELS) as BudgetType[]).map((type) => (
+                    <SelectItem key={type} value={type} className="text-xs">
+                      {BUDGET_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={category.subcategories}
+                onChange={(e) => updateCategory(index, { subcategories: e.target.value })}
+                placeholder="Subcategories, comma-separated"
+                className="col-span-4 h-8 text-xs"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft((prev) => prev.filter((_, i) => i !== index))}
+                className="col-span-1 h-8 px-2 text-gray-500 hover:text-red-600"
+                aria-label={`Remove ${category.label || 'category'}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addCategory} className="text-xs">
+            <Plus className="w-3 h-3 mr-1" />
+            Add category
+          </Button>
+        </div>
+
+        <DialogFooter className="items-center">
+          {error && <p className="text-xs text-red-600 mr-auto">{error}</p>}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error} className="bg-[#1a237e] hover:bg-[#1a237e]/90">
+            Use These Categories
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
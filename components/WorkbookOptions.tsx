@@ -0,0 +1,76 @@
+'use client'
+
+import * as React from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { WorkbookSheet } from '@/lib/xlsxImporter'
+import { cn } from '@/lib/utils'
+
+// Only the top of a sheet is offered as header candidates
+const HEADER_ROW_CANDIDATES = 20
+
+interface WorkbookOptionsProps {
+  sheets: WorkbookSheet[]
+  selectedSheet: string
+  onSheetChange: (name: string) => void
+  records: string[][]
+  headerRow: number
+  onHeaderRowChange: (row: number) => void
+  className?: string
+}
+
+export function WorkbookOptions({
+  sheets,
+  selectedSheet,
+  onSheetChange,
+  records,
+  headerRow,
+  onHeaderRowChange,
+  className,
+}: WorkbookOptionsProps) {
+  const describeRow = (record: string[]) => {
+    const text = record.filter(Boolean).join(' | ')
+    return text.length > 48 ? `${text.slice(0, 48)}…` : text
+  }
+
+  return (
+    <div className={cn('grid grid-cols-2 gap-2', className)}>
+      <div>
+        <p className="text-xs font-medium text-gray-800 mb-1">Sheet</p>
+        <Select value={selectedSheet} onValueChange={onSheetChange}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Choose a sheet" />
+          </SelectTrigger>
+          <SelectContent>
+            {sheets.map((sheet) => (
+              <SelectItem key={sheet.name} value={sheet.name} className="text-xs">
+                {sheet.name}
+                <span className="ml-1 text-gray-400">({sheet.records.length} rows)</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <p className="text-xs font-medium text-gray-800 mb-1">Header row</p>
+        <Select value={String(headerRow)} onValueChange={(value) => onHeaderRowChange(Number(value))}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {records.slice(0, HEADER_ROW_CANDIDATES).map((record, idx) => (
+              <SelectItem key={idx} value={String(idx)} className="text-xs">
+                Row {idx + 1}: <span className="text-gray-500">{describeRow(record)}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createLyzrProvider } from '@/lib/agentProvider'
+import { IDEMPOTENCY_KEY_HEADER } from '@/lib/retry'
+
+const payload = { message: 'Analyze', agent_id: 'agent', user_id: 'user', session_id: 'agent-123456789012' }
+
+const respond = (status: number) => new Response(status === 200 ? '{}' : null, { status })
+
+const sentKeys = (fetchMock: ReturnType<typeof vi.fn>) =>
+  fetchMock.mock.calls.map(([, init]) => new Headers(init.headers).get(IDEMPOTENCY_KEY_HEADER))
+
+// No backoff between attempts; also makes every generated key the same, so only for retry tests
+const skipBackoff = () => vi.spyOn(Math, 'random').mockReturnValue(0)
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+})
+
+describe('createLyzrProvider', () => {
+  it('retries an agent call after a gateway error with the same idempotency key', async () => {
+    skipBackoff()
+    const fetchMock = vi.fn().mockResolvedValueOnce(respond(502)).mockResolvedValueOnce(respond(200))
+    vi.stubGlobal('fetch', fetchMock)
+    const attempts: number[] = []
+
+    const response = await createLyzrProvider('key').chat(payload, { onAttempt: (attempt) => attempts.push(attempt) })
+
+    expect(response.status).toBe(200)
+    expect(attempts).toEqual([1, 2])
+    const [first, second] = sentKeys(fetchMock)
+    expect(first).toBeTruthy()
+    expect(second).toBe(first)
+  })
+
+  it('gives each call its own idempotency key', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => respond(200))
+    vi.stubGlobal('fetch', fetchMock)
+    const provider = createLyzrProvider('key')
+
+    await provider.chat(payload)
+    await provider.upload([new File(['a'], 'a.pdf')])
+
+    const [chatKey, uploadKey] = sentKeys(fetchMock)
+    expect(chatKey).toBeTruthy()
+    expect(uploadKey).toBeTruthy()
+    expect(uploadKey).not.toBe(chatKey)
+  })
+
+  it('gives up on a gateway error after the last attempt', async () => {
+    skipBackoff()
+    const fetchMock = vi.fn().mockImplementation(async () => respond(504))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const response = await createLyzrProvider('key').stream(payload)
+
+    expect(response.status).toBe(504)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+})
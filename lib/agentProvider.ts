@@ -0,0 +1,190 @@
+/**
+ * Agent Providers
+ *
+ * The backend behind `/api/agent`, `/api/upload` and `/api/rag`. Routes ask
+ * the provider for the upstream response and keep their own request
+ * validation and response shaping, so a provider only has to speak the
+ * Lyzr wire format. `AGENT_PROVIDER` picks the backend: `lyzr` (default)
+ * calls the Lyzr APIs, `mock` replays `test_responses/` offline.
+ *
+ * @example
+ * ```ts
+ * import { getAgentProvider } from '@/lib/agentProvider'
+ *
+ * const provider = getAgentProvider()
+ * const configError = provider.getConfigError()
+ * if (!configError) {
+ *   const response = await provider.chat(payload, { signal, onAttempt })
+ * }
+ * ```
+ */
+
+import { fetchWithRetry, type RetryPolicy } from '@/lib/retry'
+import { generateUUID } from '@/lib/utils'
+import { createMockProvider } from '@/lib/mockAgentProvider'
+
+// Types
+export type AgentProviderName = 'lyzr' | 'mock'
+
+export type RagFileType = 'pdf' | 'docx' | 'txt'
+
+export interface AgentPayload {
+  message: string
+  agent_id: string
+  user_id: string
+  session_id: string
+  assets?: string[]
+}
+
+export interface ProviderRequestOptions {
+  signal?: AbortSignal
+  /** Called before each upstream attempt with its 1-based number */
+  onAttempt?: (attempt: number) => void
+}
+
+/**
+ * Every method resolves with the upstream `Response`, error statuses
+ * included, and rejects only when the request could not be made.
+ */
+export interface AgentProvider {
+  name: AgentProviderName
+  /** Why the provider cannot serve requests, or null when it can */
+  getConfigError: () => string | null
+  chat: (payload: AgentPayload, options?: ProviderRequestOptions) => Promise<Response>
+  /** Like `chat`, but the body streams the reply, usually as `text/event-stream` */
+  stream: (payload: AgentPayload, options?: ProviderRequestOptions) => Promise<Response>
+  /** Body: `{ results: [{ asset_id, file_name, success, error? }], ... }` */
+  upload: (files: File[], options?: ProviderRequestOptions) => Promise<Response>
+  /** Body: an array of stored file paths */
+  listDocuments: (ragId: string, options?: ProviderRequestOptions) => Promise<Response>
+  trainDocument: (
+    ragId: string,
+    file: File,
+    fileType: RagFileType,
+    options?: ProviderRequestOptions
+  ) => Promise<Response>
+  deleteDocuments: (ragId: string, documentNames: string[], options?: ProviderRequestOptions) => Promise<Response>
+}
+
+const LYZR_CHAT_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+const LYZR_STREAM_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
+const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
+const LYZR_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
+
+// Listing and deleting documents give the same result when repeated. Agent calls, uploads and
+// training do not: a repeated agent call runs the agent again and adds a second turn to its session.
+// They carry an idempotency key instead, one per call and the same on each of its attempts, so
+// gateway errors can be retried without the upstream doing the work twice.
+const IDEMPOTENT_RETRY_POLICY: Partial<RetryPolicy> = { idempotent: true }
+const keyedRetryPolicy = (): Partial<RetryPolicy> => ({ idempotencyKey: generateUUID() })
+
+export function createLyzrProvider(apiKey: string = process.env.LYZR_API_KEY || ''): AgentProvider {
+  const retry = (options: ProviderRequestOptions, policy?: Partial<RetryPolicy>) => ({
+    policy,
+    onAttempt: options.onAttempt,
+  })
+
+  const postJson = (url: string, payload: AgentPayload, options: ProviderRequestOptions) =>
+    fetchWithRetry(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+        },
+        body: JSON.stringify(payload),
+        signal: options.signal,
+      },
+      retry(options, keyedRetryPolicy())
+    )
+
+  return {
+    name: 'lyzr',
+    getConfigError: () => (apiKey ? null : 'LYZR_API_KEY not configured on server'),
+    chat: (payload, options = {}) => postJson(LYZR_CHAT_URL, payload, options),
+    // Only opening the stream is retried; once it is open a dropped stream is the caller's to handle
+    stream: (payload, options = {}) => postJson(LYZR_STREAM_URL, payload, options),
+    upload: (files, options = {}) => {
+      const formData = new FormData()
+      files.forEach((file) => formData.append('files', file, file.name))
+      return fetchWithRetry(
+        LYZR_UPLOAD_URL,
+        {
+          method: 'POST',
+          headers: {
+            'x-api-key': apiKey,
+          },
+          body: formData,
+          signal: options.signal,
+        },
+        retry(options, keyedRetryPolicy())
+      )
+    },
+    listDocuments: (ragId, options = {}) =>
+      fetchWithRetry(
+        `${LYZR_RAG_BASE_URL}/rag/documents/${encodeURIComponent(ragId)}/`,
+        {
+          method: 'GET',
+          headers: {
+            'accept': 'application/json',
+            'x-api-key': apiKey,
+          },
+          signal: options.signal,
+        },
+        retry(options, IDEMPOTENT_RETRY_POLICY)
+      ),
+    trainDocument: (ragId, file, fileType, options = {}) => {
+      // Direct upload and train in one step
+      const formData = new FormData()
+      formData.append('file', file, file.name)
+      formData.append('data_parser', 'llmsherpa')
+      formData.append('chunk_size', '1000')
+      formData.append('chunk_overlap', '100')
+      formData.append('extra_info', '{}')
+      return fetchWithRetry(
+        `${LYZR_RAG_BASE_URL}/train/${fileType}/?rag_id=${encodeURIComponent(ragId)}`,
+        {
+          method: 'POST',
+          headers: {
+            'x-api-key': apiKey,
+            'accept': 'application/json',
+          },
+          body: formData,
+          signal: options.signal,
+        },
+        retry(options, keyedRetryPolicy())
+      )
+    },
+    deleteDocuments: (ragId, documentNames, options = {}) =>
+      fetchWithRetry(
+        `${LYZR_RAG_BASE_URL}/rag/${encodeURIComponent(ragId)}/docs/`,
+        {
+          method: 'DELETE',
+          headers: {
+            'accept': 'application/json',
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+          },
+          body: JSON.stringify(documentNames),
+          signal: options.signal,
+        },
+        retry(options, IDEMPOTENT_RETRY_POLICY)
+      ),
+  }
+}
+
+/**
+ * The provider selected by `AGENT_PROVIDER`
+ */
+export function getAgentProvider(): AgentProvider {
+  const name = (process.env.AGENT_PROVIDER || 'lyzr').trim().toLowerCase()
+  if (name === 'mock') return createMockProvider()
+  if (name !== 'lyzr') {
+    return {
+      ...createLyzrProvider(),
+      getConfigError: () => `Unknown AGENT_PROVIDER "${name}"; expected "lyzr" or "mock"`,
+    }
+  }
+  return createLyzrProvider()
+}
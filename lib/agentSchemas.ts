@@ -0,0 +1,270 @@
+/**
+ * Agent Response Schemas
+ *
+ * Runtime validation of the Manager, Data Surgeon and Strategist outputs
+ * (see `response_schemas/`). Every schema is built twice from one
+ * definition: a strict copy that reports what is wrong, and a lenient copy
+ * that fills anything missing or malformed with an empty default so the
+ * dashboard can still render what did arrive.
+ *
+ * @example
+ * ```ts
+ * import { validateAgentResult } from '@/lib/agentSchemas'
+ *
+ * const { data, report } = validateAgentResult('manager', result.response.result)
+ * if (!report.valid) console.warn(report.issues)
+ * ```
+ */
+
+import { z } from 'zod'
+import type { CategorySummary, DashboardData, HabitAudit, MerchantBreakdown } from '@/lib/dashboardTypes'
+import type { Transaction } from '@/lib/transactions'
+
+// Types
+export type AgentKind = 'manager' | 'data_surgeon' | 'strategist'
+
+export interface SchemaIssue {
+  /** Dotted path of the field, e.g. `dashboard_data.habit_audit` */
+  path: string
+  message: string
+}
+
+export interface AgentValidationReport {
+  agent: AgentKind
+  valid: boolean
+  issues: SchemaIssue[]
+  /** Fields the agent left out entirely; their sections render as unavailable */
+  missing: string[]
+}
+
+export interface ManagerResult {
+  workflow_status?: string
+  dashboard_data?: DashboardData
+  query_response?: string
+  insights?: string[]
+  response?: string
+  action_taken?: string
+  suggestions?: string[]
+  /** Chart, table or KPI for a chat answer; checked by `parseChatPayload` */
+  visualization?: unknown
+}
+
+export interface DataSurgeonResult {
+  cleaned_transactions: { date: string; merchant: string; amount: number; currency: string }[]
+  summary: { total_entries: number; cleaned_entries: number; filtered_out: number }
+}
+
+export interface StrategistResult {
+  categorized_transactions: Transaction[]
+  category_breakdown: Record<string, CategorySummary>
+  merchant_breakdown: MerchantBreakdown[]
+  habit_audit: HabitAudit
+  financial_alignment_score: number
+  insights: string[]
+  recommendations: string[]
+}
+
+export interface ValidatedAgentResult<T> {
+  data: T
+  report: AgentValidationReport
+}
+
+export const AGENT_LABELS: Record<AgentKind, string> = {
+  manager: 'FinOS Manager',
+  data_surgeon: 'Data Surgeon',
+  strategist: 'Strategist',
+}
+
+const EMPTY_HABIT_AUDIT: HabitAudit = {
+  impulsive_purchases: { count: 0, total_amount: 0, description: '' },
+  high_cost_dining: { count: 0, total_amount: 0, description: '' },
+  subscription_analysis: { total_subscriptions: 0, monthly_cost: 0, redundant_subscriptions: [] },
+  cut_back_opportunities: [],
+}
+
+/**
+ * Build the schemas. In lenient mode every field falls back to an empty
+ * value instead of failing, and bad array items are dropped.
+ */
+function buildSchemas(lenient: boolean) {
+  const field = <T extends z.ZodTypeAny>(schema: T, fallback: z.output<T>) =>
+    lenient ? schema.catch(fallback) : schema
+
+  const arrayOf = <T extends z.ZodTypeAny>(item: T) =>
+    lenient
+      ? z
+          .array(z.unknown())
+          .transform((items) =>
+            items.flatMap((value) => {
+              const parsed = item.safeParse(value)
+              return parsed.success ? [parsed.data as z.output<T>] : []
+            })
+          )
+          .catch([])
+      : z.array(item)
+
+  const str = field(z.string(), '')
+  // Numeric strings such as "1249.00" are read as numbers when lenient
+  const num = lenient ? z.coerce.number().catch(0) : z.number()
+  const strings = arrayOf(z.string())
+
+  const transaction = z.object({
+    date: str,
+    merchant: str,
+    amount: num,
+    category: str,
+    subcategory: str,
+  })
+
+  const categorySummary = z.object({
+    total_amount: num,
+    percentage: num,
+    transaction_count: num,
+  })
+  const categorySummaries = field(z.record(z.string(), categorySummary), {})
+
+  const merchantBreakdown = z.object({
+    merchant: str,
+    category: str,
+    total_amount: num,
+    transaction_count: num,
+    percentage_of_category: num,
+    insights: str,
+  })
+
+  const habitAudit = field(
+    z.object({
+      impulsive_purchases: field(
+        z.object({ count: num, total_amount: num, description: str }),
+        EMPTY_HABIT_AUDIT.impulsive_purchases
+      ),
+      high_cost_dining: field(
+        z.object({ count: num, total_amount: num, description: str }),
+        EMPTY_HABIT_AUDIT.high_cost_dining
+      ),
+      subscription_analysis: field(
+        z.object({ total_subscriptions: num, monthly_cost: num, redundant_subscriptions: strings }),
+        EMPTY_HABIT_AUDIT.subscription_analysis
+      ),
+      cut_back_opportunities: arrayOf(
+        z.object({
+          area: str,
+          current_spend: num,
+          recommended_spend: num,
+          potential_savings: num,
+          actionable_advice: str,
+        })
+      ),
+    }),
+    EMPTY_HABIT_AUDIT
+  )
+
+  const dashboardData = z.object({
+    financial_alignment_score: num,
+    total_transactions: num,
+    total_amount: num,
+    category_summary: categorySummaries,
+    merchant_breakdown: arrayOf(merchantBreakdown),
+    habit_audit: habitAudit,
+    transactions: arrayOf(transaction),
+    insights: strings,
+    recommendations: strings,
+  })
+
+  const manager = z.object({
+    workflow_status: field(z.string().optional(), undefined),
+    dashboard_data: field(dashboardData.optional(), undefined),
+    query_response: field(z.string().optional(), undefined),
+    insights: field(z.array(z.string()).optional(), undefined),
+    // Generic shape used for plain chat replies
+    response: field(z.string().optional(), undefined),
+    action_taken: field(z.string().optional(), undefined),
+    suggestions: field(z.array(z.string()).optional(), undefined),
+    visualization: z.unknown().optional(),
+  })
+
+  const dataSurgeon = z.object({
+    cleaned_transactions: arrayOf(
+      z.object({
+        date: str,
+        merchant: str,
+        amount: num,
+        currency: field(z.string(), 'INR'),
+      })
+    ),
+    summary: field(
+      z.object({ total_entries: num, cleaned_entries: num, filtered_out: num }),
+      { total_entries: 0, cleaned_entries: 0, filtered_out: 0 }
+    ),
+  })
+
+  const strategist = z.object({
+    categorized_transactions: arrayOf(transaction),
+    category_breakdown: categorySummaries,
+    merchant_breakdown: arrayOf(merchantBreakdown),
+    habit_audit: habitAudit,
+    financial_alignment_score: num,
+    insights: strings,
+    recommendations: strings,
+  })
+
+  return { manager, data_surgeon: dataSurgeon, strategist }
+}
+
+const STRICT = buildSchemas(false)
+const LENIENT = buildSchemas(true)
+
+interface AgentResults {
+  manager: ManagerResult
+  data_surgeon: DataSurgeonResult
+  strategist: StrategistResult
+}
+
+const formatPath = (path: (string | number)[]) => path.map(String).join('.') || '(root)'
+// Array items share one entry in the report: `transactions.*.category`
+const groupPath = (path: (string | number)[]) =>
+  formatPath(path.map((part) => (typeof part === 'number' ? '*' : part)))
+
+/**
+ * Validate an agent's `result` payload. Always returns usable data; the
+ * report says what was wrong or missing.
+ */
+export function validateAgentResult<K extends AgentKind>(agent: K, result: unknown): ValidatedAgentResult<AgentResults[K]> {
+  const input = result && typeof result === 'object' ? result : {}
+  const strict = STRICT[agent].safeParse(input)
+  const grouped = new Map<string, { message: string; count: number }>()
+  const missing: string[] = []
+
+  if (!strict.success) {
+    for (const issue of strict.error.issues) {
+      const isMissing = issue.code === 'invalid_type' && issue.received === 'undefined'
+      if (isMissing) missing.push(formatPath(issue.path))
+
+      const path = groupPath(issue.path)
+      const entry = grouped.get(path) || { message: isMissing ? 'Missing' : issue.message, count: 0 }
+      entry.count++
+      grouped.set(path, entry)
+    }
+  }
+
+  const issues: SchemaIssue[] = Array.from(grouped.entries()).map(([path, entry]) => ({
+    path,
+    message: entry.count > 1 ? `${entry.message} (${entry.count} items)` : entry.message,
+  }))
+  if (!result || typeof result !== 'object') {
+    issues.unshift({ path: '(root)', message: 'Response is not a JSON object' })
+  }
+
+  return {
+    data: (strict.success ? strict.data : LENIENT[agent].parse(input)) as AgentResults[K],
+    report: { agent, valid: issues.length === 0, issues, missing },
+  }
+}
+
+/**
+ * Whether a section arrived, i.e. neither it nor any parent is missing
+ */
+export function isSectionAvailable(report: AgentValidationReport | null, path: string): boolean {
+  if (!report) return true
+  return !report.missing.some((missing) => path === missing || path.startsWith(`${missing}.`))
+}
@@ -14,10 +14,16 @@
  * if (result.success) {
  *   console.log(result.response.result)
  * }
+ *
+ * // Or receive the reply as it is written
+ * await callAIAgentStream('Hello!', 'agent-id', {
+ *   onChunk: (_chunk, text) => setDraft(text),
+ * })
  * ```
  */
 
 import { useState } from 'react'
+import { createSSEParser } from '@/lib/sse'
 
 // Types
 export interface NormalizedAgentResponse {
@@ -43,6 +49,19 @@ export interface AIAgentResponse {
   details?: string
 }
 
+export interface AgentCallOptions {
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  /** Aborting cancels the request; the call then resolves with `error: 'Request cancelled'` */
+  signal?: AbortSignal
+}
+
+export interface AgentStreamOptions extends AgentCallOptions {
+  /** Called for every piece of the reply, with the text received so far */
+  onChunk?: (chunk: string, text: string) => void
+}
+
 export interface UploadedFile {
   asset_id: string
   file_name: string
@@ -68,7 +87,7 @@ export interface UploadResponse {
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
+  options?: AgentCallOptions
 ): Promise<AIAgentResponse> {
   try {
     const response = await fetch('/api/agent', {
@@ -83,27 +102,94 @@ export async function callAIAgent(
         session_id: options?.session_id,
         assets: options?.assets,
       }),
+      signal: options?.signal,
     })
 
     const data = await response.json()
     return data
   } catch (error) {
-    return {
-      success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: error instanceof Error ? error.message : 'Network error',
+    return failedResponse(error, options?.signal)
+  }
+}
+
+/**
+ * Call the AI Agent through the streaming API route. Resolves with the same
+ * response as `callAIAgent` once the agent has finished.
+ */
+export async function callAIAgentStream(
+  message: string,
+  agent_id: string,
+  options?: AgentStreamOptions
+): Promise<AIAgentResponse> {
+  try {
+    const response = await fetch('/api/agent/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
       },
-      error: error instanceof Error ? error.message : 'Network error',
+      body: JSON.stringify({
+        message,
+        agent_id,
+        user_id: options?.user_id,
+        session_id: options?.session_id,
+        assets: options?.assets,
+      }),
+      signal: options?.signal,
+    })
+
+    // Errors raised before streaming starts come back as plain JSON
+    const contentType = response.headers.get('content-type') || ''
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      return await response.json()
     }
+
+    let text = ''
+    let final: AIAgentResponse | null = null
+    const parser = createSSEParser((event) => {
+      if (event.event === 'chunk') {
+        const chunk: string = JSON.parse(event.data).text || ''
+        text += chunk
+        options?.onChunk?.(chunk, text)
+      } else if (event.event === 'done' || event.event === 'error') {
+        final = JSON.parse(event.data)
+      }
+    })
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      parser.push(decoder.decode(value, { stream: true }))
+    }
+    parser.flush()
+
+    return final || failedResponse(new Error('The stream ended before the agent finished'))
+  } catch (error) {
+    return failedResponse(error, options?.signal)
+  }
+}
+
+function failedResponse(error: unknown, signal?: AbortSignal): AIAgentResponse {
+  const message = signal?.aborted ? 'Request cancelled' : error instanceof Error ? error.message : 'Network error'
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message,
+    },
+    error: message,
   }
 }
 
 /**
  * Upload files via server-side API route
  */
-export async function uploadFiles(files: File | File[]): Promise<UploadResponse> {
+export async function uploadFiles(
+  files: File | File[],
+  options?: { signal?: AbortSignal }
+): Promise<UploadResponse> {
   const fileArray = Array.isArray(files) ? files : [files]
 
   if (fileArray.length === 0) {
@@ -129,6 +215,7 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
     const response = await fetch('/api/upload', {
       method: 'POST',
       body: formData,
+      signal: options?.signal,
     })
 
     const data = await response.json()
@@ -156,11 +243,7 @@ export function useAIAgent() {
   const [error, setError] = useState<string | null>(null)
   const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
 
-  const callAgent = async (
-    message: string,
-    agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
-  ) => {
+  const callAgent = async (message: string, agent_id: string, options?: AgentCallOptions) => {
     setLoading(true)
     setError(null)
     setResponse(null)
@@ -0,0 +1,179 @@
+'use client'
+
+/**
+ * Shared Analyses Client Utility
+ *
+ * Client-side wrapper for `/api/analyses`, where analyses are shared with
+ * the team. A shared analysis opens at `/?analysis=<id>`; sharing the same
+ * run again updates it in place. Sharing returns an edit token, kept in
+ * localStorage, which updating and deleting send along, so only the browser
+ * that shared an analysis can change it.
+ *
+ * @example
+ * ```ts
+ * import { getAnalysisLink, shareAnalysis } from '@/lib/analysisApi'
+ *
+ * const result = await shareAnalysis(record)
+ * if (result.success) copyToClipboard(getAnalysisLink(result.analysis.id))
+ * ```
+ */
+
+import { EDIT_TOKEN_HEADER, type AnalysisInput, type AnalysisRecord, type AnalysisSummary } from '@/lib/analysisStore'
+
+// Types
+export interface ListAnalysesResponse {
+  success: boolean
+  analyses?: AnalysisSummary[]
+  error?: string
+  timestamp?: string
+  /** HTTP status; missing when the server was never reached */
+  status?: number
+}
+
+export interface AnalysisResponse {
+  success: boolean
+  analysis?: AnalysisRecord
+  /** Given once, when the analysis is first shared */
+  editToken?: string
+  error?: string
+  timestamp?: string
+  /** HTTP status; missing when the server was never reached */
+  status?: number
+}
+
+export interface DeleteAnalysisResponse {
+  success: boolean
+  message?: string
+  id?: string
+  error?: string
+  timestamp?: string
+  /** HTTP status; missing when the server was never reached */
+  status?: number
+}
+
+/** Query parameter the page opens a shared analysis from */
+export const ANALYSIS_QUERY_PARAM = 'analysis'
+
+const STORAGE_KEY = 'finos_share_tokens'
+
+function loadEditTokens(): Record<string, string> {
+  if (typeof window === 'undefined') return {}
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}')
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+function saveEditToken(id: string, token: string | null): void {
+  if (typeof window === 'undefined') return
+  const tokens = loadEditTokens()
+  if (token) tokens[id] = token
+  else delete tokens[id]
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens))
+  } catch (error) {
+    console.error('Failed to save share token:', error)
+  }
+}
+
+const editHeaders = (id: string): Record<string, string> => {
+  const token = loadEditTokens()[id]
+  return token ? { [EDIT_TOKEN_HEADER]: token } : {}
+}
+
+/**
+ * Whether this browser shared the analysis, and so may update or delete it
+ */
+export function canEditSharedAnalysis(id: string): boolean {
+  return Boolean(loadEditTokens()[id])
+}
+
+async function request<T extends { success: boolean; error?: string }>(url: string, init?: RequestInit): Promise<T> {
+  try {
+    const response = await fetch(url, init)
+    return { ...(await response.json()), status: response.status } as T
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    } as T
+  }
+}
+
+/**
+ * List the analyses shared with the team
+ */
+export async function listSharedAnalyses(options?: { signal?: AbortSignal }): Promise<ListAnalysesResponse> {
+  return request('/api/analyses', { method: 'GET', signal: options?.signal })
+}
+
+/**
+ * Get a shared analysis with its dashboard, transactions and chat
+ */
+export async function getSharedAnalysis(id: string, options?: { signal?: AbortSignal }): Promise<AnalysisResponse> {
+  return request(`/api/analyses/${encodeURIComponent(id)}`, { method: 'GET', signal: options?.signal })
+}
+
+/**
+ * Share an analysis; the server gives the copy its own id, and the edit
+ * token it returns is kept for later updates
+ */
+export async function shareAnalysis(
+  record: AnalysisInput | AnalysisRecord,
+  options?: { signal?: AbortSignal }
+): Promise<AnalysisResponse> {
+  const result = await request<AnalysisResponse>('/api/analyses', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(record),
+    signal: options?.signal,
+  })
+  if (result.success && result.analysis && result.editToken) saveEditToken(result.analysis.id, result.editToken)
+  return result
+}
+
+/**
+ * Replace a shared analysis with a newer version of the same run, keeping
+ * its id and link
+ */
+export async function updateSharedAnalysis(
+  id: string,
+  record: AnalysisInput | AnalysisRecord,
+  options?: { signal?: AbortSignal }
+): Promise<AnalysisResponse> {
+  return request(`/api/analyses/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...editHeaders(id) },
+    body: JSON.stringify(record),
+    signal: options?.signal,
+  })
+}
+
+/**
+ * Delete a shared analysis this browser shared
+ */
+export async function deleteSharedAnalysis(
+  id: string,
+  options?: { signal?: AbortSignal }
+): Promise<DeleteAnalysisResponse> {
+  const result = await request<DeleteAnalysisResponse>(`/api/analyses/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: editHeaders(id),
+    signal: options?.signal,
+  })
+  if (result.success || result.status === 404) saveEditToken(id, null)
+  return result
+}
+
+/**
+ * Link that opens a shared analysis on this page
+ */
+export function getAnalysisLink(id: string): string {
+  const url = new URL(window.location.href)
+  url.search = ''
+  url.hash = ''
+  url.searchParams.set(ANALYSIS_QUERY_PARAM, id)
+  return url.toString()
+}
@@ -0,0 +1,107 @@
+/**
+ * Analysis Progress
+ *
+ * Step-by-step progress of an analysis run. Steps are started and finished
+ * by the code doing the work, so the UI shows what is actually running,
+ * how long it has taken and where a run failed or was cancelled.
+ *
+ * @example
+ * ```ts
+ * import { MANAGER_STEPS, createProgressTracker } from '@/lib/analysisProgress'
+ *
+ * const progress = createProgressTracker(MANAGER_STEPS, setSteps)
+ * progress.start('prepare')
+ * progress.finish('prepare', '42 transactions')
+ * ```
+ */
+
+// Types
+export type AnalysisStepId = 'prepare' | 'clean' | 'categorize' | 'analyze' | 'verify'
+export type AnalysisStepStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled' | 'skipped'
+
+export interface AnalysisStep {
+  id: AnalysisStepId
+  status: AnalysisStepStatus
+  /** Epoch milliseconds */
+  startedAt?: number
+  finishedAt?: number
+  /** Short outcome, e.g. `3 figures disagree` */
+  detail?: string
+  error?: string
+}
+
+export interface ProgressTracker {
+  start: (id: AnalysisStepId) => void
+  finish: (id: AnalysisStepId, detail?: string) => void
+  /** Mark a step failed; the steps after it will not run */
+  fail: (id: AnalysisStepId, error: string) => void
+  /** Stop the running step; the steps after it will not run */
+  cancel: () => void
+  steps: () => AnalysisStep[]
+}
+
+export const ANALYSIS_STEP_LABELS: Record<AnalysisStepId, string> = {
+  prepare: 'Preparing transactions',
+  clean: 'Cleaning data (Data Surgeon)',
+  categorize: 'Categorizing transactions (Strategist)',
+  analyze: 'Cleaning, categorizing and scoring (FinOS Manager)',
+  verify: 'Verifying figures',
+}
+
+/** One manager call does the cleaning, categorizing and scoring */
+export const MANAGER_STEPS: AnalysisStepId[] = ['prepare', 'analyze', 'verify']
+export const PIPELINE_STEPS: AnalysisStepId[] = ['prepare', 'clean', 'categorize', 'verify']
+
+/**
+ * Track a run through the given steps. `onChange` receives a fresh copy of
+ * every step on each change.
+ */
+export function createProgressTracker(
+  ids: AnalysisStepId[],
+  onChange?: (steps: AnalysisStep[]) => void
+): ProgressTracker {
+  let steps: AnalysisStep[] = ids.map((id) => ({ id, status: 'pending' }))
+
+  const update = (id: AnalysisStepId, patch: Partial<AnalysisStep>) => {
+    steps = steps.map((step) => (step.id === id ? { ...step, ...patch } : step))
+  }
+  const emit = () => onChange?.(steps.map((step) => ({ ...step })))
+  const skipPending = () => {
+    steps = steps.map((step) => (step.status === 'pending' ? { ...step, status: 'skipped' } : step))
+  }
+
+  return {
+    start: (id) => {
+      update(id, { status: 'running', startedAt: Date.now() })
+      emit()
+    },
+    finish: (id, detail) => {
+      update(id, { status: 'done', finishedAt: Date.now(), detail })
+      emit()
+    },
+    fail: (id, error) => {
+      update(id, { status: 'failed', finishedAt: Date.now(), error })
+      skipPending()
+      emit()
+    },
+    cancel: () => {
+      const running = steps.find((step) => step.status === 'running')
+      if (running) update(running.id, { status: 'cancelled', finishedAt: Date.now() })
+      skipPending()
+      emit()
+    },
+    steps: () => steps.map((step) => ({ ...step })),
+  }
+}
+
+/**
+ * Time spent in a step so far, or in total once it has finished
+ */
+export function getStepElapsed(step: AnalysisStep, now = Date.now()): number {
+  if (!step.startedAt) return 0
+  return (step.finishedAt ?? now) - step.startedAt
+}
+
+export function getFailedStep(steps: AnalysisStep[]): AnalysisStep | null {
+  return steps.find((step) => step.status === 'failed') || null
+}
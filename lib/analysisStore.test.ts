@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_ANALYSIS_BYTES,
+  createAnalysisRecord,
+  parseAnalysisInput,
+  parseAnalysisRecord,
+  readAnalysisInput,
+  summarizeAnalysis,
+} from '@/lib/analysisStore'
+import type { AnalysisInput } from '@/lib/analysisStore'
+
+const input = (): AnalysisInput => ({
+  file: { name: 'statement.csv', size: 1200, format: 'csv' },
+  rows: { analyzed: 2, total: 2 },
+  transactions: [
+    {
+      date: '2024-01-05',
+      merchant: 'Swiggy',
+      amount: 450,
+      category: '',
+      subcategory: '',
+      direction: 'debit',
+      currency: 'INR',
+      sourceRow: 1,
+      rawDate: '05/01/2024',
+    },
+  ],
+  agent: { mode: 'manager', agentIds: ['manager'], steps: [{ id: 'prepare', status: 'done', detail: '1 transaction' }] },
+  dashboard: {
+    financial_alignment_score: 70,
+    total_transactions: 2,
+    total_amount: 1450.25,
+    category_summary: { dining: { total_amount: 450, percentage: 31.03, transaction_count: 1 } },
+    merchant_breakdown: [],
+    habit_audit: {
+      impulsive_purchases: { count: 0, total_amount: 0, description: '' },
+      high_cost_dining: { count: 0, total_amount: 0, description: '' },
+      subscription_analysis: { total_subscriptions: 0, monthly_cost: 0, redundant_subscriptions: [] },
+      cut_back_opportunities: [],
+    },
+    transactions: [
+      { date: '2024-01-05', merchant: 'Swiggy', amount: 450, category: 'lifestyle', subcategory: 'dining' },
+      { date: '2024-01-06', merchant: 'Rent', amount: 1000.25, category: 'survival', subcategory: 'rent' },
+    ],
+    insights: [],
+    recommendations: [],
+  },
+  report: { agent: 'manager', valid: true, issues: [], missing: [] },
+  insights: ['Dining is a third of spending'],
+  chat: [
+    { role: 'user', content: 'Top merchant?' },
+    {
+      role: 'assistant',
+      content: 'Rent',
+      computedLocally: true,
+      payload: { type: 'kpi', label: 'Rent', value: 1000.25, format: 'currency' },
+    },
+  ],
+  chatSessionId: 'manager-123456789012',
+})
+
+describe('parseAnalysisInput', () => {
+  it('accepts a record the page saved', () => {
+    const { input: parsed, error } = parseAnalysisInput(input())
+
+    expect(error).toBeNull()
+    expect(parsed).toEqual(input())
+  })
+
+  it('strips fields the page never reads', () => {
+    const raw = { ...input(), extra: 'x', file: { ...input().file, owner: 'someone' } }
+
+    const { input: parsed } = parseAnalysisInput(raw)
+
+    expect(parsed).not.toHaveProperty('extra')
+    expect(parsed.file).not.toHaveProperty('owner')
+  })
+
+  it('drops a chat payload that would not render', () => {
+    const raw = input()
+    raw.chat[1] = { ...raw.chat[1], payload: { type: 'chart', chart: 'bar', xKey: 'x;}', series: [], data: [] } as never }
+
+    const { input: parsed, error } = parseAnalysisInput(raw)
+
+    expect(error).toBeNull()
+    expect(parsed.chat[1].payload).toBeNull()
+    expect(parsed.chat[1].content).toBe('Rent')
+  })
+
+  it('fills malformed dashboard sections with empty values', () => {
+    const raw = input()
+    const dashboard = { ...raw.dashboard, merchant_breakdown: 'none', habit_audit: null, transactions: ['Swiggy 450'] }
+
+    const { input: parsed } = parseAnalysisInput({ ...raw, dashboard })
+
+    expect(parsed.dashboard.merchant_breakdown).toEqual([])
+    expect(parsed.dashboard.habit_audit.cut_back_opportunities).toEqual([])
+    expect(parsed.dashboard.transactions).toEqual([])
+  })
+
+  it('rejects a dashboard that is not an object', () => {
+    expect(parseAnalysisInput({ ...input(), dashboard: 'dashboard' }).error).toMatch(/^dashboard:/)
+  })
+
+  it('names the first bad field', () => {
+    const raw = input()
+    raw.chat[0] = { role: 'system', content: 'hi' } as never
+
+    expect(parseAnalysisInput(raw).error).toMatch(/^chat\.0\.role:/)
+  })
+})
+
+describe('parseAnalysisRecord', () => {
+  it('accepts a record with its id and timestamps', () => {
+    const record = createAnalysisRecord(input())
+
+    expect(parseAnalysisRecord(record).record).toEqual(record)
+  })
+
+  it('rejects an id the store would not have made', () => {
+    const record = { ...createAnalysisRecord(input()), id: '../secrets' }
+
+    expect(parseAnalysisRecord(record).error).toMatch(/^id:/)
+  })
+})
+
+describe('readAnalysisInput', () => {
+  const post = (body: string, headers: Record<string, string> = {}) =>
+    new Request('http://localhost/api/analyses', { method: 'POST', body, headers })
+
+  it('reads a valid body', async () => {
+    const { input: parsed, status } = await readAnalysisInput(post(JSON.stringify(input())))
+
+    expect(status).toBe(200)
+    expect(parsed.chatSessionId).toBe('manager-123456789012')
+  })
+
+  it('refuses a body over the limit by its Content-Length or its length', async () => {
+    const declared = await readAnalysisInput(post('{}', { 'content-length': String(MAX_ANALYSIS_BYTES + 1) }))
+    const actual = await readAnalysisInput(post(JSON.stringify({ ...input(), insights: ['x'.repeat(MAX_ANALYSIS_BYTES)] })))
+
+    expect(declared.status).toBe(413)
+    expect(actual.status).toBe(413)
+  })
+
+  it('answers 400 for a body that is not a valid analysis', async () => {
+    expect(await readAnalysisInput(post('not json'))).toMatchObject({ status: 400, error: 'Request body must be JSON' })
+    expect((await readAnalysisInput(post('{}'))).error).toMatch(/^Invalid analysis: /)
+  })
+})
+
+describe('summarizeAnalysis', () => {
+  it('sums spending exactly and counts the questions asked', () => {
+    const summary = summarizeAnalysis(createAnalysisRecord(input()))
+
+    expect(summary).toMatchObject({ transactionCount: 2, totalAmount: 1450.25, questionCount: 1 })
+  })
+})
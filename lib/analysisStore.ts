@@ -0,0 +1,385 @@
+/**
+ * Analysis Store
+ *
+ * Keeps each analysis run — the source file's metadata, the agent's
+ * dashboard and validation report, insights and the chat transcript — so a
+ * reload or a later visit can reopen it. `AnalysisStore` is the interface;
+ * in the browser runs are kept in IndexedDB, and runs shared with the team
+ * go to the server's store behind `/api/analyses`.
+ *
+ * @example
+ * ```ts
+ * import { createAnalysisRecord, getAnalysisStore } from '@/lib/analysisStore'
+ *
+ * const store = getAnalysisStore()
+ * const record = createAnalysisRecord({ file, rows, dashboard, report, insights, chat: [], chatSessionId })
+ * await store.save(record)
+ * const history = await store.list() // newest first
+ * ```
+ */
+
+import { z } from 'zod'
+import { generateUUID } from '@/lib/utils'
+import { validateAgentResult, type AgentValidationReport } from '@/lib/agentSchemas'
+import type { AnalysisStep } from '@/lib/analysisProgress'
+import { parseChatPayload } from '@/lib/chatPayload'
+import type { ChatMessage } from '@/lib/chatTranscript'
+import type { DashboardData } from '@/lib/dashboardTypes'
+import type { StatementFormat } from '@/lib/statementImport'
+import { isCredit, type NormalizedTransaction } from '@/lib/transactions'
+
+// Types
+export interface AnalysisFileInfo {
+  name: string
+  /** Size in bytes */
+  size: number
+  format: StatementFormat | null
+  /** Worksheet the rows came from, for workbooks */
+  sheet?: string
+}
+
+export interface AnalysisAgentInfo {
+  /** One FinOS Manager call, or the Data Surgeon → Strategist pipeline */
+  mode: 'manager' | 'pipeline'
+  agentIds: string[]
+  steps: AnalysisStep[]
+}
+
+export interface AnalysisRecord {
+  id: string
+  /** ISO timestamps */
+  createdAt: string
+  updatedAt: string
+  file: AnalysisFileInfo | null
+  /** Rows analyzed out of the rows in the statement */
+  rows: { analyzed: number; total: number } | null
+  /** Rows sent to the agents; missing from runs saved before it was kept */
+  transactions?: NormalizedTransaction[]
+  agent?: AnalysisAgentInfo
+  /** The agent's dashboard before the user's category rules are applied */
+  dashboard: DashboardData
+  report: AgentValidationReport
+  insights: string[]
+  chat: ChatMessage[]
+  chatSessionId: string
+  /** Id of the team's copy once this browser has shared the run */
+  sharedId?: string
+}
+
+/**
+ * What the history list shows, without the full dashboard
+ */
+export interface AnalysisSummary {
+  id: string
+  createdAt: string
+  updatedAt: string
+  file: AnalysisFileInfo | null
+  transactionCount: number
+  totalAmount: number
+  /** Questions asked in the chat */
+  questionCount: number
+}
+
+export interface AnalysisStore {
+  /** Most recently updated first */
+  list(): Promise<AnalysisSummary[]>
+  get(id: string): Promise<AnalysisRecord | null>
+  /** Insert, or replace the record with the same id */
+  save(record: AnalysisRecord): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+/**
+ * A record's fields before it is given an id and timestamps
+ */
+export type AnalysisInput = Omit<AnalysisRecord, 'id' | 'createdAt' | 'updatedAt'>
+
+export interface IndexedDbStoreOptions {
+  databaseName?: string
+  /** Older runs are dropped once there are more than this many */
+  maxRecords?: number
+}
+
+export const MAX_STORED_ANALYSES = 25
+/** Header carrying the edit token a shared analysis was created with */
+export const EDIT_TOKEN_HEADER = 'X-Analysis-Edit-Token'
+/** Largest analysis the server accepts, in bytes of JSON */
+export const MAX_ANALYSIS_BYTES = 2 * 1024 * 1024
+
+const DATABASE_NAME = 'finos'
+const DATABASE_VERSION = 1
+const RECORDS = 'analyses'
+const SUMMARIES = 'analysis_summaries'
+
+/**
+ * A new record with a fresh id and timestamps
+ */
+export function createAnalysisRecord(fields: AnalysisInput): AnalysisRecord {
+  const now = new Date().toISOString()
+  return { ...fields, id: generateUUID(), createdAt: now, updatedAt: now }
+}
+
+// Ids come from generateUUID; anything else could name a path outside the store
+const ANALYSIS_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+export function isAnalysisId(id: string): boolean {
+  return ANALYSIS_ID.test(id)
+}
+
+const normalizedTransactionSchema = z.object({
+  date: z.string(),
+  merchant: z.string(),
+  amount: z.number(),
+  category: z.string(),
+  subcategory: z.string(),
+  direction: z.enum(['debit', 'credit']),
+  currency: z.string(),
+  sourceRow: z.number(),
+  rawDate: z.string(),
+})
+
+const stepSchema = z.object({
+  id: z.enum(['prepare', 'clean', 'categorize', 'analyze', 'verify']),
+  status: z.enum(['pending', 'running', 'done', 'failed', 'cancelled', 'skipped']),
+  startedAt: z.number().optional(),
+  finishedAt: z.number().optional(),
+  detail: z.string().optional(),
+  error: z.string().optional(),
+})
+
+const chatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  streaming: z.boolean().optional(),
+  cancelled: z.boolean().optional(),
+  failed: z.boolean().optional(),
+  contextSlices: z
+    .array(
+      z.object({
+        id: z.enum(['overview', 'categories', 'merchants', 'transactions']),
+        label: z.string(),
+        detail: z.string(),
+      })
+    )
+    .optional(),
+  computedLocally: z.boolean().optional(),
+  // A payload that would not render is dropped rather than failing the record
+  payload: z.unknown().optional().transform((payload) => (payload == null ? payload : parseChatPayload(payload))),
+})
+
+// Unknown fields are stripped; the dashboard is re-read through the manager's
+// lenient schema, so every section the page renders has the expected shape
+const analysisInputSchema = z.object({
+  file: z
+    .object({
+      name: z.string(),
+      size: z.number(),
+      format: z.enum(['csv', 'xlsx', 'ofx', 'mt940']).nullable(),
+      sheet: z.string().optional(),
+    })
+    .nullable(),
+  rows: z.object({ analyzed: z.number(), total: z.number() }).nullable(),
+  transactions: z.array(normalizedTransactionSchema).optional(),
+  agent: z
+    .object({ mode: z.enum(['manager', 'pipeline']), agentIds: z.array(z.string()), steps: z.array(stepSchema) })
+    .optional(),
+  dashboard: z
+    .record(z.string(), z.unknown())
+    .transform((dashboard) => validateAgentResult('manager', { dashboard_data: dashboard }).data.dashboard_data),
+  report: z.object({
+    agent: z.enum(['manager', 'data_surgeon', 'strategist']),
+    valid: z.boolean(),
+    issues: z.array(z.object({ path: z.string(), message: z.string() })),
+    missing: z.array(z.string()),
+  }),
+  insights: z.array(z.string()),
+  chat: z.array(chatMessageSchema),
+  chatSessionId: z.string(),
+})
+
+const analysisRecordSchema = analysisInputSchema.extend({
+  id: z.string().regex(ANALYSIS_ID),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+const firstIssue = (error: z.ZodError) => {
+  const issue = error.issues[0]
+  return `${issue.path.join('.') || 'body'}: ${issue.message}`
+}
+
+/**
+ * Check an analysis sent to the server. Returns the input, or the first
+ * problem found.
+ */
+export function parseAnalysisInput(raw: unknown): { input: AnalysisInput | null; error: string | null } {
+  const parsed = analysisInputSchema.safeParse(raw)
+  if (parsed.success) {
+    // Inferred fields are all optional without strict null checks
+    return { input: parsed.data as unknown as AnalysisInput, error: null }
+  }
+  return { input: null, error: firstIssue(parsed.error) }
+}
+
+/**
+ * Read and check an analysis from a request body, refusing bodies over
+ * `MAX_ANALYSIS_BYTES`. `status` is the HTTP status to answer a failure with.
+ */
+export async function readAnalysisInput(
+  request: Request
+): Promise<{ input: AnalysisInput | null; error: string | null; status: number }> {
+  const tooLarge = { input: null, error: `Analysis is larger than ${MAX_ANALYSIS_BYTES / 1024 / 1024} MB`, status: 413 }
+  // Content-Length can be missing or wrong, so the body read is measured too
+  if (Number(request.headers.get('content-length')) > MAX_ANALYSIS_BYTES) return tooLarge
+  const text = await request.text()
+  if (new TextEncoder().encode(text).length > MAX_ANALYSIS_BYTES) return tooLarge
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return { input: null, error: 'Request body must be JSON', status: 400 }
+  }
+  const { input, error } = parseAnalysisInput(body)
+  return input ? { input, error: null, status: 200 } : { input: null, error: `Invalid analysis: ${error}`, status: 400 }
+}
+
+/**
+ * Check a stored or shared record before it is shown. Returns the record,
+ * or the first problem found.
+ */
+export function parseAnalysisRecord(raw: unknown): { record: AnalysisRecord | null; error: string | null } {
+  const parsed = analysisRecordSchema.safeParse(raw)
+  if (parsed.success) {
+    // Inferred fields are all optional without strict null checks
+    return { record: parsed.data as unknown as AnalysisRecord, error: null }
+  }
+  return { record: null, error: firstIssue(parsed.error) }
+}
+
+/**
+ * List entry for a record; the spending total is summed in paise so it is
+ * exact, and credits are left out of it as on the dashboard
+ */
+export function summarizeAnalysis(record: AnalysisRecord): AnalysisSummary {
+  const transactions = (record.dashboard.transactions || []).filter((txn) => !isCredit(txn))
+  const paise = transactions.reduce((sum, txn) => sum + Math.round(Math.abs(Number(txn.amount) || 0) * 100), 0)
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    file: record.file,
+    transactionCount: transactions.length,
+    totalAmount: paise / 100,
+    questionCount: record.chat.filter((turn) => turn.role === 'user').length,
+  }
+}
+
+const newestFirst = (a: AnalysisSummary, b: AnalysisSummary) => b.updatedAt.localeCompare(a.updatedAt)
+
+/**
+ * A store that lasts as long as the page; used where IndexedDB is missing
+ */
+export function createMemoryAnalysisStore(): AnalysisStore {
+  const records = new Map<string, AnalysisRecord>()
+
+  return {
+    async list() {
+      return Array.from(records.values()).map(summarizeAnalysis).sort(newestFirst)
+    },
+    async get(id) {
+      return records.get(id) || null
+    },
+    async save(record) {
+      records.set(record.id, record)
+    },
+    async remove(id) {
+      records.delete(id)
+    },
+  }
+}
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const database = request.result
+      if (!database.objectStoreNames.contains(RECORDS)) database.createObjectStore(RECORDS, { keyPath: 'id' })
+      if (!database.objectStoreNames.contains(SUMMARIES)) database.createObjectStore(SUMMARIES, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Records and their summaries live in separate object stores, so listing
+ * the history never loads a dashboard
+ */
+export function createIndexedDbAnalysisStore(options: IndexedDbStoreOptions = {}): AnalysisStore {
+  const maxRecords = options.maxRecords ?? MAX_STORED_ANALYSES
+  let database: Promise<IDBDatabase> | null = null
+  const open = () => {
+    if (!database) database = openDatabase(options.databaseName || DATABASE_NAME)
+    return database
+  }
+
+  const list = async () => {
+    const db = await open()
+    const summaries = await requestResult<AnalysisSummary[]>(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll())
+    return summaries.sort(newestFirst)
+  }
+
+  return {
+    list,
+    async get(id) {
+      const db = await open()
+      const record = await requestResult<AnalysisRecord | undefined>(db.transaction(RECORDS).objectStore(RECORDS).get(id))
+      return record || null
+    },
+    async save(record) {
+      const stale = (await list()).filter((summary) => summary.id !== record.id).slice(maxRecords - 1)
+      const db = await open()
+      const transaction = db.transaction([RECORDS, SUMMARIES], 'readwrite')
+      transaction.objectStore(RECORDS).put(record)
+      transaction.objectStore(SUMMARIES).put(summarizeAnalysis(record))
+      stale.forEach((summary) => {
+        transaction.objectStore(RECORDS).delete(summary.id)
+        transaction.objectStore(SUMMARIES).delete(summary.id)
+      })
+      await transactionDone(transaction)
+    },
+    async remove(id) {
+      const db = await open()
+      const transaction = db.transaction([RECORDS, SUMMARIES], 'readwrite')
+      transaction.objectStore(RECORDS).delete(id)
+      transaction.objectStore(SUMMARIES).delete(id)
+      await transactionDone(transaction)
+    },
+  }
+}
+
+let browserStore: AnalysisStore | null = null
+
+/**
+ * The store for this browser: IndexedDB when available, otherwise in memory
+ */
+export function getAnalysisStore(): AnalysisStore {
+  if (!browserStore) {
+    browserStore = typeof indexedDB === 'undefined' ? createMemoryAnalysisStore() : createIndexedDbAnalysisStore()
+  }
+  return browserStore
+}
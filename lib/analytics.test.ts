@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { computeAnalytics, reconcileDashboard } from '@/lib/analytics'
+import { parseManagerResponse } from '@/lib/dashboardAdapter'
+import type { Transaction } from '@/lib/transactions'
+import managerFixture from '@/test_responses/finos_manager_agent.json'
+
+const spend = (merchant: string, amount: number, category: string, extra: Partial<Transaction> = {}): Transaction => ({
+  date: '2024-02-01',
+  merchant,
+  amount,
+  category,
+  subcategory: '',
+  ...extra,
+})
+
+describe('computeAnalytics', () => {
+  it('sums spending per category and merchant in paise', () => {
+    const summary = computeAnalytics([
+      spend('Swiggy', 0.1, 'Dining'),
+      spend('Swiggy', 0.2, 'Dining'),
+      spend('Uber', 250, 'Travel'),
+    ])
+
+    expect(summary.total_amount).toBe(250.3)
+    expect(summary.total_transactions).toBe(3)
+    expect(summary.merchant_breakdown[0]).toMatchObject({ merchant: 'Uber', total_amount: 250 })
+    expect(summary.merchant_breakdown[1]).toMatchObject({ merchant: 'Swiggy', total_amount: 0.3, transaction_count: 2 })
+  })
+
+  it('leaves credits out of spending', () => {
+    const summary = computeAnalytics([
+      spend('Amazon', 1299, 'Shopping'),
+      spend('Amazon', 1299, 'Shopping', { direction: 'credit' }),
+      spend('Employer', 50000, 'Income', { direction: 'credit' }),
+    ])
+
+    expect(summary.total_amount).toBe(1299)
+    expect(summary.total_transactions).toBe(1)
+    expect(summary.merchant_breakdown).toHaveLength(1)
+  })
+})
+
+describe('reconcileDashboard', () => {
+  it('replaces the agent total with the sum of its transactions and reports the gap', () => {
+    const { data } = parseManagerResponse(managerFixture.result)
+    const { data: reconciled, discrepancies, verified } = reconcileDashboard(data.dashboard_data)
+
+    expect(verified).toBe(true)
+    expect(reconciled.total_amount).toBe(19470.59)
+    expect(discrepancies).toContainEqual({
+      field: 'total_amount',
+      label: 'Total spending',
+      agentValue: 19570.59,
+      computedValue: 19470.59,
+    })
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * Local Analytics
+ *
+ * Recomputes the dashboard's totals, category summary and merchant breakdown
+ * from the categorized transactions, so the numbers on screen are always
+ * arithmetic we did ourselves rather than figures an LLM wrote out. The
+ * agent's own figures are compared against the recomputed ones and any
+ * disagreement is reported instead of silently trusted. Credits are money
+ * in, so they are left out of every spending figure.
+ *
+ * @example
+ * ```ts
+ * import { reconcileDashboard } from '@/lib/analytics'
+ *
+ * const { data, discrepancies } = reconcileDashboard(managerResponse.dashboard_data)
+ * ```
+ */
+
+import type { CategorySummary, DashboardData, MerchantBreakdown } from '@/lib/dashboardTypes'
+import {
+  DEFAULT_TAXONOMY,
+  categoryKey,
+  categoryLabel,
+  detectTaxonomy,
+  getCategoryLabel,
+  resolveCategoryKey,
+  type Taxonomy,
+} from '@/lib/taxonomy'
+import { isCredit, type Transaction } from '@/lib/transactions'
+
+// Types
+export interface AnalyticsSummary {
+  total_transactions: number
+  total_amount: number
+  category_summary: Record<string, CategorySummary>
+  merchant_breakdown: MerchantBreakdown[]
+}
+
+/** One figure where the agent and the local computation disagree */
+export interface AnalyticsDiscrepancy {
+  /** Path of the figure, e.g. `category_summary.dining.total_amount` */
+  field: string
+  label: string
+  agentValue: number
+  computedValue: number
+}
+
+export interface ReconciledDashboard {
+  /** Agent output with every derived figure replaced by the computed one */
+  data: DashboardData
+  discrepancies: AnalyticsDiscrepancy[]
+  /** False when the agent returned no transactions to recompute from */
+  verified: boolean
+}
+
+// Amounts within a rupee and shares within a tenth of a point count as agreeing
+const AMOUNT_TOLERANCE = 1
+const PERCENTAGE_TOLERANCE = 0.1
+
+/** Sum in paise so repeated float additions don't drift */
+const toPaise = (amount: number) => Math.round(amount * 100)
+const fromPaise = (paise: number) => paise / 100
+const roundPercentage = (value: number) => Math.round(value * 100) / 100
+const percentageOf = (part: number, whole: number) => (whole > 0 ? roundPercentage((part / whole) * 100) : 0)
+
+const readAmount = (value: unknown) => {
+  const amount = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(amount) ? Math.abs(amount) : 0
+}
+
+/**
+ * Compute totals, per-category summary and per-merchant breakdown of
+ * spending. Every category of the taxonomy appears in the summary, even with
+ * no spend; credits are skipped.
+ */
+export function computeAnalytics(
+  transactions: Transaction[],
+  options: { taxonomy?: Taxonomy } = {}
+): AnalyticsSummary {
+  const taxonomy = options.taxonomy || DEFAULT_TAXONOMY
+  const categoryTotals = new Map<string, { paise: number; count: number }>()
+  const merchantTotals = new Map<string, { merchant: string; category: string; paise: number; count: number }>()
+  let totalPaise = 0
+
+  for (const { key } of taxonomy.categories) {
+    categoryTotals.set(key, { paise: 0, count: 0 })
+  }
+
+  const spending = transactions.filter((txn) => !isCredit(txn))
+  for (const txn of spending) {
+    const paise = toPaise(readAmount(txn.amount))
+    const category = resolveCategoryKey(taxonomy, txn.category || '', txn.subcategory || '')
+    totalPaise += paise
+
+    const categoryEntry = categoryTotals.get(category) || { paise: 0, count: 0 }
+    categoryEntry.paise += paise
+    categoryEntry.count++
+    categoryTotals.set(category, categoryEntry)
+
+    const merchant = (txn.merchant || '').trim() || 'Unknown'
+    const merchantKey = `${merchant.toLowerCase()}|${category}`
+    const merchantEntry = merchantTotals.get(merchantKey) || {
+      merchant,
+      category,
+      paise: 0,
+      count: 0,
+    }
+    merchantEntry.paise += paise
+    merchantEntry.count++
+    merchantTotals.set(merchantKey, merchantEntry)
+  }
+
+  const category_summary: Record<string, CategorySummary> = {}
+  categoryTotals.forEach((entry, key) => {
+    category_summary[key] = {
+      total_amount: fromPaise(entry.paise),
+      percentage: percentageOf(entry.paise, totalPaise),
+      transaction_count: entry.count,
+    }
+  })
+
+  const merchant_breakdown: MerchantBreakdown[] = Array.from(merchantTotals.values())
+    .map((entry) => ({
+      merchant: entry.merchant,
+      category: getCategoryLabel(taxonomy, entry.category),
+      total_amount: fromPaise(entry.paise),
+      transaction_count: entry.count,
+      percentage_of_category: percentageOf(entry.paise, categoryTotals.get(entry.category)?.paise || 0),
+      insights: '',
+    }))
+    .sort((a, b) => b.total_amount - a.total_amount || a.merchant.localeCompare(b.merchant))
+
+  return {
+    total_transactions: spending.length,
+    total_amount: fromPaise(totalPaise),
+    category_summary,
+    merchant_breakdown,
+  }
+}
+
+/**
+ * List every figure in the agent's output that disagrees with the computed
+ * summary. Figures the agent left out are not reported.
+ */
+export function findDiscrepancies(agent: Partial<DashboardData>, computed: AnalyticsSummary): AnalyticsDiscrepancy[] {
+  const discrepancies: AnalyticsDiscrepancy[] = []
+
+  const check = (field: string, label: string, agentValue: unknown, computedValue: number, tolerance: number) => {
+    if (typeof agentValue !== 'number' || !Number.isFinite(agentValue)) return
+    if (Math.abs(agentValue - computedValue) > tolerance) {
+      discrepancies.push({ field, label, agentValue, computedValue })
+    }
+  }
+
+  check('total_transactions', 'Transaction count', agent.total_transactions, computed.total_transactions, 0)
+  check('total_amount', 'Total spending', agent.total_amount, computed.total_amount, AMOUNT_TOLERANCE)
+
+  const agentCategories: Record<string, Partial<CategorySummary>> = {}
+  Object.entries(agent.category_summary || {}).forEach(([key, summary]) => {
+    if (summary) agentCategories[categoryKey(key)] = summary
+  })
+
+  if (agent.category_summary) {
+    const keys = new Set([...Object.keys(agentCategories), ...Object.keys(computed.category_summary)])
+    keys.forEach((key) => {
+      const mine = computed.category_summary[key] || { total_amount: 0, percentage: 0, transaction_count: 0 }
+      // A category we found spend in but the agent omitted is a zero on its side
+      const theirs = agentCategories[key] || (mine.transaction_count > 0 ? { total_amount: 0 } : {})
+      const label = categoryLabel(key)
+      check(`category_summary.${key}.total_amount`, `${label} total`, theirs.total_amount, mine.total_amount, AMOUNT_TOLERANCE)
+      check(`category_summary.${key}.percentage`, `${label} share`, theirs.percentage, mine.percentage, PERCENTAGE_TOLERANCE)
+      check(`category_summary.${key}.transaction_count`, `${label} count`, theirs.transaction_count, mine.transaction_count, 0)
+    })
+  }
+
+  // The agent reports one row per merchant; ours may split a merchant across categories
+  const merchantTotals = new Map<string, { total: number; count: number }>()
+  computed.merchant_breakdown.forEach((entry) => {
+    const key = entry.merchant.toLowerCase()
+    const totals = merchantTotals.get(key) || { total: 0, count: 0 }
+    totals.total += entry.total_amount
+    totals.count += entry.transaction_count
+    merchantTotals.set(key, totals)
+  })
+
+  ;(agent.merchant_breakdown || []).forEach((entry) => {
+    if (!entry?.merchant) return
+    const mine = merchantTotals.get(entry.merchant.trim().toLowerCase()) || { total: 0, count: 0 }
+    const field = `merchant_breakdown.${entry.merchant}`
+    check(`${field}.total_amount`, `${entry.merchant} total`, entry.total_amount, mine.total, AMOUNT_TOLERANCE)
+    check(`${field}.transaction_count`, `${entry.merchant} count`, entry.transaction_count, mine.count, 0)
+  })
+
+  return discrepancies
+}
+
+/**
+ * Replace the agent's derived figures with locally computed ones. The
+ * agent's qualitative output (score, habit audit, insights, merchant
+ * insights) is kept as is.
+ *
+ * Pass `transactions` to compute the displayed figures from locally
+ * recategorized rows; discrepancies are always checked against the agent's
+ * own transactions, since those are what its figures describe.
+ */
+export function reconcileDashboard(
+  agent: DashboardData,
+  options: { transactions?: Transaction[]; taxonomy?: Taxonomy } = {}
+): ReconciledDashboard {
+  const agentTransactions = Array.isArray(agent.transactions) ? agent.transactions : []
+  if (agentTransactions.length === 0) {
+    return { data: agent, discrepancies: [], verified: false }
+  }
+
+  const taxonomy = options.taxonomy || DEFAULT_TAXONOMY
+  const transactions = options.transactions || agentTransactions
+  const computed = computeAnalytics(transactions, { taxonomy })
+  // Check the agent against its own scheme, which may not be the active one
+  const agentTaxonomy = detectTaxonomy(Object.keys(agent.category_summary || {})) || taxonomy
+  const agentInsights = new Map<string, string>()
+  ;(agent.merchant_breakdown || []).forEach((entry) => {
+    if (entry?.merchant && entry.insights) agentInsights.set(entry.merchant.trim().toLowerCase(), entry.insights)
+  })
+
+  return {
+    data: {
+      ...agent,
+      transactions,
+      total_transactions: computed.total_transactions,
+      total_amount: computed.total_amount,
+      category_summary: computed.category_summary,
+      merchant_breakdown: computed.merchant_breakdown.map((entry) => ({
+        ...entry,
+        insights: agentInsights.get(entry.merchant.toLowerCase()) || '',
+      })),
+    },
+    discrepancies: findDiscrepancies(
+      agent,
+      options.transactions || agentTaxonomy !== taxonomy
+        ? computeAnalytics(agentTransactions, { taxonomy: agentTaxonomy })
+        : computed
+    ),
+    verified: true,
+  }
+}
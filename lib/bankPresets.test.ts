@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  detectBankPreset,
+  getBankPreset,
+  getBankPresets,
+  mappingFromPreset,
+  normalizeHeader,
+  registerBankPreset,
+} from '@/lib/bankPresets'
+import { applyColumnMapping } from '@/lib/columnMapping'
+
+const HDFC_HEADERS = ['Date', 'Narration', 'Chq./Ref.No.', 'Value Dt', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance']
+
+describe('normalizeHeader', () => {
+  it('tidies spacing around slashes and brackets', () => {
+    expect(normalizeHeader('  Dr / Cr ')).toBe('dr/cr')
+    expect(normalizeHeader('Withdrawal Amount ( INR )')).toBe('withdrawal amount (inr)')
+  })
+})
+
+describe('detectBankPreset', () => {
+  it('finds the header row below account details', () => {
+    const records = [
+      ['HDFC BANK Ltd.'],
+      ['Account No', 'XXXX1234'],
+      [],
+      HDFC_HEADERS,
+      ['01/02/24', 'UPI-SWIGGY', '0001', '01/02/24', '450.00', '', '10000.00'],
+    ]
+
+    const match = detectBankPreset(records)
+
+    expect(match).toMatchObject({ preset: { id: 'hdfc', dateOrder: 'DMY' }, headerRow: 3 })
+    expect(match.headers).toEqual(HDFC_HEADERS)
+  })
+
+  it('needs every signature header to match', () => {
+    expect(detectBankPreset([['Date', 'Narration', 'Amount']])).toBeNull()
+  })
+
+  it('scans only the first records', () => {
+    const records = [...Array.from({ length: 3 }, () => ['Statement']), HDFC_HEADERS]
+
+    expect(detectBankPreset(records, 3)).toBeNull()
+    expect(detectBankPreset(records)?.preset.id).toBe('hdfc')
+  })
+})
+
+describe('mappingFromPreset', () => {
+  it('maps split withdrawal and deposit columns', () => {
+    const mapping = mappingFromPreset(getBankPreset('hdfc'), HDFC_HEADERS)
+
+    expect(mapping).toMatchObject({ date: 0, merchant: 1, debit: 4, credit: 5, amount: null, type: null })
+
+    const [spend, refund] = applyColumnMapping(
+      [
+        ['01/02/24', 'UPI-SWIGGY', '0001', '01/02/24', '450.00', '', '9550.00'],
+        ['02/02/24', 'AMAZON REFUND', '0002', '02/02/24', '', '1,299.00', '10849.00'],
+      ],
+      mapping
+    )
+    expect(spend).toMatchObject({ merchant: 'UPI-SWIGGY', amount: 450, direction: 'debit' })
+    expect(refund).toMatchObject({ amount: 1299, direction: 'credit' })
+  })
+
+  it('maps a single amount column with its Dr/Cr column', () => {
+    const headers = ['Sl. No.', 'Transaction Date', 'Description', 'Chq / Ref No.', 'Amount', 'Dr / Cr', 'Balance']
+    const match = detectBankPreset([headers])
+
+    expect(match?.preset.id).toBe('kotak')
+    expect(mappingFromPreset(match.preset, match.headers)).toMatchObject({ date: 1, merchant: 2, amount: 4, type: 5 })
+  })
+
+  it('leaves fields unmapped when their header is missing', () => {
+    expect(mappingFromPreset(getBankPreset('sbi'), ['Txn Date', 'Description', 'Debit']).credit).toBeNull()
+  })
+})
+
+describe('registerBankPreset', () => {
+  const original = getBankPreset('axis')
+
+  afterEach(() => {
+    registerBankPreset(original)
+  })
+
+  it('replaces the preset with the same id', () => {
+    const count = getBankPresets().length
+    registerBankPreset({ ...original, name: 'Axis Bank (new export)', dateOrder: 'YMD' })
+
+    expect(getBankPresets()).toHaveLength(count)
+    expect(getBankPreset('axis')).toMatchObject({ name: 'Axis Bank (new export)', dateOrder: 'YMD' })
+  })
+})
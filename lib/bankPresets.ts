@@ -0,0 +1,181 @@
+/**
+ * Bank Statement Presets
+ *
+ * Registry of known statement layouts for Indian banks. Each preset
+ * recognizes its export from the header row and knows which columns hold
+ * date, narration and amounts, and how dates are printed. Statements often
+ * start with a few lines of account details, so detection scans the first
+ * records for the header rather than assuming it is the first line.
+ *
+ * @example
+ * ```ts
+ * import { readCSVRecords } from '@/lib/csvParser'
+ * import { detectBankPreset, mappingFromPreset } from '@/lib/bankPresets'
+ *
+ * const match = detectBankPreset(readCSVRecords(text).records)
+ * if (match) {
+ *   const mapping = mappingFromPreset(match.preset, match.headers)
+ * }
+ * ```
+ */
+
+import { EMPTY_MAPPING, type AmountSign, type ColumnMapping, type MappableField } from '@/lib/columnMapping'
+import type { DateOrder } from '@/lib/dateParsing'
+
+// Types
+export interface BankPreset {
+  id: string
+  name: string
+  /** Every pattern must match some header for the preset to apply */
+  signature: RegExp[]
+  /** Header pattern per field; the first matching header is used */
+  columns: Partial<Record<MappableField, RegExp>>
+  dateOrder: DateOrder
+  /** Sign of money out in a single amount column without a Dr/Cr column; default `negative_debit` */
+  amountSign?: AmountSign
+}
+
+export interface PresetMatch {
+  preset: BankPreset
+  /** 0-based index of the header record */
+  headerRow: number
+  headers: string[]
+}
+
+/**
+ * Lowercase, trim and collapse whitespace so "Dr / Cr" and "Withdrawal Amount (INR )"
+ * compare equal to their tidier spellings
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*\/\s*/g, '/')
+    .replace(/\(\s*/g, '(')
+    .replace(/\s*\)/g, ')')
+    .trim()
+}
+
+const BUILT_IN_PRESETS: BankPreset[] = [
+  {
+    id: 'hdfc',
+    name: 'HDFC Bank',
+    signature: [/^narration$/, /^withdrawal amt\.?$/, /^deposit amt\.?$/],
+    columns: {
+      date: /^date$/,
+      merchant: /^narration$/,
+      debit: /^withdrawal amt\.?$/,
+      credit: /^deposit amt\.?$/,
+    },
+    dateOrder: 'DMY',
+  },
+  {
+    id: 'icici',
+    name: 'ICICI Bank',
+    signature: [/^transaction remarks$/, /^withdrawal amount/, /^deposit amount/],
+    columns: {
+      date: /^transaction date$/,
+      merchant: /^transaction remarks$/,
+      debit: /^withdrawal amount/,
+      credit: /^deposit amount/,
+    },
+    dateOrder: 'DMY',
+  },
+  {
+    id: 'sbi',
+    name: 'State Bank of India',
+    signature: [/^txn date$/, /^description$/, /^debit$/, /^credit$/],
+    columns: {
+      date: /^txn date$/,
+      merchant: /^description$/,
+      debit: /^debit$/,
+      credit: /^credit$/,
+    },
+    dateOrder: 'DMY',
+  },
+  {
+    id: 'axis',
+    name: 'Axis Bank',
+    signature: [/^tran date$/, /^particulars$/, /^dr$/, /^cr$/],
+    columns: {
+      date: /^tran date$/,
+      merchant: /^particulars$/,
+      debit: /^dr$/,
+      credit: /^cr$/,
+    },
+    dateOrder: 'DMY',
+  },
+  {
+    id: 'kotak',
+    name: 'Kotak Mahindra Bank',
+    signature: [/^description$/, /^amount$/, /^dr\/cr$/, /^chq\/ref no\.?$/],
+    columns: {
+      date: /^transaction date$/,
+      merchant: /^description$/,
+      amount: /^amount$/,
+      type: /^dr\/cr$/,
+    },
+    dateOrder: 'DMY',
+  },
+]
+
+const presets: BankPreset[] = [...BUILT_IN_PRESETS]
+
+/**
+ * All registered presets, built-in ones first
+ */
+export function getBankPresets(): BankPreset[] {
+  return [...presets]
+}
+
+/**
+ * Register an additional preset, replacing any existing one with the same id
+ */
+export function registerBankPreset(preset: BankPreset): void {
+  const idx = presets.findIndex((p) => p.id === preset.id)
+  if (idx === -1) {
+    presets.push(preset)
+  } else {
+    presets[idx] = preset
+  }
+}
+
+export function getBankPreset(id: string): BankPreset | undefined {
+  return presets.find((p) => p.id === id)
+}
+
+function matchesPreset(preset: BankPreset, normalizedHeaders: string[]): boolean {
+  return preset.signature.every((pattern) => normalizedHeaders.some((header) => pattern.test(header)))
+}
+
+/**
+ * Find the first record that looks like a known bank's header row
+ */
+export function detectBankPreset(records: string[][], maxScan = 25): PresetMatch | null {
+  const limit = Math.min(records.length, maxScan)
+
+  for (let row = 0; row < limit; row++) {
+    const normalized = records[row].map(normalizeHeader)
+    const preset = presets.find((p) => matchesPreset(p, normalized))
+    if (preset) {
+      return { preset, headerRow: row, headers: records[row].map((h) => h.trim()) }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Resolve a preset's column patterns against an actual header row
+ */
+export function mappingFromPreset(preset: BankPreset, headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader)
+  const mapping: ColumnMapping = { ...EMPTY_MAPPING }
+
+  for (const [field, pattern] of Object.entries(preset.columns) as [MappableField, RegExp][]) {
+    const idx = normalized.findIndex((header) => pattern.test(header))
+    mapping[field] = idx === -1 ? null : idx
+  }
+
+  return mapping
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { categorizeTransactions, createUserRule, findMatchingRule, getCategoryRules } from '@/lib/categoryRules'
+import type { Transaction } from '@/lib/transactions'
+
+const row = (merchant: string): Transaction => ({ date: '2024-02-01', merchant, amount: 100, category: '', subcategory: '' })
+
+describe('findMatchingRule', () => {
+  const rules = getCategoryRules()
+
+  it('matches keywords as whole words inside bank narrations', () => {
+    expect(findMatchingRule('UPI/SWIGGY/4411', rules)).toMatchObject({ category: 'Dining', subcategory: 'Food Delivery' })
+    expect(findMatchingRule('OLACABS', rules)).toMatchObject({ category: 'Travel', subcategory: 'Transport' })
+    expect(findMatchingRule('SOLAR PANELS', rules)).toBeNull()
+  })
+
+  it('prefers the longest matching keyword', () => {
+    expect(findMatchingRule('UBER EATS ORDER', rules)).toMatchObject({ category: 'Dining' })
+    expect(findMatchingRule('UBER TRIP', rules)).toMatchObject({ category: 'Travel', subcategory: 'Transport' })
+  })
+
+  it('ranks exact and regex rules above keywords', () => {
+    expect(findMatchingRule('Amazon Prime Video', rules)).toMatchObject({ id: 'builtin-amazon-prime' })
+    expect(findMatchingRule('IRCTC Uber', rules)).toMatchObject({ id: 'builtin-irctc' })
+  })
+
+  it('lets user rules win over built-in ones', () => {
+    const userRule = createUserRule('keyword', 'uber', 'Business', 'Client Travel')
+
+    expect(findMatchingRule('UBER EATS', getCategoryRules([userRule]))).toBe(userRule)
+  })
+})
+
+describe('categorizeTransactions', () => {
+  it('lists each unknown merchant once, in first-seen order', () => {
+    const result = categorizeTransactions(
+      [row('Swiggy'), row('Corner Bakery'), row('corner bakery'), row('Big Bazaar')],
+      getCategoryRules()
+    )
+
+    expect(result.matched).toBe(1)
+    expect(result.unknownMerchants).toEqual(['Corner Bakery', 'Big Bazaar'])
+    expect(result.transactions[1].category).toBe('')
+  })
+})
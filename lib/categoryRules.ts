@@ -0,0 +1,281 @@
+/**
+ * Category Rules
+ *
+ * Local rule engine that categorizes well-known merchants before anything
+ * is sent to the agents. Rules match on the merchant text in three ways:
+ *
+ * - `exact`: the normalized merchant equals one of the names
+ * - `regex`: a case-insensitive regular expression over the raw merchant text
+ * - `keyword`: MCC-style keyword lists; any keyword appearing as whole words
+ *   anywhere in the merchant (so "UPI/SWIGGY/4411" matches "swiggy")
+ *
+ * User rules always win over built-in ones; among built-in rules exact
+ * matches beat regexes, which beat keywords. Between keyword rules the
+ * longest matching keyword wins, so "Uber Eats" is food delivery rather than
+ * a ride. User rules are kept in localStorage.
+ *
+ * @example
+ * ```ts
+ * import { categorizeTransactions, getCategoryRules, loadUserRules } from '@/lib/categoryRules'
+ *
+ * const { transactions, unknownMerchants } = categorizeTransactions(rows, getCategoryRules(loadUserRules()))
+ * ```
+ */
+
+import type { Transaction } from '@/lib/transactions'
+import { generateUUID } from '@/lib/utils'
+
+// Types
+export type RuleMatchType = 'exact' | 'regex' | 'keyword'
+
+export interface CategoryRule {
+  id: string
+  type: RuleMatchType
+  /** Merchant names for `exact`, keywords for `keyword`, a single pattern for `regex` */
+  patterns: string[]
+  category: string
+  subcategory: string
+  source: 'builtin' | 'user'
+}
+
+export interface CategorizationResult<T extends Transaction> {
+  transactions: T[]
+  /** Rows categorized by a rule */
+  matched: number
+  /** Distinct merchants no rule knows, in first-seen order */
+  unknownMerchants: string[]
+}
+
+export const RULE_MATCH_TYPES: { value: RuleMatchType; label: string; description: string }[] = [
+  { value: 'exact', label: 'Exact name', description: 'Merchant name matches exactly (ignoring case and punctuation)' },
+  { value: 'keyword', label: 'Contains keywords', description: 'Any of the comma-separated words appear in the merchant' },
+  { value: 'regex', label: 'Regular expression', description: 'Merchant matches the pattern (case-insensitive)' },
+]
+
+const STORAGE_KEY = 'finos_category_rules'
+
+const builtIn = (
+  id: string,
+  type: RuleMatchType,
+  patterns: string[],
+  category: string,
+  subcategory: string
+): CategoryRule => ({ id: `builtin-${id}`, type, patterns, category, subcategory, source: 'builtin' })
+
+const BUILT_IN_RULES: CategoryRule[] = [
+  builtIn('netflix', 'exact', ['netflix'], 'Bill Payments', 'Subscription'),
+  builtIn('amazon-prime', 'regex', ['amazon\\s*prime|prime\\s*video|primevideo'], 'Bill Payments', 'Subscription'),
+  builtIn('sip', 'regex', ['\\bsip\\b|systematic investment'], 'Investments', 'Mutual Fund SIP'),
+  builtIn('irctc', 'regex', ['\\birctc'], 'Travel', 'Train'),
+  builtIn('food-delivery', 'keyword', ['swiggy', 'zomato', 'uber eats'], 'Dining', 'Food Delivery'),
+  builtIn('ride-hailing', 'keyword', ['uber', 'ola', 'olacabs', 'rapido'], 'Travel', 'Transport'),
+  builtIn('streaming', 'keyword', ['netflix', 'spotify', 'hotstar', 'youtube premium'], 'Bill Payments', 'Subscription'),
+]
+
+const TYPE_PRIORITY: Record<RuleMatchType, number> = { exact: 0, regex: 1, keyword: 2 }
+
+/**
+ * Lowercase and reduce merchant text to space-separated words
+ */
+export function normalizeMerchant(merchant: string): string {
+  return (merchant || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Length of the longest keyword of a rule found in the merchant, 0 if none
+ */
+function keywordMatchLength(rule: CategoryRule, merchant: string): number {
+  const padded = ` ${normalizeMerchant(merchant)} `
+  return rule.patterns.reduce((longest, keyword) => {
+    const word = normalizeMerchant(keyword)
+    return word !== '' && padded.includes(` ${word} `) ? Math.max(longest, word.length) : longest
+  }, 0)
+}
+
+/**
+ * Whether a rule matches a merchant. Invalid regex patterns never match.
+ */
+export function ruleMatches(rule: CategoryRule, merchant: string): boolean {
+  const normalized = normalizeMerchant(merchant)
+  if (!normalized) return false
+
+  switch (rule.type) {
+    case 'exact':
+      return rule.patterns.some((name) => normalizeMerchant(name) === normalized)
+    case 'keyword':
+      return keywordMatchLength(rule, merchant) > 0
+    case 'regex':
+      return rule.patterns.some((pattern) => {
+        try {
+          return new RegExp(pattern, 'i').test(merchant)
+        } catch {
+          return false
+        }
+      })
+    default:
+      return false
+  }
+}
+
+/**
+ * Built-in rules, in match order
+ */
+export function getBuiltInRules(): CategoryRule[] {
+  return [...BUILT_IN_RULES].sort((a, b) => TYPE_PRIORITY[a.type] - TYPE_PRIORITY[b.type])
+}
+
+/**
+ * All rules in match order: the user's own first, then the built-in ones
+ */
+export function getCategoryRules(userRules: CategoryRule[] = []): CategoryRule[] {
+  return [...userRules, ...getBuiltInRules()]
+}
+
+/**
+ * First rule that matches the merchant, if any. When that is a keyword rule,
+ * a later keyword rule from the same source with a longer matching keyword
+ * takes its place.
+ */
+export function findMatchingRule(merchant: string, rules: CategoryRule[]): CategoryRule | null {
+  const index = rules.findIndex((rule) => ruleMatches(rule, merchant))
+  if (index === -1) return null
+
+  const first = rules[index]
+  if (first.type !== 'keyword') return first
+  return rules
+    .slice(index + 1)
+    .filter((rule) => rule.type === 'keyword' && rule.source === first.source)
+    .reduce(
+      (best, rule) => (keywordMatchLength(rule, merchant) > keywordMatchLength(best, merchant) ? rule : best),
+      first
+    )
+}
+
+/**
+ * Assign category/subcategory from the rules. Rows no rule matches are
+ * returned unchanged and their merchants listed as unknown.
+ */
+export function categorizeTransactions<T extends Transaction>(
+  transactions: T[],
+  rules: CategoryRule[]
+): CategorizationResult<T> {
+  const cache = new Map<string, CategoryRule | null>()
+  const unknown = new Map<string, string>()
+  let matched = 0
+
+  const categorized = transactions.map((txn) => {
+    const key = normalizeMerchant(txn.merchant)
+    if (!cache.has(key)) cache.set(key, findMatchingRule(txn.merchant, rules))
+    const rule = cache.get(key)
+
+    if (!rule) {
+      if (key && !unknown.has(key)) unknown.set(key, txn.merchant.trim())
+      return txn
+    }
+    matched++
+    return { ...txn, category: rule.category, subcategory: rule.subcategory }
+  })
+
+  return { transactions: categorized, matched, unknownMerchants: Array.from(unknown.values()) }
+}
+
+/**
+ * Build a user rule. Keyword lists are entered comma-separated.
+ */
+export function createUserRule(
+  type: RuleMatchType,
+  pattern: string,
+  category: string,
+  subcategory: string
+): CategoryRule {
+  const patterns =
+    type === 'keyword'
+      ? pattern
+          .split(',')
+          .map((part) => part.trim())
+          .filter(Boolean)
+      : [pattern.trim()]
+
+  return {
+    id: generateUUID(),
+    type,
+    patterns,
+    category: category.trim(),
+    subcategory: subcategory.trim(),
+    source: 'user',
+  }
+}
+
+/**
+ * Remember a category override for one merchant. Replaces any earlier
+ * override for the same merchant so edits don't pile up as stale rules.
+ */
+export function upsertMerchantRule(
+  userRules: CategoryRule[],
+  merchant: string,
+  category: string,
+  subcategory: string
+): CategoryRule[] {
+  const name = normalizeMerchant(merchant)
+  const others = userRules.filter(
+    (rule) => !(rule.type === 'exact' && rule.patterns.length === 1 && normalizeMerchant(rule.patterns[0]) === name)
+  )
+  return [createUserRule('exact', merchant, category, subcategory), ...others]
+}
+
+/**
+ * Problems with a rule the user is about to save, or null if it is usable
+ */
+export function getRuleError(type: RuleMatchType, pattern: string, category: string): string | null {
+  if (!pattern.trim()) return 'Enter a merchant name, keywords or pattern'
+  if (!category.trim()) return 'Choose a category'
+  if (type === 'regex') {
+    try {
+      new RegExp(pattern, 'i')
+    } catch {
+      return 'Not a valid regular expression'
+    }
+  }
+  return null
+}
+
+const isCategoryRule = (value: unknown): value is CategoryRule => {
+  const rule = value as CategoryRule
+  return (
+    !!rule &&
+    typeof rule.id === 'string' &&
+    ['exact', 'regex', 'keyword'].includes(rule.type) &&
+    Array.isArray(rule.patterns) &&
+    typeof rule.category === 'string'
+  )
+}
+
+/**
+ * Read the user's rules from localStorage
+ */
+export function loadUserRules(): CategoryRule[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(stored)
+      ? stored.filter(isCategoryRule).map((rule) => ({ ...rule, subcategory: rule.subcategory || '', source: 'user' }))
+      : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Persist the user's rules to localStorage
+ */
+export function saveUserRules(rules: CategoryRule[]): void {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(rules.filter((rule) => rule.source === 'user')))
+  } catch (error) {
+    console.error('Failed to save category rules:', error)
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Chat Context
+ *
+ * Grounds "Ask Questions" answers in the analyzed data. Each question is
+ * sent with a compact summary of the dashboard — overall totals, category
+ * totals, top merchants and the transactions the question seems to be
+ * about — cut to fit a token budget. Transactions carry refs (`T12`) the
+ * agent can cite. The slices that made it in are returned too, so the chat
+ * can show what each answer was based on.
+ *
+ * @example
+ * ```ts
+ * import { buildChatContext } from '@/lib/chatContext'
+ *
+ * const context = buildChatContext(dashboardData, 'How much on Swiggy in June?')
+ * // context.text   → the block sent to the agent
+ * // context.slices → [{ id: 'transactions', label: 'Transactions', detail: '4 matching "swiggy", June' }, ...]
+ * ```
+ */
+
+import type { DashboardData } from '@/lib/dashboardTypes'
+import type { Transaction } from '@/lib/transactions'
+
+// Types
+export type ContextSliceId = 'overview' | 'categories' | 'merchants' | 'transactions'
+
+export interface ContextSlice {
+  id: ContextSliceId
+  label: string
+  /** What the slice covers, e.g. `Top 8 of 23` */
+  detail: string
+}
+
+export interface ChatContext {
+  /** Serialized data block for the prompt; empty when nothing fits */
+  text: string
+  slices: ContextSlice[]
+  /** Estimated size of `text` */
+  tokens: number
+}
+
+export interface ChatContextOptions {
+  /** Upper bound on the estimated tokens of the data block */
+  maxTokens?: number
+  maxMerchants?: number
+}
+
+export const DEFAULT_CONTEXT_TOKENS = 1500
+const DEFAULT_MAX_MERCHANTS = 10
+
+export const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+]
+
+// Words too common in questions to say anything about which transactions matter
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'how', 'much', 'many', 'did', 'does', 'what', 'which', 'where', 'when', 'who', 'was',
+  'were', 'are', 'spend', 'spent', 'spending', 'pay', 'paid', 'on', 'in', 'at', 'my', 'me', 'total', 'all',
+  'from', 'with', 'this', 'that', 'last', 'month', 'months', 'week', 'year', 'than', 'more', 'less', 'most',
+  'top', 'transactions', 'transaction', 'show', 'list', 'give', 'tell', 'about', 'there', 'any', 'have', 'has',
+  'average', 'biggest', 'largest', 'category', 'categories', 'merchant', 'merchants',
+])
+
+/**
+ * Rough token count for English and numbers (about four characters a token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+const formatAmount = (amount: number) => amount.toFixed(2)
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+/**
+ * Months named in the question, as 0-based indexes; three-letter forms count too
+ */
+export function getQuestionMonths(question: string): number[] {
+  const words: string[] = question.toLowerCase().match(/[a-z]+/g) ?? []
+  const months = new Set<number>()
+  words.forEach((word) => {
+    // "may" is usually the verb; it is matched below only when written as a date
+    if (word === 'may') return
+    const index = MONTHS.findIndex((month) => word === month || (word.length >= 3 && month.startsWith(word)))
+    if (index >= 0) months.add(index)
+  })
+  // e.g. "in May", "May 2024"
+  if (/\b(in|of|during|since|for|until|from|between)\s+may\b|\bmay\s+\d/i.test(question)) months.add(4)
+  return Array.from(months)
+}
+
+const transactionMonth = (txn: Transaction) => (txn.date ? Number(txn.date.slice(5, 7)) - 1 : -1)
+
+/**
+ * Transactions the question mentions by merchant, category or month, with a
+ * description of the filter. Falls back to the largest transactions.
+ */
+export function findRelevantTransactions(
+  transactions: Transaction[],
+  question: string
+): { transactions: Transaction[]; description: string } {
+  const words: string[] = question.toLowerCase().match(/[a-z0-9&']+/g) ?? []
+  const months = getQuestionMonths(question)
+  const terms = words.filter(
+    (word) => word.length >= 3 && !STOP_WORDS.has(word) && word !== 'may' && getQuestionMonths(word).length === 0
+  )
+
+  const matchedTerms = terms.filter((term) =>
+    transactions.some((txn) => `${txn.merchant} ${txn.category} ${txn.subcategory}`.toLowerCase().includes(term))
+  )
+
+  let matches = transactions
+  if (matchedTerms.length > 0) {
+    matches = matches.filter((txn) => {
+      const haystack = `${txn.merchant} ${txn.category} ${txn.subcategory}`.toLowerCase()
+      return matchedTerms.some((term) => haystack.includes(term))
+    })
+  }
+  if (months.length > 0) {
+    matches = matches.filter((txn) => months.includes(transactionMonth(txn)))
+  }
+
+  if (matchedTerms.length === 0 && months.length === 0) {
+    return {
+      transactions: [...transactions].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount)),
+      description: 'largest first',
+    }
+  }
+
+  const filters = [
+    ...matchedTerms.map((term) => `"${term}"`),
+    ...months.map((month) => MONTHS[month][0].toUpperCase() + MONTHS[month].slice(1)),
+  ]
+  return {
+    transactions: [...matches].sort((a, b) => a.date.localeCompare(b.date)),
+    description: `matching ${filters.join(', ')}`,
+  }
+}
+
+function summarizeMerchants(transactions: Transaction[]) {
+  const totals = new Map<string, { merchant: string; total: number; count: number }>()
+  transactions.forEach((txn) => {
+    const entry = totals.get(txn.merchant) || { merchant: txn.merchant, total: 0, count: 0 }
+    entry.total += txn.amount
+    entry.count += 1
+    totals.set(txn.merchant, entry)
+  })
+  return Array.from(totals.values()).sort((a, b) => b.total - a.total)
+}
+
+// Keep as many lines as the remaining budget allows
+function fitLines(header: string, lines: string[], budget: number): string[] {
+  let used = estimateTokens(header)
+  const kept: string[] = []
+  for (const line of lines) {
+    const cost = estimateTokens(line) + 1
+    if (used + cost > budget) break
+    used += cost
+    kept.push(line)
+  }
+  return kept
+}
+
+/**
+ * The data block for a chat question, within `maxTokens`. Overview,
+ * categories, merchants and transactions are added in that order, each cut
+ * to what still fits.
+ */
+export function buildChatContext(
+  data: DashboardData,
+  question: string,
+  options: ChatContextOptions = {}
+): ChatContext {
+  const maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_TOKENS
+  const maxMerchants = options.maxMerchants ?? DEFAULT_MAX_MERCHANTS
+  const transactions = data.transactions || []
+  const sections: string[] = []
+  const slices: ContextSlice[] = []
+  let remaining = maxTokens
+
+  // Adds the lines that still fit; a slice with no room is left out
+  const addSection = (
+    slice: Omit<ContextSlice, 'detail'>,
+    header: string,
+    lines: string[],
+    describe: (kept: number) => string
+  ) => {
+    const kept = fitLines(header, lines, remaining)
+    if (kept.length === 0) return
+    const section = [header, ...kept].join('\n')
+    sections.push(section)
+    slices.push({ ...slice, detail: describe(kept.length) })
+    remaining -= estimateTokens(section) + 1
+  }
+
+  const dates = transactions.map((txn) => txn.date).filter(Boolean).sort()
+  const overview = [
+    `transactions: ${data.total_transactions}`,
+    `total_amount: ${formatAmount(data.total_amount)}`,
+    ...(dates.length > 0 ? [`period: ${dates[0]} to ${dates[dates.length - 1]}`] : []),
+  ]
+  addSection({ id: 'overview', label: 'Overview' }, '## Overview', overview, () => 'Totals and period')
+
+  const categories = Object.entries(data.category_summary || {}).sort(
+    ([, a], [, b]) => b.total_amount - a.total_amount
+  )
+  addSection(
+    { id: 'categories', label: 'Categories' },
+    '## Category totals (category, amount, share %, count)',
+    categories.map(
+      ([key, summary]) =>
+        `${key}, ${formatAmount(summary.total_amount)}, ${summary.percentage.toFixed(1)}, ${summary.transaction_count}`
+    ),
+    (kept) => (kept < categories.length ? `${kept} of ${categories.length}` : `All ${kept}`)
+  )
+
+  const merchants = summarizeMerchants(transactions)
+  addSection(
+    { id: 'merchants', label: 'Top merchants' },
+    '## Top merchants by amount (merchant, amount, count)',
+    merchants
+      .slice(0, maxMerchants)
+      .map((merchant) => `${merchant.merchant}, ${formatAmount(merchant.total)}, ${merchant.count}`),
+    (kept) => `Top ${kept} of ${merchants.length}`
+  )
+
+  const relevant = findRelevantTransactions(transactions, question)
+  // Refs are 1-based rows of the transaction history, for citations like [T12]
+  const refs = new Map(transactions.map((txn, index) => [txn, `T${index + 1}`]))
+  addSection(
+    { id: 'transactions', label: 'Transactions' },
+    `## Transactions, ${relevant.description} (ref, date, merchant, amount, category)`,
+    relevant.transactions.length > 0
+      ? relevant.transactions.map(
+          (txn) => `${refs.get(txn)}, ${txn.date}, ${txn.merchant}, ${formatAmount(txn.amount)}, ${txn.category}`
+        )
+      : // Telling the agent nothing matched keeps it from guessing
+        ['(none)'],
+    (kept) => {
+      const total = relevant.transactions.length
+      if (total === 0) return `None ${relevant.description}`
+      return `${kept < total ? `${kept} of ${total}` : plural(kept, 'transaction')}, ${relevant.description}`
+    }
+  )
+
+  const text = sections.join('\n\n')
+  return { text, slices, tokens: estimateTokens(text) }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { parseInline, parseMarkdown, sanitizeHref } from '@/lib/chatMarkdown'
+
+const text = (value: string) => ({ type: 'text', text: value })
+
+describe('parseInline', () => {
+  it('reads emphasis, code and citations', () => {
+    expect(parseInline('**Swiggy** was your top merchant [T4, T9]')).toEqual([
+      { type: 'strong', children: [text('Swiggy')] },
+      text(' was your top merchant '),
+      { type: 'citation', rows: [4, 9] },
+    ])
+    expect(parseInline('see `category_summary` and *dining*')).toEqual([
+      text('see '),
+      { type: 'code', text: 'category_summary' },
+      text(' and '),
+      { type: 'em', children: [text('dining')] },
+    ])
+  })
+
+  it('leaves markers inside words alone', () => {
+    expect(parseInline('bill_payments costs 2*3*4')).toEqual([text('bill_payments costs 2*3*4')])
+  })
+
+  it('keeps safe links, including parentheses in the target', () => {
+    expect(parseInline('[wiki](https://en.wikipedia.org/wiki/Rupee_(currency))')).toEqual([
+      { type: 'link', href: 'https://en.wikipedia.org/wiki/Rupee_(currency)', children: [text('wiki')] },
+    ])
+  })
+
+  it('drops the target of unsafe links', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'em', children: [text('click')] }])
+  })
+})
+
+describe('sanitizeHref', () => {
+  it('allows only absolute http(s) and mailto URLs', () => {
+    expect(sanitizeHref('mailto:help@example.com')).toBe('mailto:help@example.com')
+    expect(sanitizeHref('java\nscript:alert(1)')).toBeNull()
+    expect(sanitizeHref('/relative')).toBeNull()
+    expect(sanitizeHref('data:text/html,hi')).toBeNull()
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('splits a reply into blocks', () => {
+    const blocks = parseMarkdown(
+      ['## Summary', 'You spent **₹950**', 'on dining.', '', '- Swiggy [T1]', '- Zomato', '', '1. First', '2. Second', '', '---', '> Tip'].join('\n')
+    )
+
+    expect(blocks.map((block) => block.type)).toEqual(['heading', 'paragraph', 'list', 'list', 'rule', 'quote'])
+    expect(blocks[0]).toEqual({ type: 'heading', level: 2, children: [text('Summary')] })
+    expect(blocks[1]).toEqual({
+      type: 'paragraph',
+      children: [text('You spent '), { type: 'strong', children: [text('₹950')] }, text('\non dining.')],
+    })
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [[text('Swiggy '), { type: 'citation', rows: [1] }], [text('Zomato')]] })
+    expect(blocks[3]).toMatchObject({ ordered: true, start: 1 })
+  })
+
+  it('reads tables with alignment', () => {
+    const [table] = parseMarkdown('| Merchant | Amount |\n|:--|--:|\n| Swiggy | 450 |\n| Zomato |')
+
+    expect(table).toEqual({
+      type: 'table',
+      align: ['left', 'right'],
+      header: [[text('Merchant')], [text('Amount')]],
+      rows: [
+        [[text('Swiggy')], [text('450')]],
+        [[text('Zomato')], []],
+      ],
+    })
+  })
+
+  it('shows markup inside code as text and runs an unclosed fence to the end', () => {
+    expect(parseMarkdown('```\n<script>alert(1)</script>\n**not bold**')).toEqual([
+      { type: 'code', text: '<script>alert(1)</script>\n**not bold**' },
+    ])
+  })
+})
@@ -0,0 +1,253 @@
+/**
+ * Chat Markdown
+ *
+ * A small markdown parser for chat replies: paragraphs, headings, lists,
+ * quotes, code, tables, bold/italic and links. It produces a tree, never
+ * HTML, so markup in a reply is shown as text. Links keep only http(s) and
+ * mailto targets. Citations like `[T12]` or `[T3, T7]` refer to rows of the
+ * transaction history (1-based, as numbered in the chat context).
+ *
+ * @example
+ * ```ts
+ * import { parseMarkdown } from '@/lib/chatMarkdown'
+ *
+ * const blocks = parseMarkdown('**Swiggy** was your top merchant [T4, T9]')
+ * // [{ type: 'paragraph', children: [{ type: 'strong', ... }, { type: 'citation', rows: [4, 9] }] }]
+ * ```
+ */
+
+// Types
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  /** 1-based transaction rows */
+  | { type: 'citation'; rows: number[] }
+
+export type TableAlign = 'left' | 'center' | 'right' | null
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' }
+
+/**
+ * How the agent should cite transactions, added to chat requests
+ */
+export const CHAT_CITATION_INSTRUCTIONS =
+  'Format "query_response" as markdown. When a statement rests on specific transactions, cite their ' +
+  'refs from the data above in square brackets, e.g. [T12] or [T3, T7].'
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:']
+
+/**
+ * The link target if it is an absolute http(s) or mailto URL, otherwise null
+ */
+export function sanitizeHref(href: string): string | null {
+  try {
+    // The URL parser drops the tabs and newlines that could hide `javascript:`
+    const url = new URL(href.trim())
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+const CITATION = /^\[\s*(T\d+(?:\s*,\s*T?\d+)*)\s*\]/i
+
+function parseCitationRows(list: string): number[] {
+  return list
+    .split(',')
+    .map((ref) => Number(ref.trim().replace(/^t/i, '')))
+    .filter((row) => Number.isInteger(row) && row > 0)
+}
+
+// Inline markers, tried at each position in this order
+const INLINE_RULES: { pattern: RegExp; build: (match: RegExpMatchArray) => MarkdownInline }[] = [
+  { pattern: /^`([^`]+)`/, build: (match) => ({ type: 'code', text: match[1] }) },
+  { pattern: CITATION, build: (match) => ({ type: 'citation', rows: parseCitationRows(match[1]) }) },
+  {
+    // One level of parentheses is allowed in the target, as in wiki URLs
+    pattern: /^\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/,
+    build: (match) => {
+      const href = sanitizeHref(match[2])
+      const children = parseInline(match[1])
+      // An unsafe link keeps its label and loses the target
+      return href ? { type: 'link', href, children } : { type: 'em', children }
+    },
+  },
+  { pattern: /^\*\*(\S(?:[^*]*\S)?)\*\*/, build: (match) => ({ type: 'strong', children: parseInline(match[1]) }) },
+  { pattern: /^__(\S(?:[^_]*\S)?)__/, build: (match) => ({ type: 'strong', children: parseInline(match[1]) }) },
+  { pattern: /^\*(\S(?:[^*]*\S)?)\*/, build: (match) => ({ type: 'em', children: parseInline(match[1]) }) },
+  { pattern: /^_(\S(?:[^_]*\S)?)_(?![a-z0-9])/i, build: (match) => ({ type: 'em', children: parseInline(match[1]) }) },
+]
+
+/**
+ * Parse the inline markup of one block
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = []
+  let buffer = ''
+  let index = 0
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer })
+    buffer = ''
+  }
+
+  while (index < text.length) {
+    const rest = text.slice(index)
+    // Markers only open at a word boundary, so snake_case and 2*3*4 stay text
+    const atBoundary = index === 0 || !/[a-z0-9]/i.test(text[index - 1]) || '`['.includes(rest[0])
+    const rule = atBoundary ? INLINE_RULES.find(({ pattern }) => pattern.test(rest)) : undefined
+    if (!rule) {
+      buffer += text[index]
+      index += 1
+      continue
+    }
+    const match = rest.match(rule.pattern)!
+    flush()
+    nodes.push(rule.build(match))
+    index += match[0].length
+  }
+  flush()
+  return nodes
+}
+
+const FENCE = /^\s*(```|~~~)/
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/
+const LIST_ITEM = /^\s*([-*+]|(\d+)[.)])\s+(.*)$/
+const QUOTE = /^\s{0,3}>\s?(.*)$/
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+const splitRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => cell.trim())
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':')
+  const right = cell.endsWith(':')
+  if (left && right) return 'center'
+  if (right) return 'right'
+  return left ? 'left' : null
+}
+
+const startsBlock = (line: string, next?: string) =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  LIST_ITEM.test(line) ||
+  QUOTE.test(line) ||
+  RULE.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next))
+
+/**
+ * Parse a reply into blocks. Unclosed code fences run to the end, so
+ * a reply that is still streaming renders sensibly.
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let index = 0
+
+  while (index < lines.length) {
+    const line = lines[index]
+    const next = lines[index + 1]
+
+    if (line.trim() === '') {
+      index += 1
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const code: string[] = []
+      index += 1
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        code.push(lines[index])
+        index += 1
+      }
+      blocks.push({ type: 'code', text: code.join('\n') })
+      index += 1
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) })
+      index += 1
+      continue
+    }
+
+    // Checked before lists, since "---" and "* * *" look like list items
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      index += 1
+      continue
+    }
+
+    if (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next)) {
+      const header = splitRow(line)
+      const align = splitRow(next).map(parseAlign)
+      const rows: MarkdownInline[][][] = []
+      index += 2
+      while (index < lines.length && lines[index].includes('|') && lines[index].trim() !== '') {
+        const cells = splitRow(lines[index])
+        rows.push(header.map((_, column) => parseInline(cells[column] || '')))
+        index += 1
+      }
+      blocks.push({ type: 'table', align, header: header.map((cell) => parseInline(cell)), rows })
+      continue
+    }
+
+    const item = line.match(LIST_ITEM)
+    if (item) {
+      const ordered = item[2] !== undefined
+      const items: MarkdownInline[][] = []
+      while (index < lines.length) {
+        const current = lines[index].match(LIST_ITEM)
+        if (current && (current[2] !== undefined) === ordered) {
+          items.push(parseInline(current[3]))
+        } else if (lines[index].trim() !== '' && /^\s+/.test(lines[index]) && items.length > 0) {
+          // An indented line continues the previous item
+          items[items.length - 1].push({ type: 'text', text: ' ' }, ...parseInline(lines[index].trim()))
+        } else {
+          break
+        }
+        index += 1
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? Number(item[2]) : 1, items })
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(lines[index].match(QUOTE)![1])
+        index += 1
+      }
+      blocks.push({ type: 'quote', children: parseInline(quoted.join('\n')) })
+      continue
+    }
+
+    const paragraph = [line.trim()]
+    index += 1
+    while (index < lines.length && lines[index].trim() !== '' && !startsBlock(lines[index], lines[index + 1])) {
+      paragraph.push(lines[index].trim())
+      index += 1
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+  }
+
+  return blocks
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_PAYLOAD_ROWS, formatPayloadValue, parseChatPayload, payloadFromLocalAnswer } from '@/lib/chatPayload'
+import { answerLocally } from '@/lib/chatQuery'
+import type { Transaction } from '@/lib/transactions'
+
+const chart = (key: string) => ({
+  type: 'chart',
+  chart: 'bar',
+  xKey: 'week',
+  series: [{ key, label: 'Amount', format: 'currency' }],
+  data: [{ week: 'W1', [key]: 120 }],
+})
+
+describe('parseChatPayload', () => {
+  it('accepts well-formed payloads', () => {
+    expect(parseChatPayload({ type: 'kpi', label: 'Total', value: '1200', format: 'currency' })).toMatchObject({
+      value: 1200,
+    })
+    expect(parseChatPayload(chart('amount'))).toMatchObject({ type: 'chart', series: [{ key: 'amount' }] })
+  })
+
+  it('rejects series keys that could break out of the chart style', () => {
+    expect(parseChatPayload(chart('x;}body{display:none}'))).toBeNull()
+    expect(parseChatPayload(chart('a b'))).toBeNull()
+    expect(parseChatPayload(chart('1st'))).toBeNull()
+    expect(parseChatPayload({ ...chart('amount'), xKey: 'week)' })).toBeNull()
+  })
+
+  it('rejects charts with nothing to plot and malformed shapes', () => {
+    expect(parseChatPayload({ ...chart('amount'), data: [{ week: 'W1', amount: 'lots' }] })).toBeNull()
+    expect(parseChatPayload({ type: 'chart', series: 'oops' })).toBeNull()
+    expect(parseChatPayload({ type: 'kpi', label: 'Total', value: 'n/a' })).toBeNull()
+  })
+
+  it('cuts long tables', () => {
+    const rows = Array.from({ length: MAX_PAYLOAD_ROWS + 10 }, (_, index) => ({ n: index }))
+    const payload = parseChatPayload({ type: 'table', columns: [{ key: 'n', label: 'N' }], rows })
+
+    expect(payload?.type === 'table' && payload.rows).toHaveLength(MAX_PAYLOAD_ROWS)
+  })
+})
+
+describe('payloadFromLocalAnswer', () => {
+  const transactions: Transaction[] = [
+    { date: '2024-06-03', merchant: 'Swiggy', amount: 450, category: 'Dining', subcategory: '' },
+    { date: '2024-06-12', merchant: 'Zomato', amount: 300, category: 'Dining', subcategory: '' },
+  ]
+
+  it('turns a merchant ranking into a table and a total into a KPI', () => {
+    expect(payloadFromLocalAnswer(answerLocally('top merchants', transactions)!)).toMatchObject({
+      type: 'table',
+      rows: [{ rank: 1, label: 'Swiggy', amount: 450 }, { rank: 2, label: 'Zomato' }],
+    })
+    expect(payloadFromLocalAnswer(answerLocally('total dining spend', transactions)!)).toMatchObject({
+      type: 'kpi',
+      value: 750,
+    })
+  })
+})
+
+describe('formatPayloadValue', () => {
+  it('formats by field format', () => {
+    expect(formatPayloadValue(1234.5, 'currency')).toBe('₹1,234.50')
+    expect(formatPayloadValue(12.345, 'percent')).toBe('12.3%')
+    expect(formatPayloadValue(undefined)).toBe('—')
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Chat Payloads
+ *
+ * Structured answers the chat can render inside a message instead of a
+ * paragraph: a single KPI, a table of rows, or a bar/line chart. The manager
+ * agent may send one as `visualization` next to `query_response`; it is
+ * validated here before rendering. Answers from the local query engine are
+ * turned into payloads directly.
+ *
+ * @example
+ * ```ts
+ * import { parseChatPayload, payloadFromLocalAnswer } from '@/lib/chatPayload'
+ *
+ * const payload = parseChatPayload(managerResponse.visualization)
+ * const local = payloadFromLocalAnswer(answerLocally('dining by week', transactions)!)
+ * ```
+ */
+
+import { z } from 'zod'
+import type { LocalAnswer, QueryAggregate } from '@/lib/chatQuery'
+
+// Types
+export type PayloadFormat = 'currency' | 'number' | 'percent' | 'text'
+
+export type PayloadValue = string | number
+
+export interface PayloadField {
+  key: string
+  label: string
+  format?: PayloadFormat
+}
+
+export interface KpiPayload {
+  type: 'kpi'
+  label: string
+  value: number
+  format?: PayloadFormat
+  caption?: string
+}
+
+export interface TablePayload {
+  type: 'table'
+  title?: string
+  columns: PayloadField[]
+  rows: Record<string, PayloadValue>[]
+}
+
+export interface ChartPayload {
+  type: 'chart'
+  chart: 'bar' | 'line'
+  title?: string
+  /** Field of each point holding its x-axis label */
+  xKey: string
+  series: PayloadField[]
+  data: Record<string, PayloadValue>[]
+}
+
+export type ChatPayload = KpiPayload | TablePayload | ChartPayload
+
+// Enough for a chat bubble; longer tables and series are cut
+export const MAX_PAYLOAD_ROWS = 50
+const MAX_CHART_SERIES = 4
+
+/**
+ * How the agent should describe a visualization, added to chat requests
+ */
+export const CHAT_PAYLOAD_INSTRUCTIONS = [
+  'If a single figure, a table or a chart answers better than prose, add a "visualization" field next to',
+  '"query_response" holding one of these, using only figures from the data above:',
+  '{"type":"kpi","label":"...","value":0,"format":"currency","caption":"..."}',
+  '{"type":"table","title":"...","columns":[{"key":"merchant","label":"Merchant"},{"key":"amount","label":"Amount","format":"currency"}],"rows":[{"merchant":"...","amount":0}]}',
+  '{"type":"chart","chart":"bar|line","title":"...","xKey":"week","series":[{"key":"amount","label":"Amount","format":"currency"}],"data":[{"week":"...","amount":0}]}',
+].join('\n')
+
+// Series keys become CSS custom properties (`--color-<key>`) in the chart's injected style
+const FIELD_KEY = /^[A-Za-z_][\w-]*$/
+
+const format = z.enum(['currency', 'number', 'percent', 'text']).optional()
+const fieldKey = z.string().max(64).regex(FIELD_KEY)
+const field = z.object({ key: fieldKey, label: z.string(), format })
+const value = z.union([z.string(), z.number()])
+const row = z.record(z.string(), value)
+
+const payloadSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('kpi'),
+    label: z.string(),
+    value: z.coerce.number(),
+    format,
+    caption: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('table'),
+    title: z.string().optional(),
+    columns: z.array(field).min(1),
+    rows: z.array(row),
+  }),
+  z.object({
+    type: z.literal('chart'),
+    chart: z.enum(['bar', 'line']),
+    title: z.string().optional(),
+    xKey: fieldKey,
+    series: z.array(field).min(1).max(MAX_CHART_SERIES),
+    data: z.array(row).min(1),
+  }),
+])
+
+/**
+ * Validate a payload from the agent. Returns null for anything that would
+ * not render, e.g. a chart series with no numbers in it.
+ */
+export function parseChatPayload(raw: unknown): ChatPayload | null {
+  const parsed = payloadSchema.safeParse(raw)
+  if (!parsed.success) return null
+  // Inferred fields are all optional without strict null checks
+  const payload = parsed.data as ChatPayload
+
+  if (payload.type === 'table') {
+    return { ...payload, rows: payload.rows.slice(0, MAX_PAYLOAD_ROWS) }
+  }
+  if (payload.type === 'chart') {
+    const data = payload.data.slice(0, MAX_PAYLOAD_ROWS)
+    const plottable = payload.series.every((series) => data.some((point) => typeof point[series.key] === 'number'))
+    return plottable ? { ...payload, data } : null
+  }
+  return Number.isFinite(payload.value) ? payload : null
+}
+
+/**
+ * Display text for a payload value
+ */
+export function formatPayloadValue(value: PayloadValue | undefined, valueFormat: PayloadFormat = 'text'): string {
+  if (value === undefined || value === '') return '—'
+  if (typeof value !== 'number' || valueFormat === 'text') return String(value)
+  if (valueFormat === 'currency') {
+    return `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+  }
+  if (valueFormat === 'percent') return `${value.toLocaleString('en-IN', { maximumFractionDigits: 1 })}%`
+  return value.toLocaleString('en-IN')
+}
+
+const VALUE_FIELDS: Record<QueryAggregate, PayloadField> = {
+  sum: { key: 'value', label: 'Amount', format: 'currency' },
+  count: { key: 'value', label: 'Transactions', format: 'number' },
+  avg: { key: 'value', label: 'Average', format: 'currency' },
+  max: { key: 'value', label: 'Amount', format: 'currency' },
+}
+
+/**
+ * The payload for a local answer: a trend chart for periods, a ranked table
+ * for merchants and categories, a KPI for a single figure
+ */
+export function payloadFromLocalAnswer({ query, result }: LocalAnswer): ChatPayload | null {
+  if (result.count === 0) return null
+  const valueField = VALUE_FIELDS[query.aggregate]
+
+  if (query.groupBy === 'month' || query.groupBy === 'week') {
+    const data = (result.groups || []).map((group) => ({ period: group.label, value: group.value }))
+    return {
+      type: 'chart',
+      // A line needs a few points to read as a trend
+      chart: data.length >= 3 ? 'line' : 'bar',
+      xKey: 'period',
+      series: [valueField],
+      data: data.slice(0, MAX_PAYLOAD_ROWS),
+    }
+  }
+
+  if (query.groupBy) {
+    const columns: PayloadField[] = [
+      { key: 'rank', label: '#', format: 'number' },
+      { key: 'label', label: query.groupBy === 'merchant' ? 'Merchant' : 'Category' },
+      { key: 'amount', label: 'Amount', format: 'currency' },
+      { key: 'count', label: 'Transactions', format: 'number' },
+    ]
+    if (query.aggregate === 'avg') columns.push({ key: 'value', label: 'Average', format: 'currency' })
+    return {
+      type: 'table',
+      columns,
+      rows: (result.groups || []).slice(0, MAX_PAYLOAD_ROWS).map((group, index) => ({
+        rank: index + 1,
+        label: group.label,
+        amount: group.amount,
+        count: group.count,
+        value: group.value,
+      })),
+    }
+  }
+
+  switch (query.aggregate) {
+    case 'count':
+      return {
+        type: 'kpi',
+        label: 'Transactions',
+        value: result.count,
+        format: 'number',
+        caption: `${formatPayloadValue(result.amount, 'currency')} in total`,
+      }
+    case 'avg':
+      return {
+        type: 'kpi',
+        label: 'Average transaction',
+        value: result.value,
+        format: 'currency',
+        caption: `Across ${result.count} transaction${result.count === 1 ? '' : 's'}`,
+      }
+    case 'max':
+      return {
+        type: 'kpi',
+        label: 'Largest transaction',
+        value: result.value,
+        format: 'currency',
+        caption: result.transaction ? `${result.transaction.merchant}, ${result.transaction.date}` : undefined,
+      }
+    default:
+      return {
+        type: 'kpi',
+        label: 'Total spent',
+        value: result.amount,
+        format: 'currency',
+        caption: `Across ${result.count} transaction${result.count === 1 ? '' : 's'}`,
+      }
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { answerLocally, parseQueryIntent } from '@/lib/chatQuery'
+import type { Transaction } from '@/lib/transactions'
+
+const txn = (date: string, merchant: string, amount: number, category: string, subcategory = ''): Transaction => ({
+  date,
+  merchant,
+  amount,
+  category,
+  subcategory,
+})
+
+const transactions: Transaction[] = [
+  txn('2024-05-03', 'Swiggy', 450, 'Dining', 'Food Delivery'),
+  txn('2024-05-20', 'Amazon', 1299.5, 'Shopping', 'E-commerce'),
+  txn('2024-06-02', 'Swiggy', 320.25, 'Dining', 'Food Delivery'),
+  txn('2024-06-15', 'Uber', 210, 'Travel', 'Transport'),
+  txn('2024-06-28', 'Zomato', 180, 'Dining', 'Food Delivery'),
+  { ...txn('2024-06-29', 'Amazon', 1299.5, 'Shopping', 'E-commerce'), direction: 'credit' },
+]
+
+describe('answerLocally', () => {
+  it('sums a merchant over a month named in the question', () => {
+    const answer = answerLocally('How much did I spend on Swiggy in June?', transactions)
+
+    expect(answer?.query.filter).toMatchObject({ merchants: ['Swiggy'], from: '2024-06-01', to: '2024-06-30' })
+    expect(answer?.result).toMatchObject({ count: 1, amount: 320.25 })
+    expect(answer?.text).toContain('₹320.25')
+  })
+
+  it('reads "last month" against the latest transaction', () => {
+    const answer = answerLocally('how much did i spend last month', transactions)
+
+    expect(answer?.query.filter).toMatchObject({ from: '2024-05-01', to: '2024-05-31' })
+    expect(answer?.result.amount).toBe(1749.5)
+  })
+
+  it('filters categories through the taxonomy', () => {
+    const answer = answerLocally('total dining spend', transactions)
+
+    expect(answer?.query.filter.categories).toEqual(['dining'])
+    expect(answer?.result).toMatchObject({ count: 3, amount: 950.25 })
+  })
+
+  it('ranks merchants by count for a top-N question', () => {
+    const answer = answerLocally('top 2 merchants by count', transactions)
+
+    expect(answer?.query).toMatchObject({ aggregate: 'count', groupBy: 'merchant', limit: 2 })
+    expect(answer?.result.groups?.map((group) => [group.label, group.count])).toEqual([
+      ['Swiggy', 2],
+      ['Amazon', 1],
+    ])
+    expect(answer?.summary).toBe('Top 2 merchants by number of transactions:')
+  })
+
+  it('finds the largest transaction', () => {
+    const answer = answerLocally('what was my biggest purchase', transactions)
+
+    expect(answer?.result.transaction?.merchant).toBe('Amazon')
+    expect(answer?.text).toBe('Your largest transaction was ₹1,299.50 at Amazon on 20 May 2024.')
+  })
+
+  it('leaves credits out of spending', () => {
+    expect(answerLocally('how much did i spend on amazon', transactions)?.result.amount).toBe(1299.5)
+  })
+
+  it('leaves open-ended or unknown questions to the agent', () => {
+    expect(answerLocally('why is my dining spend so high?', transactions)).toBeNull()
+    expect(answerLocally('how much did I spend on Starbucks', transactions)).toBeNull()
+    expect(answerLocally('how much did I spend', [])).toBeNull()
+  })
+})
+
+describe('parseQueryIntent', () => {
+  it('asks for a single group when the question is singular', () => {
+    expect(parseQueryIntent('which merchant did I spend the most at', transactions)).toMatchObject({
+      groupBy: 'merchant',
+      limit: 1,
+    })
+    expect(parseQueryIntent('spending by category', transactions)).toMatchObject({ groupBy: 'category', limit: undefined })
+  })
+})
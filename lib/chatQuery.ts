@@ -0,0 +1,456 @@
+/**
+ * Chat Query Engine
+ *
+ * Answers numeric questions about the analyzed transactions — "how much did
+ * I spend on Swiggy in June?", "top 3 merchants by count" — exactly, without
+ * the agent. A small intent parser turns the question into a query (filters
+ * on merchant, category and date range, an aggregate, an optional grouping
+ * and top-N) and gives up on any question with words it cannot account for,
+ * so open-ended questions still go to the manager agent.
+ *
+ * Relative dates are read against the statement, not the calendar: "this
+ * month" is the month of the latest transaction and "last month" the one
+ * before it.
+ *
+ * @example
+ * ```ts
+ * import { answerLocally } from '@/lib/chatQuery'
+ *
+ * const answer = answerLocally('top 3 merchants by count', dashboardData.transactions, { taxonomy })
+ * if (answer) {
+ *   showAnswer(answer.text)
+ * } // otherwise ask the agent
+ * ```
+ */
+
+import { isCredit, type Transaction } from '@/lib/transactions'
+import { DEFAULT_TAXONOMY, getCategoryLabel, resolveCategoryKey, type Taxonomy } from '@/lib/taxonomy'
+import { MONTHS, getQuestionMonths } from '@/lib/chatContext'
+
+// Types
+export type QueryAggregate = 'sum' | 'count' | 'avg' | 'max'
+
+export type QueryGroupBy = 'merchant' | 'category' | 'month' | 'week'
+
+export interface QueryFilter {
+  /** Merchant names as they appear in the transactions */
+  merchants: string[]
+  /** Category keys of the taxonomy */
+  categories: string[]
+  /** Inclusive ISO dates */
+  from?: string
+  to?: string
+}
+
+export interface TransactionQuery {
+  filter: QueryFilter
+  aggregate: QueryAggregate
+  groupBy?: QueryGroupBy
+  /** Keep only the N largest groups */
+  limit?: number
+}
+
+export interface QueryGroup {
+  key: string
+  label: string
+  amount: number
+  count: number
+  /** The query's aggregate over this group */
+  value: number
+}
+
+export interface QueryResult {
+  /** Transactions that passed the filter */
+  count: number
+  amount: number
+  /** The aggregate over every match; for `max`, the largest amount */
+  value: number
+  groups?: QueryGroup[]
+  /** For `max`, the transaction with the largest amount */
+  transaction?: Transaction
+}
+
+export interface LocalAnswer {
+  text: string
+  /** The first line alone, for when the figures are shown as a table or chart */
+  summary: string
+  query: TransactionQuery
+  result: QueryResult
+}
+
+export interface QueryOptions {
+  taxonomy?: Taxonomy
+}
+
+export const DEFAULT_TOP_N = 5
+
+// Words that shape a query without naming anything to filter on
+const QUERY_WORDS = new Set([
+  'how', 'much', 'many', 'did', 'do', 'does', 'i', 'my', 'me', 'we', 'our', 'on', 'at', 'in', 'of', 'for', 'from',
+  'to', 'the', 'a', 'an', 'and', 'or', 'was', 'were', 'is', 'are', 'it', 'have', 'has', 'had', 'been', 'spend',
+  'spent', 'spending', 'spends', 'pay', 'paid', 'payments', 'payment', 'cost', 'costs', 'total', 'totals', 'sum',
+  'amount', 'amounts', 'transaction', 'transactions', 'purchase', 'purchases', 'order', 'orders', 'what', 'which',
+  'where', 'show', 'list', 'give', 'tell', 'count', 'number', 'times', 'often', 'frequent', 'frequently',
+  'average', 'avg', 'mean', 'per', 'by', 'each', 'top', 'most', 'biggest', 'largest', 'highest', 'expensive',
+  'single', 'merchant', 'merchants', 'store', 'stores', 'shop', 'shops', 'category', 'categories', 'month', 'months',
+  'monthly', 'week', 'weeks', 'weekly', 'this', 'last', 'previous', 'year', 'during', 'all', 'overall', 'altogether',
+  'breakdown', 'trend', 'went', 'go', 'money', 'may', 'please', 'so', 'far', 'across', 'with', 'can', 'you',
+  'between', 'since', 'until',
+])
+
+// Questions asking for judgement rather than figures
+const OPEN_ENDED = /\b(why|should|could|would|advice|advise|recommend|suggest|improve|reduce|cut|compare|better|worse|explain|tips?|afford|normal|too|habits?|insights?)\b/
+
+const MERCHANT_NOUN = /\b(merchants?|stores?|shops?)\b/
+const CATEGORY_NOUN = /\bcategor(y|ies)\b/
+
+const tokenize = (text: string) =>
+  (
+    text
+      .toLowerCase()
+      .replace(/['’]s\b/g, '')
+      .replace(/['’]/g, '')
+      .match(/[a-z0-9&]+/g) || []
+  ).join(' ')
+
+const toPaise = (amount: number) => Math.round(Math.abs(Number(amount) || 0) * 100)
+
+const formatAmount = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+const isMonthToken = (token: string) =>
+  MONTHS.some((month) => token === month || (token.length >= 3 && month.startsWith(token)))
+
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+const monthStart = (year: number, month: number) => `${year}-${String(month + 1).padStart(2, '0')}-01`
+
+const monthEnd = (year: number, month: number) =>
+  `${year}-${String(month + 1).padStart(2, '0')}-${String(lastDayOfMonth(year, month)).padStart(2, '0')}`
+
+const monthName = (month: number) => MONTHS[month][0].toUpperCase() + MONTHS[month].slice(1)
+
+// Date range named in the question, resolved against the statement's dates
+function parseDateRange(question: string, dates: string[]): { from?: string; to?: string } {
+  const latest = dates[dates.length - 1]
+  if (!latest) return {}
+  const latestYear = Number(latest.slice(0, 4))
+  const latestMonth = Number(latest.slice(5, 7)) - 1
+  const text = question.toLowerCase()
+
+  if (/\bthis month\b/.test(text)) {
+    return { from: monthStart(latestYear, latestMonth), to: monthEnd(latestYear, latestMonth) }
+  }
+  if (/\b(last|previous) month\b/.test(text)) {
+    const year = latestMonth === 0 ? latestYear - 1 : latestYear
+    const month = (latestMonth + 11) % 12
+    return { from: monthStart(year, month), to: monthEnd(year, month) }
+  }
+
+  const years = (text.match(/\b(19|20)\d{2}\b/g) || []).map(Number)
+  if (/\bthis year\b/.test(text)) years.push(latestYear)
+  if (/\b(last|previous) year\b/.test(text)) years.push(latestYear - 1)
+
+  const months = getQuestionMonths(question)
+  if (months.length > 0) {
+    // Without a year, a month means its latest occurrence in the statement
+    const yearFor = (month: number) => {
+      if (years.length > 0) return Math.max(...years)
+      const seen = dates.filter((date) => Number(date.slice(5, 7)) - 1 === month).map((date) => Number(date.slice(0, 4)))
+      return seen.length > 0 ? Math.max(...seen) : latestYear
+    }
+    const starts = months.map((month) => monthStart(yearFor(month), month)).sort()
+    const ends = months.map((month) => monthEnd(yearFor(month), month)).sort()
+    return { from: starts[0], to: ends[ends.length - 1] }
+  }
+
+  if (years.length > 0) {
+    return { from: `${Math.min(...years)}-01-01`, to: `${Math.max(...years)}-12-31` }
+  }
+  return {}
+}
+
+function parseAggregate(text: string): QueryAggregate | null {
+  if (/\b(average|avg|mean)\b/.test(text)) return 'avg'
+  if (/\bhow many\b|\bnumber of\b|\bhow often\b|\bcount\b|\btimes\b|\bfrequent(ly)?\b/.test(text)) return 'count'
+  if (/\b(biggest|largest|highest|most expensive)\b/.test(text)) return 'max'
+  if (/\bhow much\b|\btotal\b|\bspen[dt]\b|\bsum\b|\bpaid\b|\bcost\b|\bwent\b/.test(text)) return 'sum'
+  return null
+}
+
+function parseGroupBy(text: string): QueryGroupBy | undefined {
+  if (/\b(by|per|each) week\b|\bweekly\b/.test(text)) return 'week'
+  if (/\b(by|per|each) month\b|\bmonthly\b|\btrend\b/.test(text)) return 'month'
+  if (/\b(by|per|each) categor(y|ies)\b/.test(text)) return 'category'
+  if (/\b(by|per|each) (merchant|store|shop)s?\b/.test(text)) return 'merchant'
+  const ranking = /\b(top|most|which|biggest|largest|highest)\b/.test(text)
+  if (ranking && CATEGORY_NOUN.test(text)) return 'category'
+  if (ranking && MERCHANT_NOUN.test(text)) return 'merchant'
+  // "where did I spend the most" ranks merchants
+  if (/\b(top|most)\b/.test(text)) return 'merchant'
+  return undefined
+}
+
+/**
+ * Turn a question into a query, or null when it is open-ended or mentions
+ * something the engine cannot filter on
+ */
+export function parseQueryIntent(
+  question: string,
+  transactions: Transaction[],
+  options: QueryOptions = {}
+): TransactionQuery | null {
+  const taxonomy = options.taxonomy || DEFAULT_TAXONOMY
+  const text = tokenize(question)
+  if (!text || OPEN_ENDED.test(text)) return null
+
+  let aggregate = parseAggregate(text)
+  const groupBy = parseGroupBy(text)
+  if (!aggregate && !groupBy) return null
+  // A ranking of merchants or categories is by amount unless counting was asked for
+  if (!aggregate || (groupBy && aggregate === 'max')) aggregate = 'sum'
+
+  // Names that read the same ("SWIGGY", "Swiggy") share one phrase
+  const phrases = new Map<string, { merchants: string[]; categories: string[] }>()
+  const addPhrase = (name: string, kind: 'merchants' | 'categories', value: string) => {
+    const phrase = tokenize(name)
+    if (!phrase) return
+    const entry = phrases.get(phrase) || { merchants: [], categories: [] }
+    if (!entry[kind].includes(value)) entry[kind].push(value)
+    phrases.set(phrase, entry)
+  }
+  transactions.forEach((txn) => addPhrase(txn.merchant, 'merchants', txn.merchant.trim()))
+  taxonomy.categories.forEach((category) =>
+    [category.label, category.key.replace(/_/g, ' '), ...category.aliases].forEach((name) =>
+      addPhrase(name, 'categories', category.key)
+    )
+  )
+
+  // Match names longest first, blanking each out so shorter names can't match inside it
+  let rest = ` ${text} `
+  const merchants = new Set<string>()
+  const categories = new Set<string>()
+  Array.from(phrases.keys())
+    .sort((a, b) => b.length - a.length)
+    .forEach((phrase) => {
+      const form = [` ${phrase} `, ` ${phrase}s `].find((candidate) => rest.includes(candidate))
+      if (!form) return
+      rest = rest.split(form).join(' ')
+      phrases.get(phrase)!.merchants.forEach((merchant) => merchants.add(merchant))
+      phrases.get(phrase)!.categories.forEach((category) => categories.add(category))
+    })
+
+  const topMatch = text.match(/\btop (\d{1,3})\b/)
+  const leftover = rest
+    .split(' ')
+    .filter(Boolean)
+    .filter((token) => !QUERY_WORDS.has(token) && !isMonthToken(token) && !/^(19|20)\d{2}$/.test(token))
+    .filter((token) => !(topMatch && token === topMatch[1]))
+  if (leftover.length > 0) return null
+
+  const dates = transactions.map((txn) => txn.date).filter(Boolean).sort()
+  const range = parseDateRange(question, dates)
+
+  let limit: number | undefined
+  if (topMatch) limit = Math.max(1, Number(topMatch[1]))
+  else if (/\btop\b/.test(text)) limit = DEFAULT_TOP_N
+  else if (groupBy === 'merchant' || groupBy === 'category') {
+    // "which merchant" and "the most" ask for one; "which merchants" for a ranking
+    const singular = !/\b(merchants|stores|shops|categories)\b/.test(text)
+    if (/\b(which|what|where|most|biggest|largest|highest)\b/.test(text) && singular) limit = 1
+  }
+
+  return {
+    filter: { merchants: Array.from(merchants), categories: Array.from(categories), ...range },
+    aggregate,
+    groupBy,
+    limit,
+  }
+}
+
+// Monday of the transaction's week
+const weekStart = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+  return day.toISOString().slice(0, 10)
+}
+
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  return `${day} ${monthName(month - 1).slice(0, 3)} ${year}`
+}
+
+/**
+ * Run a query over the transactions. Amounts are summed in paise so totals
+ * match the dashboard exactly.
+ */
+export function runQuery(transactions: Transaction[], query: TransactionQuery, options: QueryOptions = {}): QueryResult {
+  const taxonomy = options.taxonomy || DEFAULT_TAXONOMY
+  const { filter } = query
+  const categoryOf = (txn: Transaction) => resolveCategoryKey(taxonomy, txn.category || '', txn.subcategory || '')
+
+  const matches = transactions.filter((txn) => {
+    if (isCredit(txn)) return false
+    if (filter.merchants.length > 0 && !filter.merchants.includes(txn.merchant.trim())) return false
+    if (filter.categories.length > 0 && !filter.categories.includes(categoryOf(txn))) return false
+    if (filter.from && !(txn.date && txn.date >= filter.from)) return false
+    if (filter.to && !(txn.date && txn.date <= filter.to)) return false
+    return true
+  })
+
+  const valueOf = (paise: number, count: number) => {
+    if (query.aggregate === 'count') return count
+    if (query.aggregate === 'avg') return count > 0 ? Math.round(paise / count) / 100 : 0
+    return paise / 100
+  }
+
+  const totalPaise = matches.reduce((sum, txn) => sum + toPaise(txn.amount), 0)
+  const largest = matches.reduce<Transaction | undefined>(
+    (best, txn) => (!best || toPaise(txn.amount) > toPaise(best.amount) ? txn : best),
+    undefined
+  )
+  const result: QueryResult = {
+    count: matches.length,
+    amount: totalPaise / 100,
+    value: query.aggregate === 'max' ? (largest ? toPaise(largest.amount) / 100 : 0) : valueOf(totalPaise, matches.length),
+    transaction: query.aggregate === 'max' ? largest : undefined,
+  }
+  if (!query.groupBy) return result
+
+  const groups = new Map<string, { label: string; paise: number; count: number }>()
+  matches.forEach((txn) => {
+    let key: string
+    let label: string
+    if (query.groupBy === 'merchant') {
+      label = txn.merchant.trim() || 'Unknown'
+      key = label.toLowerCase()
+    } else if (query.groupBy === 'category') {
+      key = categoryOf(txn)
+      label = getCategoryLabel(taxonomy, key)
+    } else if (query.groupBy === 'month') {
+      key = txn.date ? txn.date.slice(0, 7) : 'undated'
+      label = txn.date ? `${monthName(Number(key.slice(5, 7)) - 1).slice(0, 3)} ${key.slice(0, 4)}` : 'Undated'
+    } else {
+      key = txn.date ? weekStart(txn.date) : 'undated'
+      label = txn.date ? `Week of ${formatDate(key)}` : 'Undated'
+    }
+    const entry = groups.get(key) || { label, paise: 0, count: 0 }
+    entry.paise += toPaise(txn.amount)
+    entry.count++
+    groups.set(key, entry)
+  })
+
+  let list: QueryGroup[] = Array.from(groups.entries()).map(([key, entry]) => ({
+    key,
+    label: entry.label,
+    amount: entry.paise / 100,
+    count: entry.count,
+    value: valueOf(entry.paise, entry.count),
+  }))
+
+  // Periods read best in order unless a top-N was asked for
+  const chronological = (query.groupBy === 'month' || query.groupBy === 'week') && !query.limit
+  list.sort(chronological ? (a, b) => a.key.localeCompare(b.key) : (a, b) => b.value - a.value || a.label.localeCompare(b.label))
+  if (query.limit) list = list.slice(0, query.limit)
+
+  return { ...result, groups: list }
+}
+
+function describeScope(filter: QueryFilter, taxonomy: Taxonomy): string {
+  const parts: string[] = []
+  if (filter.merchants.length > 0) {
+    // Spellings of the same merchant are named once
+    const names = new Map<string, string>()
+    filter.merchants.forEach((name) => {
+      if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name)
+    })
+    parts.push(`at ${Array.from(names.values()).join(' or ')}`)
+  }
+  if (filter.categories.length > 0) {
+    parts.push(`on ${filter.categories.map((key) => getCategoryLabel(taxonomy, key)).join(' or ')}`)
+  }
+  if (filter.from && filter.to) {
+    const [fromYear, fromMonth, fromDay] = filter.from.split('-').map(Number)
+    const [toYear, toMonth] = filter.to.split('-').map(Number)
+    const wholeMonths = fromDay === 1 && filter.to === monthEnd(toYear, toMonth - 1)
+    if (wholeMonths && fromYear === toYear && fromMonth === 1 && toMonth === 12) parts.push(`in ${fromYear}`)
+    else if (wholeMonths && fromYear === toYear && fromMonth === toMonth) parts.push(`in ${monthName(fromMonth - 1)} ${fromYear}`)
+    else if (wholeMonths) {
+      parts.push(`from ${monthName(fromMonth - 1)} ${fromYear} to ${monthName(toMonth - 1)} ${toYear}`)
+    } else parts.push(`from ${formatDate(filter.from)} to ${formatDate(filter.to)}`)
+  }
+  return parts.join(' ')
+}
+
+const AGGREGATE_LABELS: Record<QueryAggregate, string> = {
+  sum: 'amount spent',
+  count: 'number of transactions',
+  avg: 'average transaction',
+  max: 'amount spent',
+}
+
+const GROUP_NOUNS: Record<QueryGroupBy, [string, string]> = {
+  merchant: ['merchant', 'merchants'],
+  category: ['category', 'categories'],
+  month: ['month', 'months'],
+  week: ['week', 'weeks'],
+}
+
+/**
+ * Plain-language answer for a query result
+ */
+export function formatQueryAnswer(query: TransactionQuery, result: QueryResult, options: QueryOptions = {}): string {
+  const scope = describeScope(query.filter, options.taxonomy || DEFAULT_TAXONOMY)
+  const withScope = (text: string) => (scope ? `${text} ${scope}` : text)
+
+  if (result.count === 0) return `${withScope('No transactions found')}.`
+
+  if (query.groupBy && result.groups) {
+    const [singular, pluralNoun] = GROUP_NOUNS[query.groupBy]
+    const heading = query.limit
+      ? `Top ${result.groups.length === 1 ? singular : `${result.groups.length} ${pluralNoun}`} by ${AGGREGATE_LABELS[query.aggregate]}`
+      : `${AGGREGATE_LABELS[query.aggregate][0].toUpperCase()}${AGGREGATE_LABELS[query.aggregate].slice(1)} by ${singular}`
+    const lines = result.groups.map((group, index) => {
+      const figures =
+        query.aggregate === 'count'
+          ? `${plural(group.count, 'transaction')} (${formatAmount(group.amount)})`
+          : query.aggregate === 'avg'
+            ? `${formatAmount(group.value)} average (${plural(group.count, 'transaction')})`
+            : `${formatAmount(group.amount)} (${plural(group.count, 'transaction')})`
+      return `${index + 1}. ${group.label} — ${figures}`
+    })
+    return [`${withScope(heading)}:`, ...lines].join('\n')
+  }
+
+  switch (query.aggregate) {
+    case 'count':
+      return `${withScope(`You made ${plural(result.count, 'transaction')}`)}, totalling ${formatAmount(result.amount)}.`
+    case 'avg':
+      return `${withScope('Your average transaction')} was ${formatAmount(result.value)} (${plural(result.count, 'transaction')}, ${formatAmount(result.amount)} in total).`
+    case 'max': {
+      const txn = result.transaction!
+      return `${withScope('Your largest transaction')} was ${formatAmount(result.value)} at ${txn.merchant} on ${txn.date ? formatDate(txn.date) : 'an unknown date'}.`
+    }
+    default:
+      return `${withScope(`You spent ${formatAmount(result.amount)}`)} across ${plural(result.count, 'transaction')}.`
+  }
+}
+
+/**
+ * Answer a question from the transactions alone, or null when the agent
+ * should answer it
+ */
+export function answerLocally(
+  question: string,
+  transactions: Transaction[],
+  options: QueryOptions = {}
+): LocalAnswer | null {
+  if (transactions.length === 0) return null
+  const query = parseQueryIntent(question, transactions, options)
+  if (!query) return null
+  const result = runQuery(transactions, query, options)
+  const text = formatQueryAnswer(query, result, options)
+  return { text, summary: text.split('\n')[0], query, result }
+}
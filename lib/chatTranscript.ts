@@ -0,0 +1,116 @@
+/**
+ * Chat Transcript
+ *
+ * Multi-turn memory for the "Ask Questions" chat. Each analysis gets its own
+ * agent session, and every question is sent with a short window of the
+ * preceding turns so follow-ups such as "and last month?" can be resolved
+ * even when the agent does not keep the session history itself.
+ *
+ * @example
+ * ```ts
+ * import { buildChatMessage, createChatSessionId } from '@/lib/chatTranscript'
+ *
+ * const sessionId = createChatSessionId(agentId)
+ * const message = buildChatMessage('and last month?', chatMessages)
+ * await callAIAgentStream(message, agentId, { session_id: sessionId })
+ * ```
+ */
+
+import { generateUUID } from '@/lib/utils'
+import type { ContextSlice } from '@/lib/chatContext'
+import type { ChatPayload } from '@/lib/chatPayload'
+
+// Types
+export interface ChatTurn {
+  role: 'user' | 'assistant'
+  content: string
+  /** Still being written; left out of the transcript */
+  streaming?: boolean
+  /** Stopped before the agent finished; left out of the transcript */
+  cancelled?: boolean
+  /** An error shown in place of an answer; left out of the transcript */
+  failed?: boolean
+}
+
+/**
+ * A turn as shown in the chat
+ */
+export interface ChatMessage extends ChatTurn {
+  /** Dashboard data sent along with the question this answers */
+  contextSlices?: ContextSlice[]
+  /** Answered from the transactions by the local query engine, not the agent */
+  computedLocally?: boolean
+  /** Chart, table or KPI shown under the text */
+  payload?: ChatPayload | null
+}
+
+export interface TranscriptOptions {
+  /** Most recent turns to include */
+  maxTurns?: number
+  /** Longer turns are cut to this many characters */
+  maxTurnChars?: number
+}
+
+export interface ChatMessageOptions extends TranscriptOptions {
+  /** Analyzed data to answer from, e.g. from `buildChatContext` */
+  context?: string
+  /** How to shape the answer, e.g. `CHAT_PAYLOAD_INSTRUCTIONS` */
+  instructions?: string
+}
+
+export const DEFAULT_TRANSCRIPT_TURNS = 6
+export const DEFAULT_TURN_CHARS = 400
+
+/**
+ * Session id for one analysis, in the same form the agent route generates
+ */
+export function createChatSessionId(agentId: string): string {
+  return `${agentId}-${generateUUID().substring(0, 12)}`
+}
+
+const truncate = (text: string, maxChars: number) =>
+  text.length > maxChars ? `${text.slice(0, maxChars - 1).trimEnd()}…` : text
+
+/**
+ * The last completed turns, oldest first, with long answers shortened
+ */
+export function getTranscriptWindow(history: ChatTurn[], options: TranscriptOptions = {}): ChatTurn[] {
+  const maxTurns = options.maxTurns ?? DEFAULT_TRANSCRIPT_TURNS
+  const maxTurnChars = options.maxTurnChars ?? DEFAULT_TURN_CHARS
+  if (maxTurns <= 0) return []
+
+  return history
+    .filter((turn) => !turn.streaming && !turn.cancelled && !turn.failed && turn.content.trim())
+    .slice(-maxTurns)
+    .map((turn) => ({ role: turn.role, content: truncate(turn.content.trim().replace(/\s+/g, ' '), maxTurnChars) }))
+}
+
+export function formatTranscript(turns: ChatTurn[]): string {
+  return turns.map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n')
+}
+
+/**
+ * The chat request for `question`, preceded by the data to answer from and
+ * the recent conversation. `history` holds the turns before the question.
+ */
+export function buildChatMessage(question: string, history: ChatTurn[], options: ChatMessageOptions = {}): string {
+  const parts: string[] = []
+
+  if (options.context) {
+    parts.push(
+      'Analyzed transaction data (answer from these figures; say so if they are not enough):',
+      options.context,
+      ''
+    )
+  }
+
+  const turns = getTranscriptWindow(history, options)
+  if (turns.length > 0) {
+    parts.push('Conversation so far (resolve follow-up questions against it):', formatTranscript(turns), '')
+  }
+
+  if (options.instructions) parts.push(options.instructions, '')
+
+  parts.push(`Based on the analyzed transaction data, answer this query: ${question.trim()}`)
+  return parts.join('\n')
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { applyColumnMapping, guessColumnMapping, parseAmount } from '@/lib/columnMapping'
+
+describe('parseAmount', () => {
+  it('reads Indian-grouped amounts with currency markers', () => {
+    expect(parseAmount('₹1,23,456.78')).toBe(123456.78)
+    expect(parseAmount('Rs. 500')).toBe(500)
+    expect(parseAmount('Rs.1,200.00')).toBe(1200)
+    expect(parseAmount('INR 2,500')).toBe(2500)
+    expect(parseAmount('1,200.00 INR')).toBe(1200)
+  })
+
+  it('reads negative and debit-marked amounts as negative', () => {
+    expect(parseAmount('(500)')).toBe(-500)
+    expect(parseAmount('-250')).toBe(-250)
+    expect(parseAmount('1,200.00 Dr')).toBe(-1200)
+    expect(parseAmount('1,200.00 Cr')).toBe(1200)
+  })
+
+  it('reads comma-decimal amounts by the last separator', () => {
+    expect(parseAmount('1.234,56')).toBe(1234.56)
+    expect(parseAmount('12,5')).toBe(12.5)
+    expect(parseAmount('1.234.567')).toBe(1234567)
+    expect(parseAmount('1,234')).toBe(1234)
+  })
+
+  it('returns null when nothing numeric or the grouping is ambiguous', () => {
+    expect(parseAmount('')).toBeNull()
+    expect(parseAmount('Rs.')).toBeNull()
+    expect(parseAmount('-')).toBeNull()
+    expect(parseAmount('1,2,3.4,5')).toBeNull()
+    expect(parseAmount(undefined)).toBeNull()
+  })
+})
+
+describe('applyColumnMapping', () => {
+  it('resolves direction from split debit/credit columns', () => {
+    const headers = ['Txn Date', 'Narration', 'Withdrawal Amt', 'Deposit Amt']
+    const mapping = guessColumnMapping(headers)
+
+    expect(mapping).toMatchObject({ date: 0, merchant: 1, debit: 2, credit: 3 })
+
+    const [spend, refund] = applyColumnMapping(
+      [
+        ['01/02/2024', 'SWIGGY  BANGALORE', 'Rs. 450.00', ''],
+        ['02/02/2024', 'AMAZON REFUND', '', '1,299.00'],
+      ],
+      mapping
+    )
+    expect(spend).toMatchObject({ merchant: 'SWIGGY BANGALORE', amount: 450, direction: 'debit', sourceRow: 1 })
+    expect(refund).toMatchObject({ amount: 1299, direction: 'credit', currency: 'INR' })
+  })
+
+  it('uses a Dr/Cr flag column with a single amount column', () => {
+    const mapping = guessColumnMapping(['Date', 'Description', 'Amount', 'Dr/Cr'])
+    const [row] = applyColumnMapping([['2024-02-01', 'Salary', '50,000.00', 'CR']], mapping)
+
+    expect(row).toMatchObject({ amount: 50000, direction: 'credit' })
+  })
+
+  it('reads direction from the sign of a single amount column', () => {
+    const mapping = guessColumnMapping(['Date', 'Description', 'Amount'])
+    const rows = [
+      ['2024-02-01', 'Salary', '+50,000.00'],
+      ['2024-02-02', 'Swiggy', '-450'],
+      ['2024-02-03', 'Refund', '(120.00)'],
+      ['2024-02-04', 'Rent', '15,000 Dr'],
+    ]
+
+    const [salary, swiggy, refund, rent] = applyColumnMapping(rows, mapping)
+    expect(salary).toMatchObject({ amount: 50000, direction: 'credit' })
+    expect(swiggy).toMatchObject({ amount: 450, direction: 'debit' })
+    expect(refund).toMatchObject({ amount: 120, direction: 'debit' })
+    expect(rent).toMatchObject({ amount: 15000, direction: 'debit' })
+  })
+
+  it('flips the sign for exports listing spends as positive numbers', () => {
+    const mapping = guessColumnMapping(['Date', 'Description', 'Amount'])
+    const rows = [
+      ['2024-02-01', 'Swiggy', '450'],
+      ['2024-02-02', 'Refund', '-450'],
+      ['2024-02-03', 'Cashback', '25 Cr'],
+    ]
+
+    const [spend, refund, cashback] = applyColumnMapping(rows, mapping, { amountSign: 'positive_debit' })
+    expect(spend.direction).toBe('debit')
+    expect(refund).toMatchObject({ amount: 450, direction: 'credit' })
+    expect(cashback.direction).toBe('credit')
+  })
+
+  it('marks unreadable amounts as NaN instead of dropping the row', () => {
+    const mapping = guessColumnMapping(['Date', 'Description', 'Amount'])
+    const [row] = applyColumnMapping([['2024-02-01', 'Zomato', 'n/a']], mapping)
+
+    expect(row.amount).toBeNaN()
+  })
+})
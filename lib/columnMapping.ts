@@ -0,0 +1,272 @@
+/**
+ * Column Mapping
+ *
+ * Maps the columns of a parsed statement onto the fields the analysis
+ * pipeline needs (date, merchant, amount, debit/credit, currency) and turns
+ * raw string rows into typed transactions.
+ *
+ * @example
+ * ```ts
+ * import { parseCSV } from '@/lib/csvParser'
+ * import { guessColumnMapping, applyColumnMapping } from '@/lib/columnMapping'
+ *
+ * const { headers, rows } = parseCSV(text)
+ * const mapping = guessColumnMapping(headers)
+ * const transactions = applyColumnMapping(rows, mapping)
+ * ```
+ */
+
+// Types
+export type MappableField = 'date' | 'merchant' | 'amount' | 'debit' | 'credit' | 'type' | 'currency'
+
+/** Column index per field, or null when the statement has no such column */
+export type ColumnMapping = Record<MappableField, number | null>
+
+export type TransactionDirection = 'debit' | 'credit'
+
+/** Which sign a single amount column uses for money out */
+export type AmountSign = 'negative_debit' | 'positive_debit'
+
+export interface MappedTransaction {
+  date: string
+  merchant: string
+  amount: number
+  direction: TransactionDirection
+  currency: string
+  /** 1-based data row in the source file (header excluded) */
+  sourceRow: number
+}
+
+export interface MappingFieldInfo {
+  field: MappableField
+  label: string
+  description: string
+}
+
+export const MAPPABLE_FIELDS: MappingFieldInfo[] = [
+  { field: 'date', label: 'Date', description: 'Transaction or value date' },
+  { field: 'merchant', label: 'Merchant', description: 'Narration, description or payee' },
+  { field: 'amount', label: 'Amount', description: 'Single signed amount column' },
+  { field: 'debit', label: 'Debit', description: 'Withdrawal amount column' },
+  { field: 'credit', label: 'Credit', description: 'Deposit amount column' },
+  { field: 'type', label: 'Debit/Credit flag', description: 'Column holding Dr/Cr or Debit/Credit' },
+  { field: 'currency', label: 'Currency', description: 'ISO currency code' },
+]
+
+export const AMOUNT_SIGNS: { value: AmountSign; label: string }[] = [
+  { value: 'negative_debit', label: 'Negative is money out' },
+  { value: 'positive_debit', label: 'Positive is money out' },
+]
+
+export const DEFAULT_CURRENCY = 'INR'
+
+export const EMPTY_MAPPING: ColumnMapping = {
+  date: null,
+  merchant: null,
+  amount: null,
+  debit: null,
+  credit: null,
+  type: null,
+  currency: null,
+}
+
+// Header keywords used to guess a mapping, most specific first
+const HEADER_HINTS: Record<MappableField, RegExp[]> = {
+  date: [/^(txn|transaction|tran|posting|value)?\s*date$/, /date/],
+  merchant: [/merchant/, /narration/, /description/, /particulars/, /payee/, /details/, /remarks/],
+  amount: [/^(txn|transaction)?\s*amount(\s*\(.*\))?$/, /^amt$/, /amount/],
+  debit: [/debit/, /withdrawal/, /^dr$/, /paid out/],
+  credit: [/credit/, /deposit/, /^cr$/, /paid in/],
+  type: [/^(dr|cr)\s*\/\s*(cr|dr)$/, /^type$/, /txn type/, /transaction type/, /debit\s*\/\s*credit/],
+  currency: [/currency/, /^ccy$/, /^cur$/],
+}
+
+// Fields matched first claim their column so e.g. "Debit/Credit" isn't also taken as debit
+const GUESS_ORDER: MappableField[] = ['type', 'date', 'currency', 'debit', 'credit', 'amount', 'merchant']
+
+/**
+ * Guess which column holds which field from the header row
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = { ...EMPTY_MAPPING }
+  const normalized = headers.map((header) => header.trim().toLowerCase())
+  const claimed = new Set<number>()
+
+  for (const field of GUESS_ORDER) {
+    for (const hint of HEADER_HINTS[field]) {
+      const idx = normalized.findIndex((header, i) => !claimed.has(i) && hint.test(header))
+      if (idx !== -1) {
+        mapping[field] = idx
+        claimed.add(idx)
+        break
+      }
+    }
+  }
+
+  return mapping
+}
+
+/**
+ * A mapping is usable once it has a date, a merchant and some way to read an amount
+ */
+export function getMappingErrors(mapping: ColumnMapping): string[] {
+  const errors: string[] = []
+  if (mapping.date === null) errors.push('Select the date column')
+  if (mapping.merchant === null) errors.push('Select the merchant column')
+  if (mapping.amount === null && mapping.debit === null && mapping.credit === null) {
+    errors.push('Select an amount column, or debit and credit columns')
+  }
+  return errors
+}
+
+export function isMappingComplete(mapping: ColumnMapping): boolean {
+  return getMappingErrors(mapping).length === 0
+}
+
+/** Currency markers printed next to amounts: ₹, Rs., INR and the like */
+const CURRENCY_MARKERS = /₹|[$€£]|\b(?:rs|inr|usd|eur|gbp)\b\.?/gi
+
+/**
+ * Turn the digits and separators of an amount into a plain decimal string.
+ * The last separator decides the decimal mark: "1.234,56" and "12,5" are read
+ * as comma-decimal, while "1,200", "1,23,456" and "1.234.567" only group
+ * thousands. Returns null when the grouping makes no sense ("1,2,3.4,5").
+ */
+function normalizeSeparators(digits: string): string | null {
+  const lastComma = digits.lastIndexOf(',')
+  const lastDot = digits.lastIndexOf('.')
+
+  let integer = digits
+  let fraction = ''
+  if (lastComma > lastDot) {
+    const tail = digits.slice(lastComma + 1)
+    if (lastDot >= 0 || /^\d{1,2}$/.test(tail)) {
+      integer = digits.slice(0, lastComma)
+      fraction = tail
+    }
+  } else if (lastDot >= 0 && digits.indexOf('.') === lastDot) {
+    integer = digits.slice(0, lastDot)
+    fraction = digits.slice(lastDot + 1)
+  }
+
+  if (/[.,]/.test(fraction)) return null
+  // Whatever separators are left group thousands (or lakhs); mixing both is ambiguous
+  if (integer.includes(',') && integer.includes('.')) return null
+  if (/[.,]$|^[.,]|[.,]{2}/.test(integer)) return null
+  integer = integer.replace(/[.,]/g, '')
+
+  if (!integer && !fraction) return null
+  return `${integer || '0'}${fraction ? `.${fraction}` : ''}`
+}
+
+/**
+ * Parse an amount as printed on a statement: "₹1,23,456.78", "Rs. 500",
+ * "(500)", "-250", "1,200.00 Dr", "1.234,56 EUR". Returns null when nothing
+ * numeric is present or the separators can't be read unambiguously.
+ */
+export function parseAmount(value: string | null | undefined): number | null {
+  if (value === null || value === undefined) return null
+  let text = String(value).trim()
+  if (!text) return null
+
+  let negative = false
+  if (/^\(.*\)$/.test(text)) {
+    negative = true
+    text = text.slice(1, -1)
+  }
+  if (/\bdr\.?$/i.test(text)) {
+    negative = true
+  }
+
+  const cleaned = text
+    .replace(CURRENCY_MARKERS, '')
+    .replace(/\b(?:dr|cr)\.?$/i, '')
+    .replace(/[^0-9.,\-]/g, '')
+  if (cleaned.startsWith('-') || cleaned.endsWith('-')) negative = true
+
+  const digits = cleaned.replace(/-/g, '')
+  if (!/\d/.test(digits)) return null
+  const normalized = normalizeSeparators(digits)
+  if (normalized === null) return null
+
+  const num = Number(normalized)
+  if (!Number.isFinite(num)) return null
+
+  return negative ? -num : num
+}
+
+function parseDirectionFlag(value: string | undefined): TransactionDirection | null {
+  const flag = (value || '').trim().toLowerCase()
+  if (!flag) return null
+  if (flag.startsWith('dr') || flag.startsWith('debit') || flag === 'd' || flag === 'withdrawal') return 'debit'
+  if (flag.startsWith('cr') || flag.startsWith('credit') || flag === 'c' || flag === 'deposit') return 'credit'
+  return null
+}
+
+const cell = (row: string[], idx: number | null): string =>
+  idx === null || idx >= row.length ? '' : (row[idx] ?? '').trim()
+
+/**
+ * Work out amount and direction for one row. Split debit/credit columns win
+ * over a single amount column. A single amount column takes its direction
+ * from a Dr/Cr flag column or a trailing "Dr"/"Cr" when there is one, and
+ * otherwise from its sign: by default negative is a debit and positive a
+ * credit, and `positive_debit` flips that for exports listing spends as
+ * positive numbers.
+ */
+function resolveAmount(
+  row: string[],
+  mapping: ColumnMapping,
+  amountSign: AmountSign
+): { amount: number; direction: TransactionDirection } | null {
+  const debit = parseAmount(cell(row, mapping.debit))
+  const credit = parseAmount(cell(row, mapping.credit))
+
+  if (debit !== null && debit !== 0) {
+    return { amount: Math.abs(debit), direction: 'debit' }
+  }
+  if (credit !== null && credit !== 0) {
+    return { amount: Math.abs(credit), direction: 'credit' }
+  }
+
+  const raw = cell(row, mapping.amount)
+  const amount = parseAmount(raw)
+  if (amount === null) {
+    return debit !== null || credit !== null ? { amount: 0, direction: 'debit' } : null
+  }
+
+  const flag = parseDirectionFlag(cell(row, mapping.type))
+  if (flag) return { amount: Math.abs(amount), direction: flag }
+  if (/\bdr\.?$/i.test(raw)) return { amount: Math.abs(amount), direction: 'debit' }
+  if (/\bcr\.?$/i.test(raw)) return { amount: Math.abs(amount), direction: 'credit' }
+
+  const moneyOut = amountSign === 'positive_debit' ? amount >= 0 : amount <= 0
+  return { amount: Math.abs(amount), direction: moneyOut ? 'debit' : 'credit' }
+}
+
+/**
+ * Apply a column mapping to raw rows. Rows whose amount can't be read are
+ * returned with a NaN amount so the caller can report them rather than
+ * silently dropping data.
+ */
+export function applyColumnMapping(
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: { defaultCurrency?: string; amountSign?: AmountSign } = {}
+): MappedTransaction[] {
+  const defaultCurrency = options.defaultCurrency || DEFAULT_CURRENCY
+  const amountSign = options.amountSign || 'negative_debit'
+
+  return rows.map((row, idx) => {
+    const resolved = resolveAmount(row, mapping, amountSign)
+    return {
+      date: cell(row, mapping.date),
+      merchant: cell(row, mapping.merchant).replace(/\s+/g, ' '),
+      amount: resolved ? resolved.amount : NaN,
+      direction: resolved ? resolved.direction : 'debit',
+      currency: (cell(row, mapping.currency) || defaultCurrency).toUpperCase(),
+      sourceRow: idx + 1,
+    }
+  })
+}
+
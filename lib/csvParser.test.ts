@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { parseCSV, serializeCSV, sniffDelimiter } from '@/lib/csvParser'
+
+describe('parseCSV', () => {
+  it('handles quoted delimiters, escaped quotes and embedded newlines', () => {
+    const text = 'Date,Merchant,Amount\r\n2024-02-01,"Swiggy, Bangalore",450\r\n2024-02-02,"Cafe ""Blue""\nTokri",120\r\n'
+    const { headers, rows, errors, delimiter } = parseCSV(text)
+
+    expect(delimiter).toBe(',')
+    expect(headers).toEqual(['Date', 'Merchant', 'Amount'])
+    expect(rows).toEqual([
+      ['2024-02-01', 'Swiggy, Bangalore', '450'],
+      ['2024-02-02', 'Cafe "Blue"\nTokri', '120'],
+    ])
+    expect(errors).toEqual([])
+  })
+
+  it('strips a BOM and sniffs semicolon and tab delimiters', () => {
+    const { headers, rows, delimiter } = parseCSV('\uFEFFDate;Amount\n01.02.2024;1.234,56')
+
+    expect(delimiter).toBe(';')
+    expect(headers).toEqual(['Date', 'Amount'])
+    expect(rows).toEqual([['01.02.2024', '1.234,56']])
+    expect(sniffDelimiter('a\tb\tc\n1\t2\t3')).toBe('\t')
+  })
+
+  it('skips empty lines and reports rows with the wrong field count', () => {
+    const { rows, errors } = parseCSV('a,b\n1,2\n\n3\n')
+
+    expect(rows).toEqual([['1', '2'], ['3']])
+    expect(errors).toEqual([{ row: 2, message: 'Expected 2 fields but found 1' }])
+  })
+
+  it('drops preamble lines above the header row', () => {
+    const { headers, rows } = parseCSV('Statement for XXXX1234\nDate,Amount\n2024-02-01,10', { headerRow: 1 })
+
+    expect(headers).toEqual(['Date', 'Amount'])
+    expect(rows).toEqual([['2024-02-01', '10']])
+  })
+
+  it('round-trips through serializeCSV', () => {
+    const headers = ['Merchant', 'Note']
+    const rows = [['Swiggy, Bangalore', 'said "hi"\nagain']]
+
+    expect(parseCSV(serializeCSV(headers, rows)).rows).toEqual(rows)
+  })
+})
@@ -0,0 +1,268 @@
+/**
+ * CSV Parser
+ *
+ * RFC 4180 parser for bank statement exports. Handles quoted fields with
+ * embedded delimiters and newlines, escaped quotes (""), CRLF/LF/CR line
+ * endings, a leading UTF-8 BOM, and sniffs the delimiter (`,`, `;` or tab)
+ * when one isn't given.
+ *
+ * @example
+ * ```ts
+ * import { parseCSV } from '@/lib/csvParser'
+ *
+ * const { headers, rows, delimiter } = parseCSV(text)
+ * ```
+ */
+
+// Types
+export type CSVDelimiter = ',' | ';' | '\t'
+
+export const CSV_DELIMITERS: CSVDelimiter[] = [',', ';', '\t']
+
+export interface CSVParseError {
+  row: number
+  message: string
+}
+
+/** Header row plus data rows, whatever file format they came from */
+export interface TabularData {
+  headers: string[]
+  rows: string[][]
+  errors: CSVParseError[]
+}
+
+export interface ParsedCSV extends TabularData {
+  delimiter: CSVDelimiter
+}
+
+export interface TableOptions {
+  hasHeader?: boolean
+  /** 0-based index of the header record; anything above it (statement preambles) is dropped */
+  headerRow?: number
+}
+
+export interface ParseCSVOptions extends TableOptions {
+  delimiter?: CSVDelimiter
+  skipEmptyLines?: boolean
+}
+
+const BOM = '\uFEFF'
+
+/**
+ * Remove a leading UTF-8 byte order mark
+ */
+export function stripBOM(text: string): string {
+  return text.startsWith(BOM) ? text.slice(1) : text
+}
+
+/**
+ * Count occurrences of a delimiter on each of the first few records,
+ * ignoring anything inside quotes.
+ */
+function countDelimiterPerLine(text: string, delimiter: string, maxLines: number): number[] {
+  const counts: number[] = []
+  let inQuotes = false
+  let count = 0
+
+  for (let i = 0; i < text.length && counts.length < maxLines; i++) {
+    const char = text[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && char === delimiter) {
+      count++
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      counts.push(count)
+      count = 0
+    }
+  }
+  if (count > 0 && counts.length < maxLines) counts.push(count)
+
+  return counts
+}
+
+/**
+ * Guess the delimiter from the first lines of the file. The candidate that
+ * appears on every sampled line the same number of times wins; ties go to the
+ * one with more columns. Falls back to comma.
+ */
+export function sniffDelimiter(text: string, sampleLines = 10): CSVDelimiter {
+  const sample = stripBOM(text)
+  let best: CSVDelimiter = ','
+  let bestScore = 0
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = countDelimiterPerLine(sample, delimiter, sampleLines).filter((c, idx, arr) =>
+      // Trailing blank lines shouldn't count against consistency
+      idx < arr.length - 1 || c > 0
+    )
+    if (counts.length === 0 || counts[0] === 0) continue
+
+    const consistent = counts.filter((c) => c === counts[0]).length
+    const score = (consistent / counts.length) * 1000 + counts[0]
+    if (score > bestScore) {
+      bestScore = score
+      best = delimiter
+    }
+  }
+
+  return best
+}
+
+/**
+ * Split CSV text into records of raw field values
+ */
+function tokenize(text: string, delimiter: CSVDelimiter, errors: CSVParseError[]): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+  let quotedStartRow = 0
+
+  const endField = () => {
+    record.push(field)
+    field = ''
+  }
+
+  const endRecord = () => {
+    endField()
+    records.push(record)
+    record = []
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      if (field.trim() === '') {
+        // Opening quote; drop any whitespace that preceded it
+        field = ''
+        inQuotes = true
+        quotedStartRow = records.length + 1
+      } else {
+        // Stray quote in an unquoted field - keep it literally
+        field += char
+      }
+    } else if (char === delimiter) {
+      endField()
+    } else if (char === '\r') {
+      if (text[i + 1] === '\n') i++
+      endRecord()
+    } else if (char === '\n') {
+      endRecord()
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ row: quotedStartRow, message: 'Unterminated quoted field' })
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord()
+  }
+
+  return records
+}
+
+export const isEmptyRecord = (record: string[]) => record.every((value) => value.trim() === '')
+
+/**
+ * Tokenize CSV text into records without treating any of them as a header.
+ * Empty lines are dropped unless `skipEmptyLines` is false.
+ */
+export function readCSVRecords(
+  text: string,
+  options: Pick<ParseCSVOptions, 'delimiter' | 'skipEmptyLines'> = {}
+): { records: string[][]; delimiter: CSVDelimiter; errors: CSVParseError[] } {
+  const { skipEmptyLines = true } = options
+  const clean = stripBOM(text || '')
+  const delimiter = options.delimiter || sniffDelimiter(clean)
+  const errors: CSVParseError[] = []
+
+  let records = tokenize(clean, delimiter, errors)
+  if (skipEmptyLines) {
+    records = records.filter((record) => !isEmptyRecord(record))
+  }
+
+  return { records, delimiter, errors }
+}
+
+/**
+ * Split records into a header row and data rows, flagging rows whose field
+ * count doesn't match the header
+ */
+export function toTable(records: string[][], options: TableOptions = {}): TabularData {
+  const { hasHeader = true, headerRow = 0 } = options
+  const errors: CSVParseError[] = []
+  const body = headerRow > 0 ? records.slice(headerRow) : records
+
+  if (body.length === 0) {
+    return { headers: [], rows: [], errors }
+  }
+
+  const headers = hasHeader
+    ? body[0].map((header) => header.trim())
+    : body[0].map((_, idx) => `Column ${idx + 1}`)
+  const rows = hasHeader ? body.slice(1) : body
+
+  rows.forEach((row, idx) => {
+    if (row.length !== headers.length) {
+      errors.push({
+        row: idx + 1,
+        message: `Expected ${headers.length} fields but found ${row.length}`,
+      })
+    }
+  })
+
+  return { headers, rows, errors }
+}
+
+/**
+ * Parse CSV text into a header row and data rows
+ */
+export function parseCSV(text: string, options: ParseCSVOptions = {}): ParsedCSV {
+  const { records, delimiter, errors } = readCSVRecords(text, options)
+  const table = toTable(records, options)
+
+  return { ...table, delimiter, errors: [...errors, ...table.errors] }
+}
+
+/**
+ * Quote a single value for CSV output when needed
+ */
+export function escapeCSVValue(value: unknown, delimiter: CSVDelimiter = ','): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  if (text.includes('"') || text.includes(delimiter) || text.includes('\n') || text.includes('\r')) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Serialize a header row and data rows back into CSV text
+ */
+export function serializeCSV(
+  headers: string[],
+  rows: unknown[][],
+  delimiter: CSVDelimiter = ','
+): string {
+  return [headers, ...rows]
+    .map((row) => row.map((value) => escapeCSVValue(value, delimiter)).join(delimiter))
+    .join('\n')
+}
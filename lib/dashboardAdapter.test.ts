@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { adaptManagerResponse, parseManagerResponse, previewManagerText } from '@/lib/dashboardAdapter'
+import managerFixture from '@/test_responses/finos_manager_agent.json'
+import strategistFixture from '@/test_responses/strategist_agent.json'
+import managerSchema from '@/response_schemas/finos_manager_agent_response.json'
+
+describe('parseManagerResponse', () => {
+  it('maps the top_merchants manager shape to the canonical dashboard', () => {
+    const { shape, data } = parseManagerResponse(managerFixture.result)
+
+    expect(shape).toBe('dashboard_top_merchants')
+    expect(data.dashboard_data.transactions).toHaveLength(14)
+    expect(data.dashboard_data.category_summary.survival).toEqual({
+      total_amount: 4051.6,
+      percentage: 21.23,
+      transaction_count: 4,
+    })
+    expect(data.dashboard_data.merchant_breakdown[0]).toMatchObject({
+      merchant: 'Amazon',
+      total_amount: 3829.99,
+      transaction_count: 2,
+    })
+  })
+
+  it('reports the sections the top_merchants shape leaves out', () => {
+    const { report } = parseManagerResponse(managerFixture.result)
+
+    expect(report.valid).toBe(false)
+    expect(report.missing).toEqual(['dashboard_data.habit_audit', 'dashboard_data.recommendations'])
+  })
+
+  it('builds a dashboard from relayed Strategist output', () => {
+    const { shape, data, report } = parseManagerResponse(strategistFixture.result)
+
+    expect(shape).toBe('strategist')
+    expect(report.valid).toBe(true)
+    expect(data.dashboard_data.transactions).toHaveLength(strategistFixture.result.categorized_transactions.length)
+    expect(data.dashboard_data.merchant_breakdown[0]).toMatchObject({ merchant: 'Swiggy', total_amount: 970 })
+    expect(data.dashboard_data.category_summary.dining.total_amount).toBe(2440)
+  })
+
+  it('reads the generic response shape as a text answer', () => {
+    const { shape, data } = parseManagerResponse(managerSchema.example_response.result)
+
+    expect(shape).toBe('generic')
+    expect(data.query_response).toBe("I've completed the task you requested")
+  })
+
+  it('unwraps a full envelope sent as fenced JSON text', () => {
+    const text = '```json\n' + JSON.stringify(managerFixture) + '\n```'
+
+    expect(adaptManagerResponse(text).shape).toBe('dashboard_top_merchants')
+  })
+
+  it('treats prose as a text answer', () => {
+    const { shape, result } = adaptManagerResponse('You spent most on dining.')
+
+    expect(shape).toBe('text')
+    expect(result.query_response).toBe('You spent most on dining.')
+  })
+})
+
+describe('previewManagerText', () => {
+  it('shows the answer field of a partial JSON reply', () => {
+    expect(previewManagerText('{"query_response": "You spent \\u20b9')).toBe('You spent ₹')
+    // An escape cut off mid-way is dropped until the rest arrives
+    expect(previewManagerText('{"query_response": "You spent \\u20')).toBe('You spent ')
+    expect(previewManagerText('{"query_response": "Line one\\nLine')).toBe('Line one\nLine')
+  })
+
+  it('passes plain text through', () => {
+    expect(previewManagerText('Plain answer')).toBe('Plain answer')
+  })
+})
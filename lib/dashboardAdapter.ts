@@ -0,0 +1,238 @@
+/**
+ * Dashboard Adapter
+ *
+ * The manager agent does not always answer in the shape the dashboard
+ * expects. This module recognizes each shape seen so far and maps it to the
+ * canonical manager result (`workflow_status`, `dashboard_data`,
+ * `query_response`, `insights`) before validation:
+ *
+ * - `dashboard`: the canonical shape, passed through
+ * - `dashboard_top_merchants`: `top_merchants` instead of `merchant_breakdown`
+ *   and `amount`/`count` category summaries (`test_responses/finos_manager_agent.json`)
+ * - `strategist`: the Strategist's own output relayed unchanged
+ * - `generic`: `response`/`action_taken`/`data`/`suggestions`
+ *   (`response_schemas/finos_manager_agent_response.json`)
+ * - `text`: plain or fenced-JSON text
+ *
+ * Sections the agent did not send (such as `habit_audit`) are left out
+ * rather than invented, so validation reports them as missing.
+ *
+ * @example
+ * ```ts
+ * import { parseManagerResponse } from '@/lib/dashboardAdapter'
+ *
+ * const { shape, data, report } = parseManagerResponse(result.response.result)
+ * ```
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { validateAgentResult, type AgentValidationReport, type ManagerResult } from '@/lib/agentSchemas'
+
+// Types
+export type ManagerResponseShape =
+  | 'dashboard'
+  | 'dashboard_top_merchants'
+  | 'strategist'
+  | 'generic'
+  | 'text'
+  | 'unknown'
+
+export interface AdaptedManagerResponse {
+  shape: ManagerResponseShape
+  /** Canonical manager result, not yet validated */
+  result: Record<string, unknown>
+}
+
+export interface ParsedManagerResponse {
+  shape: ManagerResponseShape
+  data: ManagerResult
+  report: AgentValidationReport
+}
+
+type UnknownRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const looksLikeDashboard = (value: UnknownRecord) =>
+  'category_summary' in value || 'transactions' in value || 'financial_alignment_score' in value
+
+/**
+ * Category summaries with `amount`/`count` become `total_amount`/`transaction_count`
+ */
+function adaptCategorySummary(summary: unknown): unknown {
+  if (!isRecord(summary)) return summary
+  const adapted: UnknownRecord = {}
+  for (const [key, entry] of Object.entries(summary)) {
+    if (!isRecord(entry)) {
+      adapted[key] = entry
+      continue
+    }
+    const { amount, count, ...rest } = entry
+    adapted[key] = {
+      ...rest,
+      total_amount: rest.total_amount ?? amount,
+      transaction_count: rest.transaction_count ?? count,
+    }
+  }
+  return adapted
+}
+
+/**
+ * `top_merchants` entries become merchant breakdown rows. The category is
+ * taken from the merchant's transactions, since top merchants carry none.
+ */
+function adaptTopMerchants(topMerchants: unknown, transactions: unknown): unknown {
+  if (!Array.isArray(topMerchants)) return topMerchants
+  const categories = new Map<string, string>()
+  if (Array.isArray(transactions)) {
+    transactions.forEach((txn) => {
+      if (isRecord(txn) && typeof txn.merchant === 'string' && typeof txn.category === 'string') {
+        const key = txn.merchant.trim().toLowerCase()
+        if (!categories.has(key)) categories.set(key, txn.category)
+      }
+    })
+  }
+
+  return topMerchants.filter(isRecord).map((entry) => ({
+    merchant: entry.merchant,
+    category:
+      entry.category ?? (typeof entry.merchant === 'string' ? categories.get(entry.merchant.trim().toLowerCase()) : '') ?? '',
+    total_amount: entry.total_amount ?? entry.amount,
+    transaction_count: entry.transaction_count ?? entry.count,
+    percentage_of_category: entry.percentage_of_category ?? 0,
+    insights: entry.insights ?? '',
+  }))
+}
+
+/**
+ * Transactions without a subcategory get an empty one
+ */
+function adaptTransactions(transactions: unknown): unknown {
+  if (!Array.isArray(transactions)) return transactions
+  return transactions.map((txn) => (isRecord(txn) ? { subcategory: '', ...txn } : txn))
+}
+
+function adaptDashboard(dashboard: UnknownRecord): UnknownRecord {
+  const { top_merchants: topMerchants, ...rest } = dashboard
+  const adapted: UnknownRecord = { ...rest }
+
+  if ('category_summary' in rest) adapted.category_summary = adaptCategorySummary(rest.category_summary)
+  if ('transactions' in rest) adapted.transactions = adaptTransactions(rest.transactions)
+  if (!('merchant_breakdown' in rest) && topMerchants !== undefined) {
+    adapted.merchant_breakdown = adaptTopMerchants(topMerchants, rest.transactions)
+  }
+  return adapted
+}
+
+function fromStrategist(result: UnknownRecord): UnknownRecord {
+  const transactions = Array.isArray(result.categorized_transactions) ? result.categorized_transactions : []
+  // The Strategist sends no totals; they follow directly from its transactions
+  const dashboard: UnknownRecord = {
+    total_transactions: transactions.length,
+    total_amount: transactions.reduce<number>(
+      (sum, txn) => sum + (isRecord(txn) && typeof txn.amount === 'number' ? txn.amount : 0),
+      0
+    ),
+    transactions,
+    category_summary: result.category_breakdown,
+  }
+  const passThrough = ['merchant_breakdown', 'habit_audit', 'financial_alignment_score', 'insights', 'recommendations']
+  passThrough.forEach((key) => {
+    if (key in result) dashboard[key] = result[key]
+  })
+  return adaptDashboard(dashboard)
+}
+
+/**
+ * Map any known manager response shape to the canonical manager result
+ */
+export function adaptManagerResponse(raw: unknown, depth = 0): AdaptedManagerResponse {
+  if (typeof raw === 'string') {
+    const parsed = depth < 2 ? parseLLMJson(raw) : null
+    // The parser reports failure as `{ success: false, error }`
+    if (isRecord(parsed) && parsed.success !== false) return adaptManagerResponse(parsed, depth + 1)
+    return { shape: 'text', result: { query_response: raw } }
+  }
+  if (!isRecord(raw)) return { shape: 'unknown', result: {} }
+
+  // A full `{ status, result }` envelope that arrived as text
+  if ('status' in raw && isRecord(raw.result) && depth < 3) {
+    return adaptManagerResponse(raw.result, depth + 1)
+  }
+
+  if (isRecord(raw.dashboard_data)) {
+    const shape = 'top_merchants' in raw.dashboard_data ? 'dashboard_top_merchants' : 'dashboard'
+    const dashboard = adaptDashboard(raw.dashboard_data)
+    // Some responses keep insights next to the dashboard instead of inside it
+    if (!('insights' in dashboard) && Array.isArray(raw.insights)) dashboard.insights = raw.insights
+    return { shape, result: { ...raw, dashboard_data: dashboard } }
+  }
+
+  if (Array.isArray(raw.categorized_transactions)) {
+    return {
+      shape: 'strategist',
+      result: { workflow_status: 'completed', dashboard_data: fromStrategist(raw), insights: raw.insights },
+    }
+  }
+
+  if ('response' in raw || 'action_taken' in raw || 'suggestions' in raw) {
+    const result: UnknownRecord = {
+      query_response: typeof raw.response === 'string' ? raw.response : undefined,
+      response: raw.response,
+      action_taken: raw.action_taken,
+      suggestions: raw.suggestions,
+      visualization: raw.visualization,
+    }
+    if (isRecord(raw.data)) {
+      const nested = adaptManagerResponse(raw.data, depth + 1)
+      if (nested.result.dashboard_data) {
+        result.dashboard_data = nested.result.dashboard_data
+        result.workflow_status = nested.result.workflow_status
+        result.insights = nested.result.insights
+      }
+    }
+    if (isRecord(result.dashboard_data) && !('recommendations' in result.dashboard_data) && Array.isArray(raw.suggestions)) {
+      result.dashboard_data = { ...result.dashboard_data, recommendations: raw.suggestions }
+    }
+    return { shape: 'generic', result }
+  }
+
+  if (typeof raw.text === 'string' || typeof raw.raw_text === 'string') {
+    return adaptManagerResponse(raw.raw_text ?? raw.text, depth)
+  }
+
+  if (looksLikeDashboard(raw)) {
+    return { shape: 'dashboard', result: { dashboard_data: adaptDashboard(raw) } }
+  }
+
+  return { shape: 'unknown', result: raw }
+}
+
+/**
+ * Adapt then validate a manager response
+ */
+export function parseManagerResponse(raw: unknown): ParsedManagerResponse {
+  const { shape, result } = adaptManagerResponse(raw)
+  const { data, report } = validateAgentResult('manager', result)
+  return { shape, data, report }
+}
+
+/**
+ * Readable text from a manager reply that is still streaming: the answer
+ * field of a JSON reply as far as it has arrived, or the text itself
+ */
+export function previewManagerText(partial: string): string {
+  const trimmed = partial.trimStart()
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('```')) return partial
+
+  const match = /"(?:query_response|response)"\s*:\s*"((?:[^"\\]|\\.)*)/.exec(partial)
+  if (!match) return ''
+  // Drop an escape sequence cut off mid-way before decoding
+  const value = match[1].replace(/\\u[0-9a-fA-F]{0,3}$/, '').replace(/(^|[^\\])((?:\\\\)*)\\$/, '$1$2')
+  try {
+    return JSON.parse(`"${value}"`)
+  } catch {
+    return value
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Dashboard Types
+ *
+ * Shape of the Financial Health Report returned by the FinOS Manager agent
+ * (see `response_schemas/` and `test_responses/`), shared by the dashboard
+ * and the local analytics that check it.
+ */
+
+import type { Transaction } from '@/lib/transactions'
+
+// Types
+export interface CategorySummary {
+  total_amount: number
+  percentage: number
+  transaction_count: number
+}
+
+export interface MerchantBreakdown {
+  merchant: string
+  category: string
+  total_amount: number
+  transaction_count: number
+  percentage_of_category: number
+  insights: string
+}
+
+export interface CutBackOpportunity {
+  area: string
+  current_spend: number
+  recommended_spend: number
+  potential_savings: number
+  actionable_advice: string
+}
+
+export interface HabitAudit {
+  impulsive_purchases: {
+    count: number
+    total_amount: number
+    description: string
+  }
+  high_cost_dining: {
+    count: number
+    total_amount: number
+    description: string
+  }
+  subscription_analysis: {
+    total_subscriptions: number
+    monthly_cost: number
+    redundant_subscriptions: string[]
+  }
+  cut_back_opportunities: CutBackOpportunity[]
+}
+
+export interface DashboardData {
+  financial_alignment_score: number
+  total_transactions: number
+  total_amount: number
+  /** Keyed by category slug, e.g. `dining`, `bill_payments` */
+  category_summary: Record<string, CategorySummary>
+  merchant_breakdown: MerchantBreakdown[]
+  habit_audit: HabitAudit
+  transactions: Transaction[]
+  insights: string[]
+  recommendations: string[]
+}
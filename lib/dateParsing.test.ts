@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { detectDateOrder, parseStatementDate } from '@/lib/dateParsing'
+
+describe('parseStatementDate', () => {
+  it('reads an ambiguous date in the order it is given', () => {
+    expect(parseStatementDate('01/06/2024', 'DMY')).toBe('2024-06-01')
+    expect(parseStatementDate('01/06/2024', 'MDY')).toBe('2024-01-06')
+  })
+
+  it('reads a leading 4-digit year as YMD whatever the order', () => {
+    expect(parseStatementDate('2024-06-01', 'MDY')).toBe('2024-06-01')
+    expect(parseStatementDate('2024-06-01T10:30:00', 'DMY')).toBe('2024-06-01')
+  })
+
+  it('reads named months, 2-digit years and times', () => {
+    expect(parseStatementDate('01-Jun-24')).toBe('2024-06-01')
+    expect(parseStatementDate('Jun 01 2024', 'MDY')).toBe('2024-06-01')
+    expect(parseStatementDate('15 Aug 99 10:30')).toBe('1999-08-15')
+  })
+
+  it('rejects dates that do not exist in the given order', () => {
+    expect(parseStatementDate('13/25/2024', 'DMY')).toBeNull()
+    expect(parseStatementDate('25/12/2024', 'MDY')).toBeNull()
+    expect(parseStatementDate('29/02/2023', 'DMY')).toBeNull()
+    expect(parseStatementDate('29/02/2024', 'DMY')).toBe('2024-02-29')
+    expect(parseStatementDate('n/a')).toBeNull()
+  })
+})
+
+describe('detectDateOrder', () => {
+  it('settles DMY when a first component is above 12', () => {
+    expect(detectDateOrder(['01/02/2024', '25/02/2024'])).toBe('DMY')
+  })
+
+  it('settles MDY when a second component is above 12', () => {
+    expect(detectDateOrder(['02/01/2024', '02/25/2024', '03/14/2024'])).toBe('MDY')
+  })
+
+  it('defaults to DMY when every date is ambiguous', () => {
+    expect(detectDateOrder(['01/02/2024', '03/04/2024'])).toBe('DMY')
+    expect(detectDateOrder([])).toBe('DMY')
+  })
+
+  it('goes with the majority when the sample disagrees', () => {
+    expect(detectDateOrder(['13/01/2024', '01/14/2024', '01/15/2024'])).toBe('MDY')
+  })
+
+  it('spots ISO dates', () => {
+    expect(detectDateOrder(['', '2024-06-01'])).toBe('YMD')
+  })
+})
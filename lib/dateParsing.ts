@@ -0,0 +1,104 @@
+/**
+ * Statement Date Parsing
+ *
+ * Bank exports print dates in many ways: 01/06/24, 01-06-2024, 2024-06-01,
+ * 1 Jun 2024, 01-JUN-24. Dates are parsed by component order (day/month/year)
+ * rather than an exact pattern, so any separator and either numeric or named
+ * months work. Output is always ISO `yyyy-mm-dd`.
+ */
+
+// Types
+export type DateOrder = 'DMY' | 'MDY' | 'YMD'
+
+export const DATE_ORDERS: { value: DateOrder; label: string }[] = [
+  { value: 'DMY', label: 'dd/mm/yyyy' },
+  { value: 'MDY', label: 'mm/dd/yyyy' },
+  { value: 'YMD', label: 'yyyy-mm-dd' },
+]
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+function expandYear(year: number, digits: number): number {
+  if (digits > 2) return year
+  // 2-digit years: 70-99 are last century, everything else this one
+  return year >= 70 ? 1900 + year : 2000 + year
+}
+
+function monthFromName(name: string): number | null {
+  const idx = MONTHS.indexOf(name.slice(0, 3).toLowerCase())
+  return idx === -1 ? null : idx + 1
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return day <= daysInMonth
+}
+
+/**
+ * Split a date string into its parts, dropping any time component
+ */
+function tokenizeDate(value: string): string[] {
+  const datePart = value.trim().split(/[T\s](?=\d{1,2}:\d{2})/)[0]
+  return datePart.split(/[\s/\-.,]+/).filter(Boolean)
+}
+
+/**
+ * Parse a statement date into ISO `yyyy-mm-dd`. Returns null when the value
+ * can't be read as a real calendar date in the given order.
+ */
+export function parseStatementDate(value: string, order: DateOrder = 'DMY'): string | null {
+  if (!value) return null
+  const parts = tokenizeDate(value)
+  if (parts.length < 3) return null
+
+  // A leading 4-digit year always means YMD, whatever the configured order
+  const effectiveOrder: DateOrder = /^\d{4}$/.test(parts[0]) ? 'YMD' : order
+  const [a, b, c] = parts
+
+  let dayText: string, monthText: string, yearText: string
+  if (effectiveOrder === 'YMD') {
+    ;[yearText, monthText, dayText] = [a, b, c]
+  } else if (effectiveOrder === 'MDY') {
+    ;[monthText, dayText, yearText] = [a, b, c]
+  } else {
+    ;[dayText, monthText, yearText] = [a, b, c]
+  }
+
+  // Named months can appear in either of the first two slots ("Jun 01 2024")
+  if (!/^\d+$/.test(dayText) && /^\d+$/.test(monthText)) {
+    ;[dayText, monthText] = [monthText, dayText]
+  }
+
+  const day = Number(dayText)
+  const month = /^\d+$/.test(monthText) ? Number(monthText) : monthFromName(monthText)
+  if (!/^\d+$/.test(yearText) || month === null || !Number.isInteger(day)) return null
+  const year = expandYear(Number(yearText), yearText.length)
+
+  if (!isValidDate(year, month, day)) return null
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+/**
+ * Guess the date order from a sample of values. A first component above 12
+ * settles DMY, a second above 12 settles MDY; otherwise Indian statements
+ * default to DMY.
+ */
+export function detectDateOrder(values: string[]): DateOrder {
+  let dmyVotes = 0
+  let mdyVotes = 0
+
+  for (const value of values.slice(0, 50)) {
+    const parts = tokenizeDate(value || '')
+    if (parts.length < 3) continue
+    if (/^\d{4}$/.test(parts[0])) return 'YMD'
+    const first = Number(parts[0])
+    const second = Number(parts[1])
+    if (first > 12) dmyVotes++
+    if (second > 12) mdyVotes++
+  }
+
+  return mdyVotes > dmyVotes ? 'MDY' : 'DMY'
+}
@@ -0,0 +1,59 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createFileAnalysisStore } from '@/lib/fileAnalysisStore'
+import { createAnalysisRecord, type AnalysisRecord } from '@/lib/analysisStore'
+
+const record = (name: string, updatedAt: string): AnalysisRecord => ({
+  ...createAnalysisRecord({
+    file: { name, size: 100, format: 'csv' },
+    rows: null,
+    dashboard: { transactions: [] } as never,
+    report: { agent: 'manager', valid: true, issues: [], missing: [] },
+    insights: [],
+    chat: [],
+    chatSessionId: 'manager-123456789012',
+  }),
+  updatedAt,
+})
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+describe('createFileAnalysisStore', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'finos-analyses-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('drops the oldest records past the limit', async () => {
+    const store = createFileAnalysisStore(directory, { maxRecords: 2 })
+    const oldest = record('oldest.csv', daysAgo(3))
+    await store.save(oldest)
+    await store.save(record('older.csv', daysAgo(2)))
+    await store.save(record('newest.csv', daysAgo(1)))
+
+    const names = (await store.list()).map((summary) => summary.file.name)
+
+    expect(names).toEqual(['newest.csv', 'older.csv'])
+    expect(await store.get(oldest.id)).toBeNull()
+  })
+
+  it('hides and then removes expired records', async () => {
+    const store = createFileAnalysisStore(directory, { maxAgeDays: 30 })
+    const expired = record('expired.csv', daysAgo(31))
+    await store.save(expired)
+
+    expect(await store.list()).toEqual([])
+    expect(await store.get(expired.id)).toBeNull()
+
+    await store.save(record('fresh.csv', daysAgo(0)))
+    const unlimited = createFileAnalysisStore(directory, { maxAgeDays: 365 })
+    expect((await unlimited.list()).map((summary) => summary.file.name)).toEqual(['fresh.csv'])
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * File Analysis Store
+ *
+ * The server's `AnalysisStore`, behind `/api/analyses`: one JSON file per
+ * record, with its summary in a second file so listing never reads a
+ * dashboard. Files are written to a temporary name and renamed, so a
+ * reader never sees half a record. `ANALYSIS_STORE_DIR` picks the folder
+ * (default `.data/analyses`). Records not updated for
+ * `ANALYSIS_STORE_MAX_AGE_DAYS` are dropped, as are the oldest once there
+ * are more than `ANALYSIS_STORE_MAX_RECORDS`. Each shared record gets an
+ * edit token, handed to whoever shared it; only its hash is kept, in a
+ * third file, and updating or deleting the record needs the token.
+ *
+ * @example
+ * ```ts
+ * import { getServerAnalysisStore } from '@/lib/fileAnalysisStore'
+ *
+ * const store = getServerAnalysisStore()
+ * const record = await store.get(id)
+ * const allowed = await store.checkEditToken(id, token)
+ * ```
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import { generateUUID } from '@/lib/utils'
+import {
+  isAnalysisId,
+  summarizeAnalysis,
+  type AnalysisRecord,
+  type AnalysisStore,
+  type AnalysisSummary,
+} from '@/lib/analysisStore'
+
+// Types
+export interface SharedAnalysisStore extends AnalysisStore {
+  /** Issue the token that may later update or delete the record; replaces any earlier one */
+  createEditToken(id: string): Promise<string>
+  /** Whether `token` is the one issued for the record */
+  checkEditToken(id: string, token: string | null): Promise<boolean>
+}
+
+export interface FileStoreOptions {
+  /** The oldest records are dropped once there are more than this many */
+  maxRecords?: number
+  /** Records not updated for this long are dropped, in days */
+  maxAgeDays?: number
+}
+
+export const MAX_SHARED_ANALYSES = 200
+export const SHARED_ANALYSIS_MAX_AGE_DAYS = 90
+
+const DEFAULT_STORE_DIR = '.data/analyses'
+const DAY_MS = 24 * 60 * 60 * 1000
+const RECORD_SUFFIX = '.json'
+const SUMMARY_SUFFIX = '.summary.json'
+const TOKEN_SUFFIX = '.token.json'
+
+// Missing files read as null; anything else is a real failure
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest()
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  const temporary = `${file}.${generateUUID()}.tmp`
+  await writeFile(temporary, JSON.stringify(value), 'utf8')
+  await rename(temporary, file)
+}
+
+/**
+ * A store keeping records as JSON files under `directory`. Expired and
+ * surplus records are removed whenever a record is saved.
+ */
+export function createFileAnalysisStore(directory: string, options: FileStoreOptions = {}): SharedAnalysisStore {
+  const root = path.resolve(directory)
+  const maxRecords = options.maxRecords ?? MAX_SHARED_ANALYSES
+  const maxAgeMs = (options.maxAgeDays ?? SHARED_ANALYSIS_MAX_AGE_DAYS) * DAY_MS
+  let ready: Promise<unknown> | null = null
+  const ensureDirectory = () => {
+    if (!ready) ready = mkdir(root, { recursive: true })
+    return ready
+  }
+  const recordFile = (id: string) => path.join(root, `${id}${RECORD_SUFFIX}`)
+  const summaryFile = (id: string) => path.join(root, `${id}${SUMMARY_SUFFIX}`)
+  const tokenFile = (id: string) => path.join(root, `${id}${TOKEN_SUFFIX}`)
+  const isExpired = (updatedAt: string) => Date.now() - Date.parse(updatedAt) > maxAgeMs
+
+  const readSummaries = async () => {
+    await ensureDirectory()
+    const ids = (await readdir(root))
+      .filter((name) => name.endsWith(SUMMARY_SUFFIX))
+      .map((name) => name.slice(0, -SUMMARY_SUFFIX.length))
+      .filter(isAnalysisId)
+    const summaries = await Promise.all(ids.map((id) => readJson<AnalysisSummary>(summaryFile(id))))
+    return summaries
+      .filter((summary): summary is AnalysisSummary => summary !== null)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  const remove = async (id: string) => {
+    if (!isAnalysisId(id)) return
+    await rm(summaryFile(id), { force: true })
+    await rm(recordFile(id), { force: true })
+    await rm(tokenFile(id), { force: true })
+  }
+
+  return {
+    async list() {
+      return (await readSummaries()).filter((summary) => !isExpired(summary.updatedAt))
+    },
+    async get(id) {
+      if (!isAnalysisId(id)) return null
+      const record = await readJson<AnalysisRecord>(recordFile(id))
+      return record && !isExpired(record.updatedAt) ? record : null
+    },
+    async save(record) {
+      if (!isAnalysisId(record.id)) throw new Error(`Invalid analysis id: ${record.id}`)
+      const others = (await readSummaries()).filter((summary) => summary.id !== record.id)
+      const stale = others.filter((summary, index) => index >= maxRecords - 1 || isExpired(summary.updatedAt))
+      // The record goes first, so a listed summary always has a record behind it
+      await writeJson(recordFile(record.id), record)
+      await writeJson(summaryFile(record.id), summarizeAnalysis(record))
+      await Promise.all(stale.map((summary) => remove(summary.id)))
+    },
+    remove,
+    async createEditToken(id) {
+      if (!isAnalysisId(id)) throw new Error(`Invalid analysis id: ${id}`)
+      await ensureDirectory()
+      const token = randomBytes(32).toString('hex')
+      await writeJson(tokenFile(id), { hash: hashToken(token).toString('hex') })
+      return token
+    },
+    async checkEditToken(id, token) {
+      if (!token || !isAnalysisId(id)) return false
+      const stored = await readJson<{ hash?: string }>(tokenFile(id))
+      if (typeof stored?.hash !== 'string') return false
+      const expected = Buffer.from(stored.hash, 'hex')
+      const actual = hashToken(token)
+      return expected.length === actual.length && timingSafeEqual(expected, actual)
+    },
+  }
+}
+
+const envLimit = (name: string) => {
+  const configured = Number(process.env[name])
+  return Number.isFinite(configured) && configured > 0 ? configured : undefined
+}
+
+let serverStore: SharedAnalysisStore | null = null
+
+/**
+ * The store behind `/api/analyses`
+ */
+export function getServerAnalysisStore(): SharedAnalysisStore {
+  if (!serverStore) {
+    serverStore = createFileAnalysisStore(process.env.ANALYSIS_STORE_DIR || DEFAULT_STORE_DIR, {
+      maxRecords: envLimit('ANALYSIS_STORE_MAX_RECORDS'),
+      maxAgeDays: envLimit('ANALYSIS_STORE_MAX_AGE_DAYS'),
+    })
+  }
+  return serverStore
+}
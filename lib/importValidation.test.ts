@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { applyRowEdits, validateTransactions } from '@/lib/importValidation'
+import type { NormalizedTransaction } from '@/lib/transactions'
+
+const txn = (sourceRow: number, overrides: Partial<NormalizedTransaction> = {}): NormalizedTransaction => ({
+  date: '2024-02-01',
+  merchant: 'Swiggy',
+  amount: 450,
+  category: '',
+  subcategory: '',
+  direction: 'debit',
+  currency: 'INR',
+  sourceRow,
+  rawDate: '01/02/2024',
+  ...overrides,
+})
+
+describe('applyRowEdits', () => {
+  it('takes the direction from a signed or marked amount', () => {
+    const rows = [txn(1, { direction: 'credit' }), txn(2), txn(3, { direction: 'credit' })]
+    const [signed, marked, bare] = applyRowEdits(rows, {
+      1: { amount: '-300' },
+      2: { amount: '1,200.00 Cr' },
+      3: { amount: '75' },
+    })
+
+    expect(signed).toMatchObject({ amount: 300, direction: 'debit' })
+    expect(marked).toMatchObject({ amount: 1200, direction: 'credit' })
+    expect(bare).toMatchObject({ amount: 75, direction: 'credit' })
+  })
+
+  it('lets an explicit direction flip debit and credit', () => {
+    const [row] = applyRowEdits([txn(1)], { 1: { amount: '-300', direction: 'credit' } })
+
+    expect(row).toMatchObject({ amount: 300, direction: 'credit' })
+  })
+})
+
+describe('validateTransactions', () => {
+  it('keeps zero amounts analyzable but warns about them', () => {
+    const report = validateTransactions([txn(1, { amount: 0 }), txn(2, { amount: NaN })])
+
+    expect(report.rows[0].issues).toEqual([{ code: 'zero_amount', severity: 'warning', message: 'Amount is zero' }])
+    expect(report.analyzable.map((row) => row.sourceRow)).toEqual([1])
+    expect(report).toMatchObject({ errorRows: 1, warningRows: 1 })
+  })
+
+  it('flags repeated rows as duplicates of the first', () => {
+    const report = validateTransactions([txn(1), txn(2)], { excluded: new Set([2]) })
+
+    expect(report.rows[1].issues[0].message).toBe('Same date, merchant and amount as row 1')
+    expect(report).toMatchObject({ duplicateRows: 1, excludedRows: 1 })
+    expect(report.analyzable).toHaveLength(1)
+  })
+})
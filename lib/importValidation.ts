@@ -0,0 +1,175 @@
+/**
+ * Import Validation
+ *
+ * Checks normalized statement rows before anything is sent to the agents.
+ * Rows with an unreadable date or amount, or no merchant, are errors and are
+ * never analyzed until fixed. Repeated rows are flagged as likely duplicates
+ * and zero amounts as suspicious, but both are left to the user, since two
+ * identical orders on one day do happen.
+ *
+ * Rows are identified by `sourceRow`, which stays stable across re-mapping,
+ * so fixes and exclusions survive a change of column mapping.
+ */
+
+import { parseAmount, type TransactionDirection } from '@/lib/columnMapping'
+import { parseStatementDate, type DateOrder } from '@/lib/dateParsing'
+import type { NormalizedTransaction } from '@/lib/transactions'
+
+// Types
+export type RowIssueCode = 'invalid_date' | 'invalid_amount' | 'zero_amount' | 'blank_merchant' | 'duplicate'
+
+export interface RowIssue {
+  code: RowIssueCode
+  severity: 'error' | 'warning'
+  message: string
+}
+
+/** User corrections for one row, as typed */
+export interface RowEdit {
+  date?: string
+  merchant?: string
+  amount?: string
+  direction?: TransactionDirection
+}
+
+export interface ValidatedRow {
+  transaction: NormalizedTransaction
+  issues: RowIssue[]
+  excluded: boolean
+  edited: boolean
+}
+
+export interface ValidationReport {
+  rows: ValidatedRow[]
+  /** Rows that will be analyzed: no errors and not excluded */
+  analyzable: NormalizedTransaction[]
+  totalRows: number
+  errorRows: number
+  /** Rows with only warnings (duplicates, zero amounts) */
+  warningRows: number
+  duplicateRows: number
+  excludedRows: number
+  issueCounts: Record<RowIssueCode, number>
+}
+
+export const ISSUE_LABELS: Record<RowIssueCode, string> = {
+  invalid_date: 'Unparseable date',
+  invalid_amount: 'Non-numeric amount',
+  zero_amount: 'Zero amount',
+  blank_merchant: 'Blank merchant',
+  duplicate: 'Duplicate row',
+}
+
+/**
+ * Apply the user's corrections on top of the imported rows. A typed amount
+ * keeps its sign the way statements print it: "-250" or "250 Dr" is a debit
+ * and "250 Cr" a credit, while a bare number leaves the direction alone. An
+ * explicit direction edit wins over both.
+ */
+export function applyRowEdits(
+  transactions: NormalizedTransaction[],
+  edits: Record<number, RowEdit>,
+  dateOrder: DateOrder = 'DMY'
+): NormalizedTransaction[] {
+  return transactions.map((txn) => {
+    const edit = edits[txn.sourceRow]
+    if (!edit) return txn
+
+    const next = { ...txn }
+    if (edit.date !== undefined) {
+      next.rawDate = edit.date
+      next.date = parseStatementDate(edit.date, dateOrder) || ''
+    }
+    if (edit.merchant !== undefined) {
+      next.merchant = edit.merchant.trim()
+    }
+    if (edit.amount !== undefined) {
+      const amount = parseAmount(edit.amount)
+      next.amount = amount === null ? NaN : Math.abs(amount)
+      if (amount !== null && amount < 0) next.direction = 'debit'
+      else if (/\bcr\.?$/i.test(edit.amount.trim())) next.direction = 'credit'
+    }
+    if (edit.direction) {
+      next.direction = edit.direction
+    }
+    return next
+  })
+}
+
+const duplicateKey = (txn: NormalizedTransaction) =>
+  [txn.date, txn.merchant.toLowerCase(), txn.amount, txn.direction].join('|')
+
+/**
+ * Validate rows and work out which of them will be analyzed
+ */
+export function validateTransactions(
+  transactions: NormalizedTransaction[],
+  options: { excluded?: Set<number>; edits?: Record<number, RowEdit> } = {}
+): ValidationReport {
+  const excludedSet = options.excluded || new Set<number>()
+  const edits = options.edits || {}
+  const seen = new Map<string, number>()
+  const issueCounts: Record<RowIssueCode, number> = {
+    invalid_date: 0,
+    invalid_amount: 0,
+    zero_amount: 0,
+    blank_merchant: 0,
+    duplicate: 0,
+  }
+
+  const rows: ValidatedRow[] = transactions.map((txn) => {
+    const issues: RowIssue[] = []
+
+    if (!txn.date) {
+      issues.push({
+        code: 'invalid_date',
+        severity: 'error',
+        message: txn.rawDate ? `Can't read date "${txn.rawDate}"` : 'Date is missing',
+      })
+    }
+    if (!Number.isFinite(txn.amount)) {
+      issues.push({ code: 'invalid_amount', severity: 'error', message: 'Amount is not a number' })
+    } else if (txn.amount === 0) {
+      issues.push({ code: 'zero_amount', severity: 'warning', message: 'Amount is zero' })
+    }
+    if (!txn.merchant.trim()) {
+      issues.push({ code: 'blank_merchant', severity: 'error', message: 'Merchant is blank' })
+    }
+
+    if (!issues.some((issue) => issue.severity === 'error')) {
+      const key = duplicateKey(txn)
+      const firstRow = seen.get(key)
+      if (firstRow !== undefined) {
+        issues.push({
+          code: 'duplicate',
+          severity: 'warning',
+          message: `Same date, merchant and amount as row ${firstRow}`,
+        })
+      } else {
+        seen.set(key, txn.sourceRow)
+      }
+    }
+
+    issues.forEach((issue) => issueCounts[issue.code]++)
+
+    return {
+      transaction: txn,
+      issues,
+      excluded: excludedSet.has(txn.sourceRow),
+      edited: txn.sourceRow in edits,
+    }
+  })
+
+  const isError = (row: ValidatedRow) => row.issues.some((issue) => issue.severity === 'error')
+
+  return {
+    rows,
+    analyzable: rows.filter((row) => !row.excluded && !isError(row)).map((row) => row.transaction),
+    totalRows: rows.length,
+    errorRows: rows.filter(isError).length,
+    warningRows: rows.filter((row) => row.issues.length > 0 && !isError(row)).length,
+    duplicateRows: issueCounts.duplicate,
+    excludedRows: rows.filter((row) => row.excluded).length,
+    issueCounts,
+  }
+}
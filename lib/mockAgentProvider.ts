@@ -0,0 +1,124 @@
+/**
+ * Mock Agent Provider
+ *
+ * Offline backend selected with `AGENT_PROVIDER=mock`. Agent calls replay
+ * the canned reply in `test_responses/` for the agent, matched by the
+ * agent's name in `workflow_state.json` (`Data Surgeon Agent` →
+ * `data_surgeon_agent.json`). Uploads get predictable asset IDs and
+ * knowledge bases live in memory, so runs are repeatable without
+ * `LYZR_API_KEY` or network access.
+ *
+ * @example
+ * ```ts
+ * import { createMockProvider } from '@/lib/mockAgentProvider'
+ *
+ * const response = await createMockProvider().chat(payload)
+ * const reply = await response.json() // contents of test_responses/<agent>.json
+ * ```
+ */
+
+import type { AgentPayload, AgentProvider, ProviderRequestOptions } from '@/lib/agentProvider'
+import { formatSSE } from '@/lib/sse'
+import { getWorkflow } from '@/lib/workflow'
+// Imported rather than read from disk so the replies ship with the standalone build
+import dataSurgeonResponse from '@/test_responses/data_surgeon_agent.json'
+import finosManagerResponse from '@/test_responses/finos_manager_agent.json'
+import strategistResponse from '@/test_responses/strategist_agent.json'
+
+const TEST_RESPONSES: Record<string, unknown> = {
+  data_surgeon_agent: dataSurgeonResponse,
+  finos_manager_agent: finosManagerResponse,
+  strategist_agent: strategistResponse,
+}
+
+// Characters per streamed chunk
+const STREAM_CHUNK_SIZE = 64
+
+// Documents per knowledge base, kept for the life of the server process
+const knowledgeBases = new Map<string, Set<string>>()
+
+const toFileKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+/**
+ * The canned reply for an agent, or null when `test_responses/` has none
+ */
+export function getTestResponse(agentId: string): unknown | null {
+  const agent = getWorkflow().agents.find((candidate) => candidate.agentId === agentId)
+  if (!agent) return null
+  return TEST_RESPONSES[toFileKey(agent.name)] ?? null
+}
+
+function replay(payload: AgentPayload, options: ProviderRequestOptions): Response | null {
+  options.onAttempt?.(1)
+  const reply = getTestResponse(payload.agent_id)
+  return reply === null ? null : json(reply)
+}
+
+const noTestResponse = (agentId: string) => json({ error: `No test response for agent ${agentId}` }, 404)
+
+export function createMockProvider(): AgentProvider {
+  return {
+    name: 'mock',
+    getConfigError: () => null,
+    chat: async (payload, options = {}) => replay(payload, options) ?? noTestResponse(payload.agent_id),
+    stream: async (payload, options = {}) => {
+      const reply = replay(payload, options)
+      if (!reply) return noTestResponse(payload.agent_id)
+
+      const text = await reply.text()
+      const encoder = new TextEncoder()
+      const body = new ReadableStream({
+        start(controller) {
+          for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+            const content = text.slice(i, i + STREAM_CHUNK_SIZE)
+            controller.enqueue(encoder.encode(formatSSE('message', { content })))
+          }
+          controller.close()
+        },
+      })
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })
+    },
+    upload: async (files, options = {}) => {
+      options.onAttempt?.(1)
+      const results = files.map((file, index) => ({
+        asset_id: `mock-asset-${index + 1}-${toFileKey(file.name)}`,
+        file_name: file.name,
+        success: true,
+      }))
+      return json({
+        results,
+        total_files: files.length,
+        successful_uploads: files.length,
+        failed_uploads: 0,
+      })
+    },
+    listDocuments: async (ragId, options = {}) => {
+      options.onAttempt?.(1)
+      const documents = Array.from(knowledgeBases.get(ragId) || [])
+      return json(documents.map((name) => `storage/${name}`))
+    },
+    trainDocument: async (ragId, file, _fileType, options = {}) => {
+      options.onAttempt?.(1)
+      const documents = knowledgeBases.get(ragId) || new Set<string>()
+      documents.add(file.name)
+      knowledgeBases.set(ragId, documents)
+      return json({ document_count: 1 })
+    },
+    deleteDocuments: async (ragId, documentNames, options = {}) => {
+      options.onAttempt?.(1)
+      const documents = knowledgeBases.get(ragId)
+      documentNames.forEach((name) => documents?.delete(name))
+      return json({ deleted: documentNames })
+    },
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { looksLikeMT940, parseMT940 } from '@/lib/mt940Importer'
+
+const STATEMENT = `{1:F01BANKINBBAXXX0000000000}{4:
+:20:STMT2402
+:25:50100012345678
+:28C:00001/001
+:60F:C240131INR10000,00
+:61:2402010201D450,00NTRFNONREF//UPI123
+:86:UPI/SWIGGY
+BANGALORE
+:61:2402020202C1299,00NTRFREFUND42
+:61:2402030203RD100,00NCHGNONREF
+:86:?20REVERSAL?32ANNUAL FEE
+:62F:C240229INR10749,00
+-}`
+
+describe('parseMT940', () => {
+  it('reads statement lines with their narratives', () => {
+    const { transactions, accountId, currency, errors } = parseMT940(STATEMENT)
+
+    expect(errors).toEqual([])
+    expect(accountId).toBe('50100012345678')
+    expect(currency).toBe('INR')
+    expect(transactions).toHaveLength(3)
+    expect(transactions[0]).toMatchObject({
+      date: '2024-02-01',
+      merchant: 'UPI/SWIGGYBANGALORE',
+      amount: 450,
+      direction: 'debit',
+      currency: 'INR',
+      sourceRow: 1,
+    })
+  })
+
+  it('falls back to the :61: reference when no :86: follows', () => {
+    const [, refund] = parseMT940(STATEMENT).transactions
+
+    expect(refund).toMatchObject({ merchant: 'REFUND42', amount: 1299, direction: 'credit' })
+  })
+
+  it('flattens structured narratives and flips reversal marks', () => {
+    const [, , reversal] = parseMT940(STATEMENT).transactions
+
+    expect(reversal).toMatchObject({ merchant: 'REVERSAL ANNUAL FEE', amount: 100, direction: 'credit' })
+  })
+
+  it('reports lines it cannot read', () => {
+    const { transactions, errors } = parseMT940(':20:X\n:61:garbage\n')
+
+    expect(transactions).toEqual([])
+    expect(errors).toEqual([
+      'Statement line 1: could not read ":61:garbage"',
+      'No :61: statement lines found in MT940 file',
+    ])
+  })
+})
+
+describe('looksLikeMT940', () => {
+  it('needs both a :20: reference and a :61: line', () => {
+    expect(looksLikeMT940(STATEMENT)).toBe(true)
+    expect(looksLikeMT940(':20:ONLY\n:86:text')).toBe(false)
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * MT940 Importer
+ *
+ * Reads SWIFT MT940 customer statements. Each `:61:` statement line carries
+ * the value date, debit/credit mark and amount; the `:86:` line that follows
+ * (possibly spanning several lines) carries the narrative used as merchant.
+ * Opening balance `:60F:`/`:60M:` provides the statement currency.
+ *
+ * @example
+ * ```ts
+ * import { parseMT940 } from '@/lib/mt940Importer'
+ *
+ * const { transactions, errors } = parseMT940(text)
+ * ```
+ */
+
+import type { NormalizedTransaction, StatementImportResult } from '@/lib/transactions'
+
+// :61: YYMMDD [MMDD] (C|D|RC|RD) [funds code] amount ...
+const STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+(?:,\d*)?)(.*)$/
+
+interface Field {
+  tag: string
+  value: string
+}
+
+/**
+ * Split the message into `:tag:value` fields, joining continuation lines
+ */
+function readFields(text: string): Field[] {
+  const fields: Field[] = []
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+
+  for (const line of lines) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/)
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] })
+    } else if (fields.length > 0 && line.trim() && !/^-\}?$/.test(line.trim()) && !line.startsWith('{')) {
+      fields[fields.length - 1].value += `\n${line}`
+    }
+  }
+
+  return fields
+}
+
+/**
+ * Clean an `:86:` narrative. Structured narratives (e.g. `?20`, `?32`
+ * sub-fields used by German banks) are flattened to their text parts.
+ */
+function cleanNarrative(value: string): string {
+  const text = value.replace(/\n/g, '')
+  if (/\?\d{2}/.test(text)) {
+    const parts = text.split(/\?\d{2}/).slice(1).map((part) => part.trim()).filter(Boolean)
+    return parts.join(' ')
+  }
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Parse an MT940 statement into normalized transactions
+ */
+export function parseMT940(text: string): StatementImportResult {
+  const errors: string[] = []
+  const transactions: NormalizedTransaction[] = []
+  const fields = readFields(text)
+
+  let accountId: string | undefined
+  let currency: string | undefined
+  let current: NormalizedTransaction | null = null
+
+  for (const field of fields) {
+    switch (field.tag) {
+      case '25':
+        accountId = accountId || field.value.trim()
+        break
+      case '60F':
+      case '60M': {
+        // C240531INR1000,00 - mark, date, then currency
+        const ccy = field.value.trim().slice(7, 10)
+        if (/^[A-Z]{3}$/.test(ccy)) currency = ccy
+        break
+      }
+      case '61': {
+        const line = field.value.split('\n')[0].trim()
+        const match = line.match(STATEMENT_LINE)
+        const sourceRow = transactions.length + 1
+
+        if (!match) {
+          errors.push(`Statement line ${sourceRow}: could not read ":61:${line}"`)
+          current = null
+          break
+        }
+
+        const [, yy, mm, dd, , mark, , rawAmount, rest] = match
+        const amount = Number(rawAmount.replace(',', '.'))
+        // Reversal marks flip the direction: RC reverses a credit, RD a debit
+        const isCredit = mark === 'C' || mark === 'RD'
+        const year = 2000 + Number(yy)
+        const parsed = new Date(Date.UTC(year, Number(mm) - 1, Number(dd)))
+        const valid = parsed.getUTCMonth() === Number(mm) - 1 && parsed.getUTCDate() === Number(dd)
+
+        current = {
+          date: valid ? `${year}-${mm}-${dd}` : '',
+          merchant: '',
+          amount: Number.isFinite(amount) ? amount : NaN,
+          category: '',
+          subcategory: '',
+          direction: isCredit ? 'credit' : 'debit',
+          currency: currency || 'INR',
+          sourceRow,
+          rawDate: `${yy}${mm}${dd}`,
+        }
+        // Fall back to the reference part of :61: when no :86: follows
+        const reference = rest.replace(/^N[A-Z0-9]{3}/, '').split('//')[0].trim()
+        current.merchant = reference === 'NONREF' ? '' : reference
+        transactions.push(current)
+        break
+      }
+      case '86':
+        if (current) {
+          const narrative = cleanNarrative(field.value)
+          if (narrative) current.merchant = narrative
+        }
+        current = null
+        break
+      default:
+        break
+    }
+  }
+
+  if (transactions.length === 0) {
+    errors.push('No :61: statement lines found in MT940 file')
+  }
+
+  return { transactions, accountId, currency, errors }
+}
+
+/**
+ * Quick content check used when the file extension is ambiguous
+ */
+export function looksLikeMT940(text: string): boolean {
+  return /^:20:/m.test(text) && /^:61:/m.test(text)
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { looksLikeOFX, parseOFX, parseOFXDate } from '@/lib/ofxImporter'
+
+const SGML_OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>INR
+<BANKACCTFROM><ACCTID>XXXX1234</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240201120000[+5.30:IST]
+<TRNAMT>-450.00
+<NAME>SWIGGY   BANGALORE
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240202
+<TRNAMT>1299,00
+<NAME>AMAZON &amp; CO REFUND
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+const XML_OFX = `<?xml version="1.0"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CURDEF>USD</CURDEF>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240315</DTPOSTED><TRNAMT>-12.5</TRNAMT><MEMO>Coffee</MEMO></STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`
+
+describe('parseOFX', () => {
+  it('reads SGML statements with direction from the amount sign', () => {
+    const { transactions, accountId, currency, errors } = parseOFX(SGML_OFX)
+
+    expect(errors).toEqual([])
+    expect(accountId).toBe('XXXX1234')
+    expect(currency).toBe('INR')
+    expect(transactions).toHaveLength(2)
+    expect(transactions[0]).toMatchObject({
+      date: '2024-02-01',
+      merchant: 'SWIGGY BANGALORE',
+      amount: 450,
+      direction: 'debit',
+      currency: 'INR',
+      sourceRow: 1,
+    })
+    expect(transactions[1]).toMatchObject({ merchant: 'AMAZON & CO REFUND', amount: 1299, direction: 'credit' })
+  })
+
+  it('reads XML statements and falls back to MEMO for the merchant', () => {
+    const [txn] = parseOFX(XML_OFX).transactions
+
+    expect(txn).toMatchObject({ date: '2024-03-15', merchant: 'Coffee', amount: 12.5, currency: 'USD' })
+  })
+
+  it('reads thousands separators as well as comma decimals', () => {
+    const amounts = ['-1,234.56', '1,234', '-1.234,56', '12,5'].map(
+      (amount) => `<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240201<TRNAMT>${amount}<NAME>Shop</STMTTRN>`
+    )
+
+    const { transactions, errors } = parseOFX(`<OFX><BANKTRANLIST>${amounts.join('')}</BANKTRANLIST></OFX>`)
+
+    expect(errors).toEqual([])
+    expect(transactions.map((txn) => txn.amount)).toEqual([1234.56, 1234, 1234.56, 12.5])
+    expect(transactions.map((txn) => txn.direction)).toEqual(['debit', 'credit', 'debit', 'credit'])
+  })
+
+  it('reports invalid amounts and files without transactions', () => {
+    const broken = parseOFX('<OFX><STMTTRN><TRNTYPE>DEBIT<TRNAMT>abc</STMTTRN></OFX>')
+
+    expect(broken.errors).toEqual(['Transaction 1: invalid TRNAMT "abc"'])
+    expect(broken.transactions[0].amount).toBeNaN()
+    expect(parseOFX('<OFX></OFX>').errors).toEqual(['No <STMTTRN> transactions found in OFX file'])
+  })
+})
+
+describe('parseOFXDate', () => {
+  it('keeps the date part and rejects impossible dates', () => {
+    expect(parseOFXDate('20240229093000.000[-5:EST]')).toBe('2024-02-29')
+    expect(parseOFXDate('20230229')).toBe('')
+    expect(parseOFXDate('')).toBe('')
+  })
+})
+
+describe('looksLikeOFX', () => {
+  it('spots OFX by header or root element', () => {
+    expect(looksLikeOFX(SGML_OFX)).toBe(true)
+    expect(looksLikeOFX(XML_OFX)).toBe(true)
+    expect(looksLikeOFX('Date,Amount\n2024-02-01,10')).toBe(false)
+  })
+})
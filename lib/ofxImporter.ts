@@ -0,0 +1,99 @@
+/**
+ * OFX / QFX Importer
+ *
+ * Reads Open Financial Exchange statements, both the SGML flavour of OFX 1.x
+ * (tags without closing elements) and the XML flavour of OFX 2.x. QFX is
+ * Quicken's OFX with extra Intuit tags, so the same parser handles it.
+ *
+ * @example
+ * ```ts
+ * import { parseOFX } from '@/lib/ofxImporter'
+ *
+ * const { transactions, errors } = parseOFX(text)
+ * ```
+ */
+
+import { parseAmount } from '@/lib/columnMapping'
+import type { NormalizedTransaction, StatementImportResult } from '@/lib/transactions'
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+
+/**
+ * Read a leaf element's value. Works for `<TAG>value</TAG>` and the SGML
+ * form `<TAG>value` where the value runs to the next tag or line break.
+ */
+function readTag(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? decodeEntities(match[1].trim()) : ''
+}
+
+/**
+ * Convert an OFX datetime (YYYYMMDD[HHMMSS[.XXX]][[+-]TZ:NAME]) to ISO date
+ */
+export function parseOFXDate(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  if (!match) return ''
+  const [, year, month, day] = match
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)))
+  if (date.getUTCMonth() !== Number(month) - 1) return ''
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Parse an OFX or QFX statement into normalized transactions
+ */
+export function parseOFX(text: string): StatementImportResult {
+  const errors: string[] = []
+  const currency = readTag(text, 'CURDEF').toUpperCase() || undefined
+  const accountId = readTag(text, 'ACCTID') || undefined
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi) || []
+  if (blocks.length === 0) {
+    errors.push('No <STMTTRN> transactions found in OFX file')
+  }
+
+  const transactions: NormalizedTransaction[] = []
+  blocks.forEach((block, idx) => {
+    const rawDate = readTag(block, 'DTPOSTED') || readTag(block, 'DTUSER')
+    const rawAmount = readTag(block, 'TRNAMT')
+    const trnType = readTag(block, 'TRNTYPE').toUpperCase()
+    const name = readTag(block, 'NAME') || readTag(block, 'PAYEE')
+    const memo = readTag(block, 'MEMO')
+    // Some banks use a comma decimal separator or thousands separators in TRNAMT
+    const amount = parseAmount(rawAmount) ?? NaN
+
+    if (!rawAmount || !Number.isFinite(amount)) {
+      errors.push(`Transaction ${idx + 1}: invalid TRNAMT "${rawAmount}"`)
+    }
+
+    const isCredit = amount > 0 || (amount === 0 && trnType === 'CREDIT')
+
+    transactions.push({
+      date: parseOFXDate(rawDate),
+      merchant: (name || memo).replace(/\s+/g, ' '),
+      amount: Number.isFinite(amount) ? Math.abs(amount) : NaN,
+      category: '',
+      subcategory: '',
+      direction: isCredit ? 'credit' : 'debit',
+      currency: (readTag(block, 'CURRENCY') || currency || 'INR').toUpperCase(),
+      sourceRow: idx + 1,
+      rawDate,
+    })
+  })
+
+  return { transactions, accountId, currency, errors }
+}
+
+/**
+ * Quick content check used when the file extension is ambiguous
+ */
+export function looksLikeOFX(text: string): boolean {
+  const head = text.slice(0, 2000)
+  return /OFXHEADER/i.test(head) || /<OFX>/i.test(text.slice(0, 20000))
+}
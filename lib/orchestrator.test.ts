@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { buildAnalysisMessage, mergeSettledTransactions } from '@/lib/orchestrator'
+import { getCategoryRules } from '@/lib/categoryRules'
+import { DEFAULT_TAXONOMY } from '@/lib/taxonomy'
+import type { DashboardData } from '@/lib/dashboardTypes'
+import type { NormalizedTransaction } from '@/lib/transactions'
+
+const txn = (sourceRow: number, merchant: string, amount: number): NormalizedTransaction => ({
+  date: '2024-02-01',
+  merchant,
+  amount,
+  category: '',
+  subcategory: '',
+  direction: 'debit',
+  currency: 'INR',
+  sourceRow,
+  rawDate: '01/02/2024',
+})
+
+const rules = getCategoryRules()
+const rows = [txn(1, 'Swiggy', 450), txn(2, 'Corner Bakery', 120), txn(3, 'Swiggy', 300), txn(4, 'Uber Eats', 200)]
+
+describe('buildAnalysisMessage', () => {
+  it('sends only the rows no rule categorized and summarizes the rest per merchant', () => {
+    const { message, settled } = buildAnalysisMessage(rows, rules, DEFAULT_TAXONOMY)
+    const csv = message.slice(message.indexOf('date,merchant'))
+
+    expect(settled.map((row) => row.sourceRow)).toEqual([1, 3, 4])
+    expect(csv.trim().split('\n')).toHaveLength(2)
+    expect(csv).toContain('Corner Bakery')
+    expect(message).toContain('- Swiggy (Dining / Food Delivery): 2 rows, ₹750')
+    expect(message).toContain('- Uber Eats (Dining / Food Delivery): 1 row, ₹200')
+  })
+
+  it('sends every row when no rule applies', () => {
+    const { message, settled } = buildAnalysisMessage([txn(1, 'Corner Bakery', 120)], rules, DEFAULT_TAXONOMY)
+
+    expect(settled).toEqual([])
+    expect(message).not.toContain('FinOS merchant rules')
+  })
+})
+
+describe('mergeSettledTransactions', () => {
+  it('adds the settled rows and drops agent copies of them', () => {
+    const { settled } = buildAnalysisMessage(rows, rules, DEFAULT_TAXONOMY)
+    const dashboard = {
+      transactions: [
+        { date: '2024-02-01', merchant: 'Corner Bakery', amount: 120, category: 'Dining', subcategory: 'Cafe' },
+        { date: '2024-02-01', merchant: 'Swiggy', amount: 450, category: 'Dining', subcategory: 'Food Delivery' },
+      ],
+    } as DashboardData
+
+    const merged = mergeSettledTransactions(dashboard, settled, rules)
+
+    expect(merged.transactions.map((row) => row.merchant)).toEqual(['Corner Bakery', 'Swiggy', 'Swiggy', 'Uber Eats'])
+  })
+})
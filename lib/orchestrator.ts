@@ -0,0 +1,422 @@
+/**
+ * Analysis Orchestrator
+ *
+ * Runs an analysis either through the FinOS Manager, which hands off to its
+ * sub-agents itself, or as an explicit pipeline of the sub-agents in
+ * `workflow.json`: the Data Surgeon cleans the statement, then the
+ * Strategist categorizes what survived. Both report real progress steps and
+ * stop when their `signal` aborts. Pipeline stages also keep their input,
+ * raw output, validation report and timing, so a broken run shows which
+ * agent broke it.
+ *
+ * @example
+ * ```ts
+ * import { runPipeline } from '@/lib/orchestrator'
+ *
+ * const { stages, dashboard } = await runPipeline(transactions, {
+ *   taxonomy,
+ *   rules,
+ *   signal: controller.signal,
+ *   onProgress: setSteps,
+ *   onStageChange: setStages,
+ * })
+ * ```
+ */
+
+import { callAIAgent } from '@/lib/aiAgent'
+import {
+  isSectionAvailable,
+  validateAgentResult,
+  type AgentValidationReport,
+  type DataSurgeonResult,
+} from '@/lib/agentSchemas'
+import { parseManagerResponse } from '@/lib/dashboardAdapter'
+import { categorizeTransactions, findMatchingRule, type CategoryRule } from '@/lib/categoryRules'
+import { applyTaxonomy, describeTaxonomyForPrompt, type Taxonomy } from '@/lib/taxonomy'
+import { isCredit, toAnalysisCSV, type NormalizedTransaction } from '@/lib/transactions'
+import { reconcileDashboard, type ReconciledDashboard } from '@/lib/analytics'
+import type { DashboardData } from '@/lib/dashboardTypes'
+import { getAgentId, type AgentRole } from '@/lib/workflow'
+import {
+  MANAGER_STEPS,
+  PIPELINE_STEPS,
+  createProgressTracker,
+  type AnalysisStep,
+  type ProgressTracker,
+} from '@/lib/analysisProgress'
+
+// Types
+export type PipelineStageId = 'data_surgeon' | 'strategist'
+export type PipelineStageStatus = 'pending' | 'running' | 'success' | 'error' | 'cancelled' | 'skipped'
+
+export interface PipelineStage {
+  id: PipelineStageId
+  agentId: string
+  status: PipelineStageStatus
+  /** Message sent to the agent */
+  input?: string
+  /** The agent's `result` payload, exactly as received */
+  output?: unknown
+  report?: AgentValidationReport
+  /** One-line outcome, e.g. `3 of 5 rows kept, 2 filtered out` */
+  summary?: string
+  error?: string
+  durationMs?: number
+}
+
+export interface AnalysisOptions {
+  taxonomy: Taxonomy
+  /** Merchant rules applied before the agents categorize anything */
+  rules?: CategoryRule[]
+  /** Aborting stops the run after the current step */
+  signal?: AbortSignal
+  /** Called with a fresh copy of every step whenever one changes */
+  onProgress?: (steps: AnalysisStep[]) => void
+}
+
+export interface PipelineOptions extends AnalysisOptions {
+  /** Called with a fresh copy of every stage whenever one changes */
+  onStageChange?: (stages: PipelineStage[]) => void
+}
+
+export interface AnalysisResult {
+  dashboard: DashboardData | null
+  /** Validation of the dashboard the agents produced */
+  report: AgentValidationReport | null
+  insights: string[]
+  steps: AnalysisStep[]
+  cancelled: boolean
+}
+
+export interface PipelineResult extends AnalysisResult {
+  stages: PipelineStage[]
+  /** Cleaning counts reported by the Data Surgeon */
+  cleaning: DataSurgeonResult['summary'] | null
+}
+
+// Stage order is fixed; which agent runs each stage comes from `workflow.json`
+const STAGE_ROLES: Record<PipelineStageId, AgentRole> = {
+  data_surgeon: 'data_cleaning',
+  strategist: 'financial_categorization',
+}
+
+export const PIPELINE_STAGE_LABELS: Record<PipelineStageId, string> = {
+  data_surgeon: 'Data Surgeon',
+  strategist: 'Strategist',
+}
+
+const countOf = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+// Rule-categorized merchants listed one by one in the prompt; the rest share a line
+const MAX_SETTLED_MERCHANTS = 40
+
+const formatRupees = (paise: number) => `₹${(paise / 100).toLocaleString('en-IN')}`
+
+/**
+ * One line per rule-categorized merchant, largest spend first, so the agent
+ * can account for settled spending without receiving every row
+ */
+function summarizeSettled(settled: NormalizedTransaction[]): string {
+  const merchants = new Map<string, { label: string; count: number; paise: number }>()
+  settled.forEach((txn) => {
+    const label = `${txn.merchant.trim()} (${txn.category}${txn.subcategory ? ` / ${txn.subcategory}` : ''})`
+    const key = label.toLowerCase()
+    const entry = merchants.get(key) || { label, count: 0, paise: 0 }
+    entry.count++
+    entry.paise += Math.round(Math.abs(txn.amount) * 100)
+    merchants.set(key, entry)
+  })
+
+  const sorted = Array.from(merchants.values()).sort((a, b) => b.paise - a.paise)
+  const lines = sorted
+    .slice(0, MAX_SETTLED_MERCHANTS)
+    .map((entry) => `- ${entry.label}: ${countOf(entry.count, 'row')}, ${formatRupees(entry.paise)}`)
+  const rest = sorted.slice(MAX_SETTLED_MERCHANTS)
+  if (rest.length > 0) {
+    const count = rest.reduce((sum, entry) => sum + entry.count, 0)
+    const paise = rest.reduce((sum, entry) => sum + entry.paise, 0)
+    lines.push(`- ${countOf(rest.length, 'other merchant')}: ${countOf(count, 'row')}, ${formatRupees(paise)}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Prompt asking an agent to categorize and analyze transactions. Only rows
+ * the merchant rules could not categorize are sent in full; the settled
+ * ones are summarized per merchant and returned for merging back with
+ * `mergeSettledTransactions`.
+ */
+export function buildAnalysisMessage(
+  transactions: NormalizedTransaction[],
+  rules: CategoryRule[],
+  taxonomy: Taxonomy
+): { message: string; settled: NormalizedTransaction[] } {
+  const categorized = applyTaxonomy(categorizeTransactions(transactions, rules).transactions, taxonomy)
+  const settled = categorized.filter((txn) => txn.category)
+  const pending = categorized.filter((txn) => !txn.category)
+
+  let message = `Analyze these transaction data. ${describeTaxonomyForPrompt(taxonomy)}`
+  if (settled.length > 0) {
+    message += ` FinOS merchant rules already categorized ${countOf(settled.length, 'row')}, summarized per merchant below rather than listed. Count them in every total, category summary and merchant breakdown, but list only the CSV rows under transactions.`
+    if (pending.length === 0) message += ' There are no rows left to categorize.'
+    message += `\n\n${summarizeSettled(settled)}`
+  }
+  return { message: `${message}\n\n${toAnalysisCSV(pending)}`, settled }
+}
+
+/**
+ * Put the rule-categorized rows back next to the ones the agent
+ * categorized. Agent rows a rule matches are dropped, since the settled copy
+ * of them is already there.
+ */
+export function mergeSettledTransactions(
+  dashboard: DashboardData,
+  settled: NormalizedTransaction[],
+  rules: CategoryRule[]
+): DashboardData {
+  if (settled.length === 0) return dashboard
+  const categorizedByAgent = (dashboard.transactions || []).filter((txn) => !findMatchingRule(txn.merchant, rules))
+  return { ...dashboard, transactions: [...categorizedByAgent, ...settled] }
+}
+
+/**
+ * Re-apply merchant rules to the agent's transactions and recompute every
+ * figure. Figures the agent left out are not reported as disagreeing.
+ */
+export function reconcileAnalysis(
+  dashboard: DashboardData,
+  options: { rules: CategoryRule[]; taxonomy: Taxonomy; report: AgentValidationReport | null }
+): ReconciledDashboard {
+  const { transactions } = categorizeTransactions(dashboard.transactions || [], options.rules)
+  const reconciled = reconcileDashboard(dashboard, {
+    transactions: applyTaxonomy(transactions, options.taxonomy),
+    taxonomy: options.taxonomy,
+  })
+  return {
+    ...reconciled,
+    discrepancies: reconciled.discrepancies.filter((item) =>
+      isSectionAvailable(options.report, `dashboard_data.${item.field}`)
+    ),
+  }
+}
+
+// Check the agents' figures against the transactions they returned
+function verify(
+  progress: ProgressTracker,
+  dashboard: DashboardData,
+  report: AgentValidationReport,
+  options: AnalysisOptions
+) {
+  progress.start('verify')
+  const { discrepancies } = reconcileAnalysis(dashboard, {
+    rules: options.rules || [],
+    taxonomy: options.taxonomy,
+    report,
+  })
+  progress.finish(
+    'verify',
+    discrepancies.length === 0
+      ? 'Figures match the transactions'
+      : `${countOf(discrepancies.length, 'figure')} disagree${discrepancies.length === 1 ? 's' : ''} with the transactions`
+  )
+}
+
+const emptyResult = (progress: ProgressTracker, cancelled: boolean): AnalysisResult => ({
+  dashboard: null,
+  report: null,
+  insights: [],
+  steps: progress.steps(),
+  cancelled,
+})
+
+/**
+ * Analyze through the FinOS Manager in a single call. Never throws: a
+ * failed step carries the error.
+ */
+export async function runManagerAnalysis(
+  transactions: NormalizedTransaction[],
+  options: AnalysisOptions
+): Promise<AnalysisResult> {
+  const { taxonomy, rules = [], signal } = options
+  const progress = createProgressTracker(MANAGER_STEPS, options.onProgress)
+
+  // Known merchants are categorized locally; the agent only categorizes the rest.
+  // Credits are money in, so the report on spending never sees them.
+  progress.start('prepare')
+  const spending = transactions.filter((txn) => !isCredit(txn))
+  const credits = transactions.length - spending.length
+  if (spending.length === 0) {
+    progress.fail('prepare', 'Every row is a credit, so there is no spending to analyze')
+    return emptyResult(progress, false)
+  }
+  const { message, settled } = buildAnalysisMessage(spending, rules, taxonomy)
+  progress.finish(
+    'prepare',
+    `${countOf(spending.length, 'transaction')}${credits > 0 ? `, ${countOf(credits, 'credit')} left out` : ''}`
+  )
+
+  progress.start('analyze')
+  const result = await callAIAgent(message, getAgentId('orchestrator'), { signal })
+  if (signal?.aborted) {
+    progress.cancel()
+    return emptyResult(progress, true)
+  }
+  if (!result.success || result.response.status !== 'success') {
+    progress.fail('analyze', result.error || result.response.message || 'The agent call failed')
+    return emptyResult(progress, false)
+  }
+
+  const { data, report } = parseManagerResponse(result.response.result)
+  if (!data.dashboard_data) {
+    progress.fail('analyze', 'The agent did not return a financial report')
+    return emptyResult(progress, false)
+  }
+  const dashboard = mergeSettledTransactions(data.dashboard_data, settled, rules)
+  progress.finish('analyze', `${countOf(dashboard.transactions.length, 'transaction')} categorized`)
+
+  verify(progress, dashboard, report, options)
+  return {
+    dashboard,
+    report,
+    insights: data.insights || [],
+    steps: progress.steps(),
+    cancelled: false,
+  }
+}
+
+const CLEANING_MESSAGE =
+  'Clean these bank transactions: drop duplicates, reversals and rows that are not spending, and return Date, Merchant and Amount for the rest.'
+
+// The Data Surgeon keeps spending only, so every cleaned row is a debit
+const toTransactions = (cleaned: DataSurgeonResult['cleaned_transactions']): NormalizedTransaction[] =>
+  cleaned.map((row, index) => ({
+    date: row.date,
+    rawDate: row.date,
+    merchant: row.merchant,
+    amount: row.amount,
+    direction: 'debit',
+    currency: row.currency,
+    category: '',
+    subcategory: '',
+    sourceRow: index + 1,
+  }))
+
+/**
+ * Run the Data Surgeon then the Strategist. Never throws: a failed stage is
+ * marked `error` and the stages after it `skipped`.
+ */
+export async function runPipeline(
+  transactions: NormalizedTransaction[],
+  options: PipelineOptions
+): Promise<PipelineResult> {
+  const { taxonomy, rules = [], signal, onStageChange } = options
+  const progress = createProgressTracker(PIPELINE_STEPS, options.onProgress)
+  const stages: PipelineStage[] = (['data_surgeon', 'strategist'] as PipelineStageId[]).map((id) => ({
+    id,
+    agentId: getAgentId(STAGE_ROLES[id]),
+    status: 'pending',
+  }))
+  let cleaning: PipelineResult['cleaning'] = null
+
+  const update = (index: number, patch: Partial<PipelineStage>) => {
+    stages[index] = { ...stages[index], ...patch }
+    onStageChange?.(stages.map((stage) => ({ ...stage })))
+  }
+
+  // Call one stage's agent; returns its result payload, or null once the stage is marked failed
+  const runStage = async (index: number, input: string) => {
+    const started = Date.now()
+    update(index, { status: 'running', input })
+    try {
+      const response = await callAIAgent(input, stages[index].agentId, { signal })
+      const durationMs = Date.now() - started
+      if (signal?.aborted) {
+        update(index, { status: 'cancelled', durationMs })
+        return null
+      }
+      if (!response.success || response.response.status !== 'success') {
+        update(index, {
+          status: 'error',
+          durationMs,
+          output: response.response?.result,
+          error: response.error || response.response?.message || 'The agent call failed',
+        })
+        return null
+      }
+      update(index, { durationMs, output: response.response.result })
+      return response.response.result as unknown
+    } catch (error) {
+      update(index, {
+        status: 'error',
+        durationMs: Date.now() - started,
+        error: error instanceof Error ? error.message : 'The agent call failed',
+      })
+      return null
+    }
+  }
+
+  // End the run at a stage that produced nothing usable
+  const stopAt = (index: number, step: 'clean' | 'categorize'): PipelineResult => {
+    for (let i = index + 1; i < stages.length; i++) update(i, { status: 'skipped' })
+    const cancelled = !!signal?.aborted
+    if (cancelled) {
+      progress.cancel()
+    } else {
+      progress.fail(step, stages[index].error || 'The agent call failed')
+    }
+    return { ...emptyResult(progress, cancelled), stages, cleaning }
+  }
+
+  progress.start('prepare')
+  const cleaningInput = `${CLEANING_MESSAGE}\n\n${toAnalysisCSV(transactions)}`
+  progress.finish('prepare', countOf(transactions.length, 'transaction'))
+
+  // Data Surgeon
+  progress.start('clean')
+  const cleaningOutput = await runStage(0, cleaningInput)
+  if (cleaningOutput === null) return stopAt(0, 'clean')
+
+  const cleaningResult = validateAgentResult('data_surgeon', cleaningOutput)
+  const { cleaned_transactions: cleaned, summary } = cleaningResult.data
+  cleaning = summary
+  const cleanedSummary = `${cleaned.length} of ${summary.total_entries || transactions.length} rows kept, ${summary.filtered_out} filtered out`
+  if (cleaned.length === 0) {
+    update(0, {
+      status: 'error',
+      report: cleaningResult.report,
+      summary: cleanedSummary,
+      error: 'No transactions survived cleaning',
+    })
+    return stopAt(0, 'clean')
+  }
+  update(0, { status: 'success', report: cleaningResult.report, summary: cleanedSummary })
+  progress.finish('clean', cleanedSummary)
+
+  // Strategist
+  progress.start('categorize')
+  const { message: strategyInput, settled } = buildAnalysisMessage(toTransactions(cleaned), rules, taxonomy)
+  const strategyOutput = await runStage(1, strategyInput)
+  if (strategyOutput === null) return stopAt(1, 'categorize')
+
+  const strategy = validateAgentResult('strategist', strategyOutput)
+  const { data, report } = parseManagerResponse(strategyOutput)
+  if (!data.dashboard_data) {
+    update(1, { status: 'error', report: strategy.report, error: 'The Strategist did not return categorized transactions' })
+    return stopAt(1, 'categorize')
+  }
+  const dashboard = mergeSettledTransactions(data.dashboard_data, settled, rules)
+  const categorizedSummary = `${countOf(dashboard.transactions.length, 'transaction')} categorized`
+  update(1, { status: 'success', report: strategy.report, summary: categorizedSummary })
+  progress.finish('categorize', categorizedSummary)
+
+  verify(progress, dashboard, report, options)
+  return {
+    dashboard,
+    report,
+    insights: data.insights || [],
+    steps: progress.steps(),
+    cancelled: false,
+    stages,
+    cleaning,
+  }
+}
@@ -65,10 +65,14 @@ export interface DeleteResponse {
 /**
  * Get all documents in a knowledge base
  */
-export async function getDocuments(ragId: string): Promise<GetDocumentsResponse> {
+export async function getDocuments(
+  ragId: string,
+  options?: { signal?: AbortSignal }
+): Promise<GetDocumentsResponse> {
   try {
     const response = await fetch(`/api/rag?ragId=${encodeURIComponent(ragId)}`, {
       method: 'GET',
+      signal: options?.signal,
     })
 
     const data = await response.json()
@@ -84,7 +88,11 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
 /**
  * Upload and train a document to the knowledge base
  */
-export async function uploadAndTrainDocument(ragId: string, file: File): Promise<UploadResponse> {
+export async function uploadAndTrainDocument(
+  ragId: string,
+  file: File,
+  options?: { signal?: AbortSignal }
+): Promise<UploadResponse> {
   // Validate file type
   if (!SUPPORTED_FILE_TYPES.includes(file.type as SupportedFileType)) {
     return {
@@ -101,6 +109,7 @@ export async function uploadAndTrainDocument(ragId: string, file: File): Promise
     const response = await fetch('/api/rag', {
       method: 'POST',
       body: formData,
+      signal: options?.signal,
     })
 
     const data = await response.json()
@@ -118,7 +127,8 @@ export async function uploadAndTrainDocument(ragId: string, file: File): Promise
  */
 export async function deleteDocuments(
   ragId: string,
-  documentNames: string[]
+  documentNames: string[],
+  options?: { signal?: AbortSignal }
 ): Promise<DeleteResponse> {
   try {
     const response = await fetch('/api/rag', {
@@ -127,6 +137,7 @@ export async function deleteDocuments(
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ ragId, documentNames }),
+      signal: options?.signal,
     })
 
     const data = await response.json()
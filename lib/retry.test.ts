@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  fetchWithRetry,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+} from '@/lib/retry'
+
+const NO_DELAY = { baseDelayMs: 0, maxDelayMs: 0 }
+
+const respond = (status: number, headers: Record<string, string> = {}) => new Response(null, { status, headers })
+
+const connectError = (code: string) => new TypeError('fetch failed', { cause: { code } })
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('isRetryableStatus', () => {
+  it('retries non-idempotent requests only on a 429 with Retry-After', () => {
+    expect(isRetryableStatus(429, false, true)).toBe(true)
+    expect(isRetryableStatus(429, false, false)).toBe(false)
+    expect(isRetryableStatus(503, false, true)).toBe(false)
+    expect(isRetryableStatus(502, false)).toBe(false)
+  })
+
+  it('retries idempotent requests on transient statuses', () => {
+    ;[408, 429, 502, 503, 504].forEach((status) => expect(isRetryableStatus(status, true)).toBe(true))
+    expect(isRetryableStatus(500, true)).toBe(false)
+  })
+})
+
+describe('isRetryableError', () => {
+  it('retries dropped connections only for idempotent requests', () => {
+    expect(isRetryableError(connectError('ECONNREFUSED'), false)).toBe(true)
+    expect(isRetryableError(connectError('ECONNRESET'), false)).toBe(false)
+    expect(isRetryableError(connectError('ECONNRESET'), true)).toBe(true)
+  })
+
+  it('never retries aborts', () => {
+    const abort = new Error('aborted')
+    abort.name = 'AbortError'
+
+    expect(isRetryableError(abort, true)).toBe(false)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000)
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', Date.parse('2026-01-01T00:00:00Z'))).toBe(10_000)
+    expect(parseRetryAfter('soon')).toBeNull()
+  })
+})
+
+describe('fetchWithRetry', () => {
+  it('does not repeat a non-idempotent request the upstream may have processed', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(502))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const response = await fetchWithRetry('https://example.test', { method: 'POST' }, { policy: NO_DELAY })
+
+    expect(response.status).toBe(502)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('repeats a refused request after its Retry-After', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(respond(429, { 'Retry-After': '0' })).mockResolvedValueOnce(respond(200))
+    vi.stubGlobal('fetch', fetchMock)
+    const attempts: number[] = []
+
+    const response = await fetchWithRetry(
+      'https://example.test',
+      { method: 'POST' },
+      { policy: NO_DELAY, onAttempt: (attempt) => attempts.push(attempt) }
+    )
+
+    expect(response.status).toBe(200)
+    expect(attempts).toEqual([1, 2])
+  })
+
+  it('retries a gateway error when an idempotency key makes the request safe to repeat', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(respond(502)).mockResolvedValueOnce(respond(200))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const response = await fetchWithRetry(
+      'https://example.test',
+      { method: 'POST', headers: { 'x-api-key': 'key' } },
+      { policy: { ...NO_DELAY, idempotencyKey: 'call-1' } }
+    )
+
+    expect(response.status).toBe(200)
+    const sent = fetchMock.mock.calls.map(([, init]) => new Headers(init.headers))
+    expect(sent.map((headers) => headers.get(IDEMPOTENCY_KEY_HEADER))).toEqual(['call-1', 'call-1'])
+    expect(sent[1].get('x-api-key')).toBe('key')
+  })
+
+  it('gives up after the last attempt of an idempotent request', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(connectError('ECONNRESET'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(
+      fetchWithRetry('https://example.test', { method: 'GET' }, { policy: { ...NO_DELAY, idempotent: true } })
+    ).rejects.toThrow('fetch failed')
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+})
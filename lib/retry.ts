@@ -0,0 +1,162 @@
+/**
+ * Upstream Retry Policy
+ *
+ * Retries transient failures of the API routes' calls to Lyzr with
+ * exponential backoff and full jitter, honouring `Retry-After`. Only
+ * failures where repeating the request is safe are retried. Requests that
+ * are not idempotent are retried only when the upstream never took them: a
+ * connection that never opened, or a 429 whose `Retry-After` says when to
+ * come back. Idempotent ones (listing, deleting) also retry unavailability,
+ * gateway errors and dropped connections. A request made idempotent by an
+ * idempotency key (agent calls, uploads) is retried like those, sending the
+ * same `Idempotency-Key` header on every attempt so the upstream can tell a
+ * retry from a new request.
+ *
+ * @example
+ * ```ts
+ * import { fetchWithRetry } from '@/lib/retry'
+ *
+ * let attempts = 0
+ * const response = await fetchWithRetry(url, init, {
+ *   policy: { idempotent: true },
+ *   onAttempt: (attempt) => (attempts = attempt),
+ * })
+ * ```
+ */
+
+// Types
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  /** Longest `Retry-After` worth waiting for; a longer one ends the retries */
+  maxRetryAfterMs: number
+  /** Whether repeating a request the upstream may have processed is harmless */
+  idempotent: boolean
+  /** Sent as `Idempotency-Key` on every attempt; makes the request idempotent */
+  idempotencyKey?: string
+}
+
+export interface RetryOptions {
+  policy?: Partial<RetryPolicy>
+  /** Called before each attempt with its 1-based number */
+  onAttempt?: (attempt: number) => void
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30_000,
+  idempotent: false,
+}
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+
+// Refused before any work was done, when sent with a `Retry-After`
+const REFUSED_STATUSES = [429]
+// The upstream may have processed these before failing
+const IDEMPOTENT_RETRY_STATUSES = [408, 429, 502, 503, 504]
+
+// Connection failures before the request was sent
+const CONNECT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT']
+// Connection failures after the request may have been sent
+const DROPPED_ERROR_CODES = ['ECONNRESET', 'EPIPE', 'UND_ERR_SOCKET']
+
+/**
+ * Whether an error status is worth retrying. Without idempotency only an
+ * explicit refusal with a `Retry-After` is.
+ */
+export function isRetryableStatus(status: number, idempotent: boolean, hasRetryAfter = false): boolean {
+  if (idempotent) return IDEMPOTENT_RETRY_STATUSES.includes(status)
+  return hasRetryAfter && REFUSED_STATUSES.includes(status)
+}
+
+/**
+ * Whether a thrown fetch error is worth retrying. Aborts never are.
+ */
+export function isRetryableError(error: unknown, idempotent: boolean): boolean {
+  if (!(error instanceof Error) || error.name === 'AbortError') return false
+  // Node's fetch reports network failures as `TypeError: fetch failed` with the cause attached
+  const code = (error.cause as { code?: string } | undefined)?.code || (error as { code?: string }).code
+  if (!code) return false
+  return CONNECT_ERROR_CODES.includes(code) || (idempotent && DROPPED_ERROR_CODES.includes(code))
+}
+
+/**
+ * `Retry-After` in milliseconds, from either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000)
+  const date = Date.parse(trimmed)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * Full-jitter backoff before retry number `retry` (1 for the first retry)
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy, random = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1))
+  return Math.round(random() * ceiling)
+}
+
+// Wait, but wake up early with an AbortError if the request is aborted meanwhile
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => {
+      const error = new Error('The operation was aborted')
+      error.name = 'AbortError'
+      return error
+    }
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * `fetch` with retries. Resolves with the last response, which may still be
+ * an error status, and rejects with the last error once retries run out.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, options: RetryOptions = {}): Promise<Response> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.policy }
+  const idempotent = policy.idempotent || Boolean(policy.idempotencyKey)
+  if (policy.idempotencyKey) {
+    const headers = new Headers(init.headers)
+    headers.set(IDEMPOTENCY_KEY_HEADER, policy.idempotencyKey)
+    init = { ...init, headers }
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    options.onAttempt?.(attempt)
+    const lastAttempt = attempt >= policy.maxAttempts
+    let delay: number
+
+    try {
+      const response = await fetch(url, init)
+      const retryAfter = response.ok ? null : parseRetryAfter(response.headers.get('retry-after'))
+      if (lastAttempt || !isRetryableStatus(response.status, idempotent, retryAfter !== null)) return response
+      if (retryAfter !== null && retryAfter > policy.maxRetryAfterMs) return response
+      delay = retryAfter ?? getBackoffDelay(attempt, policy)
+      // Release the connection before trying again
+      await response.body?.cancel().catch(() => {})
+    } catch (error) {
+      if (lastAttempt || !isRetryableError(error, idempotent)) throw error
+      delay = getBackoffDelay(attempt, policy)
+    }
+
+    await sleep(delay, init.signal)
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Server-Sent Events
+ *
+ * Minimal encoder and incremental parser for `text/event-stream` bodies,
+ * used on both sides of the streaming agent route.
+ *
+ * @example
+ * ```ts
+ * import { createSSEParser, formatSSE } from '@/lib/sse'
+ *
+ * controller.enqueue(encoder.encode(formatSSE('chunk', { text: 'Hel' })))
+ *
+ * const parser = createSSEParser((event) => console.log(event.event, event.data))
+ * parser.push(decoder.decode(value, { stream: true }))
+ * parser.flush()
+ * ```
+ */
+
+// Types
+export interface SSEEvent {
+  /** `message` when the event has no `event:` field */
+  event: string
+  data: string
+}
+
+export interface SSEParser {
+  /** Feed the next piece of the body; complete events are emitted immediately */
+  push: (text: string) => void
+  /** Emit an event left without a trailing blank line when the body ends */
+  flush: () => void
+}
+
+/**
+ * Encode one event; objects are sent as JSON
+ */
+export function formatSSE(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data)
+  const lines = payload.split('\n').map((line) => `data: ${line}`)
+  return `event: ${event}\n${lines.join('\n')}\n\n`
+}
+
+export function createSSEParser(onEvent: (event: SSEEvent) => void): SSEParser {
+  let buffer = ''
+  let event = ''
+  let data: string[] = []
+
+  const dispatch = () => {
+    if (data.length > 0) onEvent({ event: event || 'message', data: data.join('\n') })
+    event = ''
+    data = []
+  }
+
+  const readLine = (line: string) => {
+    if (line === '') {
+      dispatch()
+      return
+    }
+    // Lines starting with a colon are comments, used as keep-alives
+    if (line.startsWith(':')) return
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+    if (field === 'event') event = value
+    if (field === 'data') data.push(value)
+  }
+
+  return {
+    push: (text) => {
+      buffer += text
+      // A trailing `\r` may be half of a `\r\n` split across pushes, so it is kept
+      const lines = buffer.split(/\r\n|\n|\r(?!$)/)
+      // The last piece may be an incomplete line
+      buffer = lines.pop() || ''
+      lines.forEach(readLine)
+    },
+    flush: () => {
+      if (buffer) readLine(buffer.replace(/\r$/, ''))
+      buffer = ''
+      dispatch()
+    },
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Statement Import
+ *
+ * Works out which kind of statement a file is and routes structured formats
+ * (OFX/QFX, MT940) to their importers. CSV and Excel workbooks go through the
+ * column mapping step instead, since their layout differs per bank.
+ */
+
+import { looksLikeOFX, parseOFX } from '@/lib/ofxImporter'
+import { looksLikeMT940, parseMT940 } from '@/lib/mt940Importer'
+import type { StatementImportResult } from '@/lib/transactions'
+
+// Types
+export type StatementFormat = 'csv' | 'xlsx' | 'ofx' | 'mt940'
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  ofx: 'OFX/QFX',
+  mt940: 'MT940',
+}
+
+/** Value for the file input's `accept` attribute */
+export const STATEMENT_FILE_ACCEPT = '.csv,text/csv,.xlsx,.xls,.ofx,.qfx,.sta,.mt940,.940,.txt'
+
+const EXTENSION_FORMATS: Record<string, StatementFormat> = {
+  csv: 'csv',
+  xlsx: 'xlsx',
+  xls: 'xlsx',
+  ofx: 'ofx',
+  qfx: 'ofx',
+  sta: 'mt940',
+  mt940: 'mt940',
+  '940': 'mt940',
+}
+
+const getExtension = (fileName: string) => fileName.toLowerCase().split('.').pop() || ''
+
+/**
+ * Whether a file is worth reading at all, judged from its name and MIME type
+ */
+export function isSupportedStatementFile(file: { name: string; type: string }): boolean {
+  const ext = getExtension(file.name)
+  return ext in EXTENSION_FORMATS || ext === 'txt' || file.type === 'text/csv'
+}
+
+/**
+ * Workbooks are binary and must be read as an ArrayBuffer rather than text.
+ * Judged from the extension alone so the workbook parser stays out of the
+ * main bundle until an Excel file is picked.
+ */
+export function isBinaryStatementFile(fileName: string): boolean {
+  return EXTENSION_FORMATS[getExtension(fileName)] === 'xlsx'
+}
+
+/**
+ * Detect the statement format. The extension decides when it is specific;
+ * generic `.txt` exports are sniffed from their content.
+ */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat | null {
+  const fromExtension = EXTENSION_FORMATS[getExtension(fileName)]
+  if (fromExtension && fromExtension !== 'csv') return fromExtension
+
+  if (looksLikeOFX(text)) return 'ofx'
+  if (looksLikeMT940(text)) return 'mt940'
+  return fromExtension || (getExtension(fileName) === 'txt' ? 'csv' : null)
+}
+
+/**
+ * Import a structured (non-CSV) statement
+ */
+export function importStructuredStatement(
+  format: Extract<StatementFormat, 'ofx' | 'mt940'>,
+  text: string
+): StatementImportResult {
+  return format === 'ofx' ? parseOFX(text) : parseMT940(text)
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_TAXONOMY,
+  createCustomTaxonomy,
+  getBuiltInTaxonomies,
+  getTaxonomy,
+  parseTaxonomy,
+  resolveCategoryKey,
+} from '@/lib/taxonomy'
+
+const custom = () =>
+  createCustomTaxonomy([
+    { label: 'Food', color: '#ff0000', icon: 'utensils', budgetType: 'want', subcategories: ['Delivery'] },
+    { label: 'Others', color: '#95a5a6', icon: 'tag', budgetType: 'want', subcategories: [] },
+  ])
+
+describe('parseTaxonomy', () => {
+  it('accepts the built-in and custom taxonomies', () => {
+    getBuiltInTaxonomies().forEach((taxonomy) => expect(parseTaxonomy(taxonomy)).toEqual(taxonomy))
+    expect(parseTaxonomy(custom())).toEqual(custom())
+  })
+
+  it('rejects taxonomies broken below the top level', () => {
+    const taxonomy = custom()
+    const broken = (patch: object, index = 0) => ({
+      ...taxonomy,
+      categories: taxonomy.categories.map((category, i) => (i === index ? { ...category, ...patch } : category)),
+    })
+
+    expect(parseTaxonomy(broken({ color: 'red;}body{display:none' }))).toBeNull()
+    expect(parseTaxonomy(broken({ icon: 'skull' }))).toBeNull()
+    expect(parseTaxonomy(broken({ subcategories: 'Delivery' }))).toBeNull()
+    expect(parseTaxonomy(broken({ key: 'others' }))).toBeNull()
+    expect(parseTaxonomy({ ...taxonomy, fallbackKey: 'missing' })).toBeNull()
+    expect(parseTaxonomy({ ...taxonomy, categories: [] })).toBeNull()
+  })
+})
+
+describe('getTaxonomy', () => {
+  it('falls back to the default when the custom taxonomy is missing', () => {
+    expect(getTaxonomy('custom', null)).toBe(DEFAULT_TAXONOMY)
+    expect(getTaxonomy('custom', custom()).categories[0].key).toBe('food')
+  })
+})
+
+describe('resolveCategoryKey', () => {
+  it('rolls categories from another scheme up through aliases', () => {
+    expect(resolveCategoryKey(getTaxonomy('survival_lifestyle_future'), 'Dining', 'Food Delivery')).toBe('lifestyle')
+    expect(resolveCategoryKey(DEFAULT_TAXONOMY, 'Something new', '')).toBe('others')
+  })
+})
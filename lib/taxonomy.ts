@@ -0,0 +1,456 @@
+/**
+ * Category Taxonomy
+ *
+ * Describes the categories transactions are sorted into: their keys, labels,
+ * colors, icons, budget type and subcategories. The active taxonomy drives
+ * the category summary, the agent prompt, the charts and the legend.
+ *
+ * Two schemes are built in (the six spending buckets and the
+ * survival/lifestyle/future split) and users can define their own. Each
+ * category lists aliases so transactions categorized under another scheme,
+ * whether by the agent or by merchant rules, still land in the right bucket.
+ *
+ * @example
+ * ```ts
+ * import { getTaxonomy, resolveCategoryKey } from '@/lib/taxonomy'
+ *
+ * const taxonomy = getTaxonomy('survival_lifestyle_future')
+ * resolveCategoryKey(taxonomy, 'Dining', 'Food Delivery') // 'lifestyle'
+ * ```
+ */
+
+import { z } from 'zod'
+import type { Transaction } from '@/lib/transactions'
+
+// Types
+export type BudgetType = 'need' | 'want' | 'savings'
+
+export type CategoryIconName =
+  | 'utensils'
+  | 'shopping-bag'
+  | 'receipt'
+  | 'plane'
+  | 'trending-up'
+  | 'home'
+  | 'sparkles'
+  | 'piggy-bank'
+  | 'heart'
+  | 'car'
+  | 'tag'
+
+export interface TaxonomyCategory {
+  /** Slug used in `category_summary`, e.g. `bill_payments` */
+  key: string
+  label: string
+  color: string
+  icon: CategoryIconName
+  budgetType: BudgetType
+  /** Subcategories offered to the agent and the user */
+  subcategories: string[]
+  /** Category or subcategory names from other schemes that roll up into this one */
+  aliases: string[]
+}
+
+export interface Taxonomy {
+  id: string
+  name: string
+  categories: TaxonomyCategory[]
+  /** Key of the category that collects anything no other category claims */
+  fallbackKey: string
+}
+
+/** Which taxonomy is active, plus the user's own one if they made it */
+export interface TaxonomySettings {
+  selectedId: string
+  custom: Taxonomy | null
+}
+
+export const BUDGET_TYPE_LABELS: Record<BudgetType, string> = {
+  need: 'Need',
+  want: 'Want',
+  savings: 'Savings',
+}
+
+export const CATEGORY_ICONS: CategoryIconName[] = [
+  'utensils',
+  'shopping-bag',
+  'receipt',
+  'plane',
+  'trending-up',
+  'home',
+  'sparkles',
+  'piggy-bank',
+  'heart',
+  'car',
+  'tag',
+]
+
+export const CUSTOM_TAXONOMY_ID = 'custom'
+export const FALLBACK_CATEGORY_COLOR = '#95a5a6'
+
+const STORAGE_KEY = 'finos_taxonomy'
+
+const SIX_BUCKET_TAXONOMY: Taxonomy = {
+  id: 'six_bucket',
+  name: 'Spending categories',
+  fallbackKey: 'others',
+  categories: [
+    {
+      key: 'dining',
+      label: 'Dining',
+      color: '#ff6b6b',
+      icon: 'utensils',
+      budgetType: 'want',
+      subcategories: ['Food Delivery', 'Restaurant', 'Cafe'],
+      aliases: ['food', 'food delivery', 'dining out', 'restaurant', 'restaurants', 'cafe'],
+    },
+    {
+      key: 'shopping',
+      label: 'Shopping',
+      color: '#4ecdc4',
+      icon: 'shopping-bag',
+      budgetType: 'want',
+      subcategories: ['E-commerce', 'Retail', 'Clothing', 'Groceries'],
+      aliases: ['online shopping', 'e commerce', 'retail', 'clothing', 'groceries', 'grocery'],
+    },
+    {
+      key: 'bill_payments',
+      label: 'Bill Payments',
+      color: '#45b7d1',
+      icon: 'receipt',
+      budgetType: 'need',
+      subcategories: ['Subscription', 'Utilities', 'Rent', 'Insurance'],
+      aliases: ['bills', 'utilities', 'subscription', 'subscriptions', 'rent', 'insurance premium'],
+    },
+    {
+      key: 'travel',
+      label: 'Travel',
+      color: '#96ceb4',
+      icon: 'plane',
+      budgetType: 'want',
+      subcategories: ['Transport', 'Train', 'Flights', 'Hotels'],
+      aliases: ['transport', 'transportation', 'train', 'flights', 'hotels', 'fuel', 'cab'],
+    },
+    {
+      key: 'investments',
+      label: 'Investments',
+      color: '#1a237e',
+      icon: 'trending-up',
+      budgetType: 'savings',
+      subcategories: ['Mutual Fund SIP', 'Stocks', 'Fixed Deposit'],
+      aliases: ['investment', 'sip', 'mutual fund sip', 'savings', 'stocks', 'fixed deposit', 'future'],
+    },
+    {
+      key: 'others',
+      label: 'Others',
+      color: FALLBACK_CATEGORY_COLOR,
+      icon: 'tag',
+      budgetType: 'want',
+      subcategories: ['Entertainment', 'Cash Withdrawal', 'Miscellaneous'],
+      aliases: ['other', 'entertainment', 'miscellaneous', 'cash withdrawal'],
+    },
+  ],
+}
+
+const SURVIVAL_LIFESTYLE_FUTURE_TAXONOMY: Taxonomy = {
+  id: 'survival_lifestyle_future',
+  name: 'Survival / Lifestyle / Future',
+  fallbackKey: 'lifestyle',
+  categories: [
+    {
+      key: 'survival',
+      label: 'Survival',
+      color: '#45b7d1',
+      icon: 'home',
+      budgetType: 'need',
+      subcategories: ['Groceries', 'Rent', 'Utilities', 'Transportation', 'Healthcare'],
+      aliases: [
+        'bill payments',
+        'bills',
+        'groceries',
+        'grocery',
+        'rent',
+        'utilities',
+        'transport',
+        'transportation',
+        'train',
+        'fuel',
+        'healthcare',
+        'medical',
+      ],
+    },
+    {
+      key: 'lifestyle',
+      label: 'Lifestyle',
+      color: '#ff6b6b',
+      icon: 'sparkles',
+      budgetType: 'want',
+      subcategories: ['Dining Out', 'Online Shopping', 'Entertainment', 'Travel', 'Subscriptions'],
+      aliases: [
+        'dining',
+        'food delivery',
+        'dining out',
+        'shopping',
+        'online shopping',
+        'e commerce',
+        'travel',
+        'entertainment',
+        'subscription',
+        'subscriptions',
+        'others',
+      ],
+    },
+    {
+      key: 'future',
+      label: 'Future',
+      color: '#1a237e',
+      icon: 'piggy-bank',
+      budgetType: 'savings',
+      subcategories: ['Investments', 'Savings', 'Insurance'],
+      aliases: ['investments', 'investment', 'sip', 'mutual fund sip', 'savings', 'insurance', 'fixed deposit'],
+    },
+  ],
+}
+
+const BUILT_IN_TAXONOMIES: Taxonomy[] = [SIX_BUCKET_TAXONOMY, SURVIVAL_LIFESTYLE_FUTURE_TAXONOMY]
+
+export const DEFAULT_TAXONOMY = SIX_BUCKET_TAXONOMY
+
+/**
+ * Slug used to key a category, e.g. "Bill Payments" -> "bill_payments"
+ */
+export function categoryKey(category: string): string {
+  const key = (category || '')
+    .trim()
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+  return key || 'others'
+}
+
+/**
+ * Human-readable name for a category slug
+ */
+export function categoryLabel(key: string): string {
+  return key
+    .split('_')
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Built-in taxonomies, in the order they are offered
+ */
+export function getBuiltInTaxonomies(): Taxonomy[] {
+  return [...BUILT_IN_TAXONOMIES]
+}
+
+/**
+ * Look up a taxonomy by id, falling back to the default one
+ */
+export function getTaxonomy(id: string, custom: Taxonomy | null = null): Taxonomy {
+  if (id === CUSTOM_TAXONOMY_ID && custom) return custom
+  return BUILT_IN_TAXONOMIES.find((taxonomy) => taxonomy.id === id) || DEFAULT_TAXONOMY
+}
+
+/**
+ * Category matching a key or label exactly (case-insensitive), if any
+ */
+export function findCategory(taxonomy: Taxonomy, name: string): TaxonomyCategory | null {
+  const key = categoryKey(name)
+  return taxonomy.categories.find((category) => category.key === key || categoryKey(category.label) === key) || null
+}
+
+/**
+ * Keys to try for a free-text name: as written, without a bracketed note
+ * ("Shopping (Sportswear)") and each part of a slash-separated name
+ */
+const nameVariants = (name: string): string[] => {
+  const withoutNote = name.replace(/\(.*?\)/g, ' ')
+  return [name, withoutNote, ...withoutNote.split('/')].filter((part) => part.trim()).map(categoryKey)
+}
+
+const aliasMatch = (taxonomy: Taxonomy, name: string) => {
+  if (!name.trim()) return null
+  const keys = nameVariants(name)
+  for (const key of keys) {
+    const match = taxonomy.categories.find(
+      (category) =>
+        category.key === key ||
+        [category.label, ...category.aliases, ...category.subcategories].some((alias) => categoryKey(alias) === key)
+    )
+    if (match) return match
+  }
+  return null
+}
+
+/**
+ * Work out which category of the taxonomy a transaction belongs to. A
+ * category named in this taxonomy wins; otherwise the subcategory is tried
+ * before the category, since it is the more specific of the two.
+ */
+export function resolveCategoryKey(taxonomy: Taxonomy, category: string, subcategory = ''): string {
+  const match =
+    (category.trim() ? findCategory(taxonomy, category) : null) ||
+    aliasMatch(taxonomy, subcategory) ||
+    aliasMatch(taxonomy, category)
+  return match ? match.key : taxonomy.fallbackKey
+}
+
+/**
+ * Color for a category key or label
+ */
+export function getCategoryColor(taxonomy: Taxonomy, name: string): string {
+  return findCategory(taxonomy, name)?.color || FALLBACK_CATEGORY_COLOR
+}
+
+/**
+ * Display label for a category key, including keys outside the taxonomy
+ */
+export function getCategoryLabel(taxonomy: Taxonomy, key: string): string {
+  return findCategory(taxonomy, key)?.label || categoryLabel(key)
+}
+
+/**
+ * Relabel transactions with this taxonomy's categories. A category that
+ * had to be mapped is kept as the subcategory when there was none.
+ */
+export function applyTaxonomy<T extends Transaction>(transactions: T[], taxonomy: Taxonomy): T[] {
+  return transactions.map((txn) => {
+    const category = (txn.category || '').trim()
+    // Uncategorized rows stay blank so they are still sent for categorization
+    if (!category && !(txn.subcategory || '').trim()) return txn
+    const resolved = taxonomy.categories.find(
+      (entry) => entry.key === resolveCategoryKey(taxonomy, category, txn.subcategory || '')
+    )
+    if (!resolved || resolved.label === category) return txn
+    return { ...txn, category: resolved.label, subcategory: (txn.subcategory || '').trim() || category }
+  })
+}
+
+/**
+ * The taxonomy whose keys cover every key the agent used, if any. Used to
+ * read agent output written under a different scheme than the active one.
+ */
+export function detectTaxonomy(keys: string[], candidates: Taxonomy[] = BUILT_IN_TAXONOMIES): Taxonomy | null {
+  const normalized = keys.map(categoryKey)
+  if (normalized.length === 0) return null
+  return (
+    candidates.find((taxonomy) => normalized.every((key) => taxonomy.categories.some((c) => c.key === key))) || null
+  )
+}
+
+/**
+ * Instructions telling the agent which categories to use
+ */
+export function describeTaxonomyForPrompt(taxonomy: Taxonomy): string {
+  const categories = taxonomy.categories
+    .map((category) =>
+      category.subcategories.length > 0
+        ? `${category.label} (${category.subcategories.join(', ')})`
+        : category.label
+    )
+    .join('; ')
+  const keys = taxonomy.categories.map((category) => category.key).join(', ')
+  return `Categorize into exactly these categories, with suggested subcategories in brackets: ${categories}. Key category_summary by: ${keys}.`
+}
+
+/**
+ * Build a custom taxonomy from categories edited by the user. Keys are
+ * derived from the labels; the last category collects anything unmatched
+ * unless one is called "Others".
+ */
+export function createCustomTaxonomy(
+  categories: Omit<TaxonomyCategory, 'key' | 'aliases'>[],
+  name = 'Custom categories'
+): Taxonomy {
+  const entries: TaxonomyCategory[] = categories.map((category) => ({
+    ...category,
+    label: category.label.trim(),
+    key: categoryKey(category.label),
+    subcategories: category.subcategories.map((sub) => sub.trim()).filter(Boolean),
+    aliases: [],
+  }))
+  const fallback = entries.find((category) => category.key === 'others') || entries[entries.length - 1]
+
+  return { id: CUSTOM_TAXONOMY_ID, name, categories: entries, fallbackKey: fallback?.key || 'others' }
+}
+
+/**
+ * Problems with a custom taxonomy, or null if it is usable
+ */
+export function getTaxonomyError(categories: { label: string }[]): string | null {
+  if (categories.length === 0) return 'Add at least one category'
+  if (categories.some((category) => !category.label.trim())) return 'Every category needs a name'
+  const keys = categories.map((category) => categoryKey(category.label))
+  if (new Set(keys).size !== keys.length) return 'Category names must be unique'
+  return null
+}
+
+// Colors end up in chart CSS, so only plain hex colors are accepted
+const taxonomySchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    categories: z
+      .array(
+        z.object({
+          key: z.string().regex(/^[a-z0-9_]+$/),
+          label: z.string().trim().min(1),
+          color: z.string().regex(/^#[0-9a-f]{6}$/i),
+          icon: z.enum(CATEGORY_ICONS as [CategoryIconName, ...CategoryIconName[]]),
+          budgetType: z.enum(['need', 'want', 'savings']),
+          subcategories: z.array(z.string()),
+          aliases: z.array(z.string()),
+        })
+      )
+      .min(1),
+    fallbackKey: z.string(),
+  })
+  .refine((taxonomy) => new Set(taxonomy.categories.map((category) => category.key)).size === taxonomy.categories.length, {
+    message: 'Category keys must be unique',
+  })
+  .refine((taxonomy) => taxonomy.categories.some((category) => category.key === taxonomy.fallbackKey), {
+    message: 'fallbackKey must name one of the categories',
+  })
+
+/**
+ * Validate a stored taxonomy in full; null if any part of it is unusable
+ */
+export function parseTaxonomy(value: unknown): Taxonomy | null {
+  const parsed = taxonomySchema.safeParse(value)
+  // Inferred fields are all optional without strict null checks
+  return parsed.success ? (parsed.data as Taxonomy) : null
+}
+
+/**
+ * Read the taxonomy choice from localStorage. A stored custom taxonomy that
+ * fails validation is dropped, so the built-in default is used instead.
+ */
+export function loadTaxonomySettings(): TaxonomySettings {
+  const defaults: TaxonomySettings = { selectedId: DEFAULT_TAXONOMY.id, custom: null }
+  if (typeof window === 'undefined') return defaults
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null')
+    if (!stored || typeof stored.selectedId !== 'string') return defaults
+    const parsed = parseTaxonomy(stored.custom)
+    const custom = parsed ? { ...parsed, id: CUSTOM_TAXONOMY_ID } : null
+    return { selectedId: stored.selectedId, custom }
+  } catch {
+    return defaults
+  }
+}
+
+/**
+ * Persist the taxonomy choice to localStorage
+ */
+export function saveTaxonomySettings(settings: TaxonomySettings): void {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error('Failed to save taxonomy:', error)
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Transactions
+ *
+ * The normalized transaction shape shared by the importers, the dashboard
+ * and the agents, and the step that turns mapped statement rows into it.
+ */
+
+import { serializeCSV } from '@/lib/csvParser'
+import type { MappedTransaction, TransactionDirection } from '@/lib/columnMapping'
+import { parseStatementDate, type DateOrder } from '@/lib/dateParsing'
+
+// Types
+export interface Transaction {
+  date: string
+  merchant: string
+  amount: number
+  category: string
+  subcategory: string
+  /** Money in or out; rows without one (e.g. agent output) are spending */
+  direction?: TransactionDirection
+}
+
+export interface NormalizedTransaction extends Transaction {
+  direction: TransactionDirection
+  currency: string
+  /** 1-based data row in the source file (header excluded) */
+  sourceRow: number
+  /** Date exactly as printed in the statement */
+  rawDate: string
+}
+
+/**
+ * Credits (refunds, salary, reversals) are money in and never count as spending
+ */
+export const isCredit = (txn: Pick<Transaction, 'direction'>) => txn.direction === 'credit'
+
+/**
+ * Output of the structured statement importers (OFX/QFX, MT940), which
+ * carry their own field layout and need no column mapping
+ */
+export interface StatementImportResult {
+  transactions: NormalizedTransaction[]
+  accountId?: string
+  currency?: string
+  errors: string[]
+}
+
+/**
+ * Convert mapped rows into normalized transactions with ISO dates. Rows
+ * whose date can't be read keep an empty `date` and their original text in
+ * `rawDate`.
+ */
+export function normalizeTransactions(
+  mapped: MappedTransaction[],
+  options: { dateOrder?: DateOrder } = {}
+): NormalizedTransaction[] {
+  return mapped.map((txn) => ({
+    date: parseStatementDate(txn.date, options.dateOrder) || '',
+    merchant: txn.merchant,
+    amount: txn.amount,
+    category: '',
+    subcategory: '',
+    direction: txn.direction,
+    currency: txn.currency,
+    sourceRow: txn.sourceRow,
+    rawDate: txn.date,
+  }))
+}
+
+/**
+ * Serialize normalized transactions into the compact CSV sent to the agents.
+ * Category columns are blank for rows still to be categorized.
+ */
+export function toAnalysisCSV(transactions: NormalizedTransaction[]): string {
+  return serializeCSV(
+    ['date', 'merchant', 'amount', 'type', 'currency', 'category', 'subcategory'],
+    transactions.map((txn) => [
+      txn.date,
+      txn.merchant,
+      txn.amount,
+      txn.direction,
+      txn.currency,
+      txn.category,
+      txn.subcategory,
+    ])
+  )
+}
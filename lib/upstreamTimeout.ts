@@ -0,0 +1,93 @@
+/**
+ * Upstream Timeouts
+ *
+ * Server-side deadlines for the calls the API routes make to Lyzr. Each
+ * route has its own default, overridable through an environment variable,
+ * and the upstream request is also aborted when the browser cancels its own
+ * request.
+ *
+ * @example
+ * ```ts
+ * import { createUpstreamSignal, getTimeoutMessage } from '@/lib/upstreamTimeout'
+ *
+ * const upstream = createUpstreamSignal('agent', request.signal)
+ * try {
+ *   const response = await fetch(url, { signal: upstream.signal })
+ * } catch (error) {
+ *   if (upstream.timedOut()) {
+ *     return NextResponse.json({ error: getTimeoutMessage('agent') }, { status: 504 })
+ *   }
+ * } finally {
+ *   upstream.clear()
+ * }
+ * ```
+ */
+
+// Types
+export type UpstreamRoute = 'agent' | 'agent_stream' | 'upload' | 'rag'
+
+export interface UpstreamSignal {
+  signal: AbortSignal
+  /** Whether the deadline, rather than the client, aborted the request */
+  timedOut: () => boolean
+  /** Stop the deadline timer once the upstream call has finished */
+  clear: () => void
+}
+
+const DEFAULT_TIMEOUTS_MS: Record<UpstreamRoute, number> = {
+  agent: 120_000,
+  // A stream keeps the connection open for the whole answer
+  agent_stream: 300_000,
+  upload: 60_000,
+  rag: 120_000,
+}
+
+const TIMEOUT_ENV_VARS: Record<UpstreamRoute, string> = {
+  agent: 'AGENT_TIMEOUT_MS',
+  agent_stream: 'AGENT_STREAM_TIMEOUT_MS',
+  upload: 'UPLOAD_TIMEOUT_MS',
+  rag: 'RAG_TIMEOUT_MS',
+}
+
+/**
+ * Deadline for a route in milliseconds, e.g. `AGENT_TIMEOUT_MS=60000`
+ */
+export function getRouteTimeout(route: UpstreamRoute): number {
+  const configured = Number(process.env[TIMEOUT_ENV_VARS[route]])
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TIMEOUTS_MS[route]
+}
+
+export function getTimeoutMessage(route: UpstreamRoute): string {
+  const ms = getRouteTimeout(route)
+  const limit = ms >= 1000 ? `${Math.round(ms / 1000)} seconds` : `${ms} ms`
+  return `The upstream service did not respond within ${limit}`
+}
+
+/**
+ * A signal that aborts when the route's deadline passes or `clientSignal` aborts
+ */
+export function createUpstreamSignal(route: UpstreamRoute, clientSignal?: AbortSignal): UpstreamSignal {
+  const controller = new AbortController()
+  let timedOut = false
+
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, getRouteTimeout(route))
+
+  const onClientAbort = () => controller.abort()
+  if (clientSignal?.aborted) {
+    controller.abort()
+  } else {
+    clientSignal?.addEventListener('abort', onClientAbort)
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer)
+      clientSignal?.removeEventListener('abort', onClientAbort)
+    },
+  }
+}
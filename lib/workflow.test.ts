@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getAgentByRole,
+  getAgentId,
+  getWorkflowErrors,
+  loadWorkflow,
+  type WorkflowDefinition,
+  type WorkflowState,
+} from '@/lib/workflow'
+
+const definition = (): WorkflowDefinition => ({
+  workflow_name: 'Test',
+  workflow_type: 'Manager-Subagent',
+  nodes: [
+    { id: 'input', type: 'input', label: 'Input', nodeCategory: 'input' },
+    { id: 'manager', type: 'agent', label: 'Manager', nodeCategory: 'agent', agent_id: 'm' },
+    { id: 'cleaner', type: 'agent', label: 'Cleaner', nodeCategory: 'agent', agent_id: 'c' },
+    { id: 'strategist', type: 'agent', label: 'Strategist', nodeCategory: 'agent', agent_id: 's' },
+    { id: 'output', type: 'end', label: 'Output', nodeCategory: 'end' },
+  ],
+  edges: [
+    { source: 'input', target: 'manager' },
+    { source: 'manager', target: 'cleaner' },
+    { source: 'manager', target: 'strategist' },
+    { source: 'manager', target: 'output' },
+  ],
+})
+
+const state = (): WorkflowState => ({
+  agents: {
+    manager: { agent_id: 'm', name: 'Manager', role: 'orchestrator', manages: ['c', 's'] },
+    sub_agents: [
+      { agent_id: 'c', name: 'Cleaner', role: 'data_cleaning', managed_by: 'm' },
+      { agent_id: 's', name: 'Strategist', role: 'financial_categorization', managed_by: 'm' },
+    ],
+  },
+})
+
+describe('getWorkflowErrors', () => {
+  it('accepts a complete graph', () => {
+    expect(getWorkflowErrors(definition(), state())).toEqual([])
+  })
+
+  it('reports duplicate nodes and edges to unknown nodes', () => {
+    const graph = definition()
+    graph.nodes.push({ ...graph.nodes[0] })
+    graph.edges.push({ source: 'manager', target: 'auditor' })
+
+    expect(getWorkflowErrors(graph, state())).toEqual([
+      'Node "input" is defined more than once',
+      'Edge manager → auditor points at unknown node "auditor"',
+      'Expected exactly one input node, found 2',
+    ])
+  })
+
+  it('needs exactly one output node', () => {
+    const graph = definition()
+    graph.nodes = graph.nodes.filter((node) => node.nodeCategory !== 'end')
+    graph.edges = graph.edges.filter((edge) => edge.target !== 'output')
+
+    expect(getWorkflowErrors(graph, state())).toEqual(['Expected exactly one output node, found 0'])
+  })
+
+  it('matches agent nodes with their state entries both ways', () => {
+    const graph = definition()
+    graph.nodes[2] = { ...graph.nodes[2], agent_id: undefined }
+    graph.nodes[3] = { ...graph.nodes[3], agent_id: 'x' }
+
+    expect(getWorkflowErrors(graph, state())).toEqual([
+      'Agent node "cleaner" has no agent_id',
+      'Agent node "strategist" has no entry in workflow_state.json',
+      'Cleaner (c) is not a node in workflow.json',
+      'Strategist (s) is not a node in workflow.json',
+    ])
+  })
+
+  it('needs an edge from a manager to each agent it manages', () => {
+    const graph = definition()
+    graph.edges = graph.edges.filter((edge) => edge.target !== 'strategist')
+
+    expect(getWorkflowErrors(graph, state())).toEqual(['Strategist is managed by m but no edge connects them'])
+  })
+
+  it('needs each required role filled exactly once', () => {
+    const roles = state()
+    roles.agents.sub_agents[1] = { ...roles.agents.sub_agents[1], role: 'data_cleaning' }
+
+    expect(getWorkflowErrors(definition(), roles)).toEqual([
+      'Expected exactly one agent with role "data_cleaning", found 2',
+      'Expected exactly one agent with role "financial_categorization", found 0',
+    ])
+  })
+})
+
+describe('loadWorkflow', () => {
+  it('builds the agents with their roles and managers', () => {
+    const workflow = loadWorkflow(definition(), state())
+
+    expect(workflow.inputNode.id).toBe('input')
+    expect(workflow.outputNode.id).toBe('output')
+    expect(workflow.agents).toContainEqual({
+      nodeId: 'cleaner',
+      agentId: 'c',
+      label: 'Cleaner',
+      name: 'Cleaner',
+      role: 'data_cleaning',
+      managedBy: 'm',
+    })
+  })
+
+  it('throws with every problem listed', () => {
+    const graph = definition()
+    graph.nodes = graph.nodes.filter((node) => node.nodeCategory !== 'input')
+
+    expect(() => loadWorkflow(graph, { agents: { ...state().agents, sub_agents: [] } })).toThrow(
+      /Invalid workflow definition:\n- Edge input → manager points at unknown node "input"\n- Expected exactly one input node/
+    )
+  })
+
+  it('loads the shipped workflow and finds agents by role', () => {
+    expect(getAgentByRole('data_cleaning').nodeId).toBe('data_surgeon')
+    expect(getAgentId('orchestrator')).toBe(loadWorkflow().agents.find((agent) => agent.nodeId === 'finos_manager').agentId)
+  })
+})
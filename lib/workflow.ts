@@ -0,0 +1,194 @@
+/**
+ * Workflow Definition
+ *
+ * Typed view of `workflow.json` (the agent graph) and `workflow_state.json`
+ * (each agent's role). The graph is validated when this module loads, and
+ * agent IDs are looked up by role, so swapping or adding an agent means
+ * editing the JSON rather than the components that call it.
+ *
+ * @example
+ * ```ts
+ * import { getAgentId } from '@/lib/workflow'
+ *
+ * const result = await callAIAgent(message, getAgentId('orchestrator'))
+ * ```
+ */
+
+import workflowDefinition from '@/workflow.json'
+import workflowState from '@/workflow_state.json'
+
+// Types
+/** Roles the app calls by name; the JSON may add agents with other roles */
+export type AgentRole = 'orchestrator' | 'data_cleaning' | 'financial_categorization'
+
+export interface WorkflowNode {
+  id: string
+  type: string
+  label: string
+  /** `input`, `agent` or `end` */
+  nodeCategory: string
+  agent_id?: string
+}
+
+export interface WorkflowEdge {
+  source: string
+  target: string
+}
+
+export interface WorkflowDefinition {
+  workflow_name: string
+  workflow_type: string
+  nodes: WorkflowNode[]
+  edges: WorkflowEdge[]
+}
+
+export interface WorkflowStateAgent {
+  agent_id: string
+  name: string
+  role: string
+  manages?: string[]
+  managed_by?: string
+}
+
+export interface WorkflowState {
+  agents: {
+    manager: WorkflowStateAgent
+    sub_agents: WorkflowStateAgent[]
+  }
+}
+
+export interface WorkflowAgent {
+  /** Node id in `workflow.json`, e.g. `data_surgeon` */
+  nodeId: string
+  agentId: string
+  label: string
+  name: string
+  role: string
+  /** Agent id of the managing agent, if any */
+  managedBy?: string
+}
+
+export interface Workflow {
+  name: string
+  type: string
+  inputNode: WorkflowNode
+  outputNode: WorkflowNode
+  agents: WorkflowAgent[]
+  edges: WorkflowEdge[]
+}
+
+const REQUIRED_ROLES: AgentRole[] = ['orchestrator', 'data_cleaning', 'financial_categorization']
+
+const stateAgents = (state: WorkflowState) => [state.agents.manager, ...state.agents.sub_agents]
+
+/**
+ * Problems with the graph or its roles; empty when the workflow is usable
+ */
+export function getWorkflowErrors(definition: WorkflowDefinition, state: WorkflowState): string[] {
+  const errors: string[] = []
+  const nodeIds = new Set<string>()
+
+  definition.nodes.forEach((node) => {
+    if (nodeIds.has(node.id)) errors.push(`Node "${node.id}" is defined more than once`)
+    nodeIds.add(node.id)
+  })
+
+  definition.edges.forEach((edge) => {
+    for (const id of [edge.source, edge.target]) {
+      if (!nodeIds.has(id)) errors.push(`Edge ${edge.source} → ${edge.target} points at unknown node "${id}"`)
+    }
+  })
+
+  const inputs = definition.nodes.filter((node) => node.nodeCategory === 'input')
+  const outputs = definition.nodes.filter((node) => node.nodeCategory === 'end')
+  if (inputs.length !== 1) errors.push(`Expected exactly one input node, found ${inputs.length}`)
+  if (outputs.length !== 1) errors.push(`Expected exactly one output node, found ${outputs.length}`)
+
+  const roles = new Map(stateAgents(state).map((agent) => [agent.agent_id, agent]))
+  const graphAgentIds = new Set<string>()
+  definition.nodes
+    .filter((node) => node.nodeCategory === 'agent')
+    .forEach((node) => {
+      if (!node.agent_id) {
+        errors.push(`Agent node "${node.id}" has no agent_id`)
+        return
+      }
+      graphAgentIds.add(node.agent_id)
+      if (!roles.has(node.agent_id)) errors.push(`Agent node "${node.id}" has no entry in workflow_state.json`)
+    })
+
+  stateAgents(state).forEach((agent) => {
+    if (!graphAgentIds.has(agent.agent_id)) {
+      errors.push(`${agent.name} (${agent.agent_id}) is not a node in workflow.json`)
+    }
+    const node = definition.nodes.find((candidate) => candidate.agent_id === agent.agent_id)
+    if (agent.managed_by && node) {
+      const managerNode = definition.nodes.find((candidate) => candidate.agent_id === agent.managed_by)
+      const linked =
+        managerNode && definition.edges.some((edge) => edge.source === managerNode.id && edge.target === node.id)
+      if (!linked) errors.push(`${agent.name} is managed by ${agent.managed_by} but no edge connects them`)
+    }
+  })
+
+  REQUIRED_ROLES.forEach((role) => {
+    const count = stateAgents(state).filter((agent) => agent.role === role).length
+    if (count !== 1) errors.push(`Expected exactly one agent with role "${role}", found ${count}`)
+  })
+
+  return errors
+}
+
+/**
+ * Build the workflow from its JSON definition. Throws if the graph is invalid.
+ */
+export function loadWorkflow(
+  definition: WorkflowDefinition = workflowDefinition,
+  state: WorkflowState = workflowState
+): Workflow {
+  const errors = getWorkflowErrors(definition, state)
+  if (errors.length > 0) {
+    throw new Error(`Invalid workflow definition:\n- ${errors.join('\n- ')}`)
+  }
+
+  const roles = new Map(stateAgents(state).map((agent) => [agent.agent_id, agent]))
+  const agents: WorkflowAgent[] = definition.nodes
+    .filter((node) => node.nodeCategory === 'agent')
+    .map((node) => {
+      const entry = roles.get(node.agent_id!)!
+      return {
+        nodeId: node.id,
+        agentId: entry.agent_id,
+        label: node.label,
+        name: entry.name,
+        role: entry.role,
+        managedBy: entry.managed_by,
+      }
+    })
+
+  return {
+    name: definition.workflow_name,
+    type: definition.workflow_type,
+    inputNode: definition.nodes.find((node) => node.nodeCategory === 'input')!,
+    outputNode: definition.nodes.find((node) => node.nodeCategory === 'end')!,
+    agents,
+    edges: definition.edges,
+  }
+}
+
+const WORKFLOW = loadWorkflow()
+
+export function getWorkflow(): Workflow {
+  return WORKFLOW
+}
+
+/**
+ * The agent that fills a role
+ */
+export function getAgentByRole(role: AgentRole): WorkflowAgent {
+  // Validation guarantees every required role is filled exactly once
+  return WORKFLOW.agents.find((agent) => agent.role === role)!
+}
+
+export function getAgentId(role: AgentRole): string {
+  return getAgentByRole(role).agentId
+}
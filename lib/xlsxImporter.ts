@@ -0,0 +1,68 @@
+/**
+ * Excel Workbook Importer
+ *
+ * Reads .xlsx/.xls workbooks into plain string records per sheet so they can
+ * go through the same header detection and column mapping as CSV. Date cells
+ * become ISO `yyyy-mm-dd` strings and numbers keep full precision rather
+ * than the sheet's display format.
+ *
+ * @example
+ * ```ts
+ * import { readWorkbook } from '@/lib/xlsxImporter'
+ *
+ * const sheets = readWorkbook(await file.arrayBuffer())
+ * const records = sheets[0].records
+ * ```
+ */
+
+import * as XLSX from 'xlsx'
+import { isEmptyRecord } from '@/lib/csvParser'
+
+// Types
+export interface WorkbookSheet {
+  name: string
+  /** Non-empty rows of the sheet as strings */
+  records: string[][]
+}
+
+export const WORKBOOK_EXTENSIONS = ['xlsx', 'xls']
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return ''
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+  }
+  return String(value).trim()
+}
+
+/**
+ * Whether a file name looks like an Excel workbook
+ */
+export function isWorkbookFile(fileName: string): boolean {
+  return WORKBOOK_EXTENSIONS.includes(fileName.toLowerCase().split('.').pop() || '')
+}
+
+/**
+ * Read every sheet of a workbook into string records
+ */
+export function readWorkbook(data: ArrayBuffer): WorkbookSheet[] {
+  const workbook = XLSX.read(data, { type: 'array', cellDates: true })
+
+  return workbook.SheetNames.map((name) => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+      header: 1,
+      raw: true,
+      defval: '',
+      blankrows: false,
+    })
+
+    const records = rows
+      .map((row) => (Array.isArray(row) ? row.map(cellToString) : []))
+      .filter((record) => record.length > 0 && !isEmptyRecord(record))
+
+    return { name, records }
+  })
+}